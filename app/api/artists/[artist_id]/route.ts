@@ -0,0 +1,150 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requirePermission, requireRole } from '@/lib/roles'
+import { StorageConflictError } from '@/lib/storage'
+import { artistsConflictResponse, parseArtistInput, readArtists, writeArtists, type Artist } from '@/lib/artists'
+
+type RouteParams = { params: Promise<{ artist_id: string }> }
+
+// Edits must name the revision they were made against, see GET /api/artists
+const REV_REQUIRED_ERROR = 'rev is required, reload the artists and try again'
+
+/**
+ * GET /api/artists/[artist_id] - Fetch a single artist
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await requireRole()
+    if (session instanceof NextResponse) {
+      return session
+    }
+
+    const { artist_id } = await params
+    const { artists, rev } = await readArtists()
+
+    const artist = artists.find(a => a.artist_id === artist_id)
+    if (!artist) {
+      return NextResponse.json({ error: 'Artist not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ artist, rev })
+  } catch (error) {
+    console.error('Error fetching artist:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch artist' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PUT /api/artists/[artist_id] - Update an existing artist in artist_urls.json
+ * Body: the artist fields plus the rev the client last loaded (required)
+ */
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await requirePermission('artists:write')
+    if (session instanceof NextResponse) {
+      return session
+    }
+
+    const { artist_id } = await params
+    const body = await request.json().catch(() => null)
+    const expectedRev = typeof body?.rev === 'string' ? body.rev : null
+    if (!expectedRev) {
+      return NextResponse.json({ error: REV_REQUIRED_ERROR }, { status: 400 })
+    }
+
+    const parsed = parseArtistInput(body)
+    if ('error' in parsed) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      )
+    }
+
+    const { artists, rev: currentRev } = await readArtists()
+
+    // Reject changes made against an older version of the list
+    if (expectedRev !== currentRev) {
+      return artistsConflictResponse()
+    }
+
+    if (!artists.some(artist => artist.artist_id === artist_id)) {
+      return NextResponse.json(
+        { error: 'Artist not found' },
+        { status: 404 }
+      )
+    }
+
+    const updatedArtist: Artist = {
+      artist_id,
+      ...parsed.artist,
+    }
+
+    // Save updated artist_urls.json, only if nobody changed it since it was read
+    const rev = await writeArtists(
+      artists.map(artist => (artist.artist_id === artist_id ? updatedArtist : artist)),
+      currentRev
+    )
+
+    return NextResponse.json({ success: true, artist: updatedArtist, rev })
+  } catch (error) {
+    if (error instanceof StorageConflictError) {
+      return artistsConflictResponse()
+    }
+    console.error('Error updating artist:', error)
+    return NextResponse.json(
+      { error: 'Failed to update artist' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/artists/[artist_id]?rev=... - Delete an artist from artist_urls.json (rev required)
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await requirePermission('artists:write')
+    if (session instanceof NextResponse) {
+      return session
+    }
+
+    const { artist_id } = await params
+    const expectedRev = request.nextUrl.searchParams.get('rev')
+    if (!expectedRev) {
+      return NextResponse.json({ error: REV_REQUIRED_ERROR }, { status: 400 })
+    }
+
+    const { artists, rev: currentRev } = await readArtists()
+
+    // Reject changes made against an older version of the list
+    if (expectedRev !== currentRev) {
+      return artistsConflictResponse()
+    }
+
+    if (!artists.some(artist => artist.artist_id === artist_id)) {
+      return NextResponse.json(
+        { error: 'Artist not found' },
+        { status: 404 }
+      )
+    }
+
+    // Save updated artist_urls.json, only if nobody changed it since it was read
+    const rev = await writeArtists(
+      artists.filter(artist => artist.artist_id !== artist_id),
+      currentRev
+    )
+
+    return NextResponse.json({ success: true, rev })
+  } catch (error) {
+    if (error instanceof StorageConflictError) {
+      return artistsConflictResponse()
+    }
+    console.error('Error deleting artist:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete artist' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server'
+import { currentUser } from '@clerk/nextjs/server'
+import { getUserRoles, getVerifiedEmails, setUserRoles } from '@/lib/roles'
+import { findPendingInvitation, linkTeamMember } from '@/lib/services/team-service'
+
+/**
+ * POST /api/auth/accept-invite
+ * Join the team with the invitation sent to one of the signed-in user's verified addresses
+ * Links the member to the Clerk user and mirrors their roles in Clerk metadata
+ */
+export async function POST() {
+  try {
+    const user = await currentUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const invitation = await findPendingInvitation(getVerifiedEmails(user))
+    if (!invitation) {
+      return NextResponse.json(
+        { error: 'No pending invitation for your verified email addresses' },
+        { status: 404 }
+      )
+    }
+
+    await linkTeamMember(invitation.member_id, user.id)
+    await setUserRoles(user.id, invitation.roles)
+    console.log(`✓ Team member ${invitation.email} joined`)
+
+    const roles = await getUserRoles(user.id)
+    return NextResponse.json({ success: true, roles })
+  } catch (error) {
+    console.error('Error accepting invitation:', error)
+    return NextResponse.json({ error: 'Failed to accept invitation' }, { status: 500 })
+  }
+}
@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server'
+import { currentUser } from '@clerk/nextjs/server'
+import { getUserRoles } from '@/lib/roles'
+import { getPermissionsForRoles } from '@/lib/permissions'
+
+/**
+ * GET /api/auth/me
+ * Profile of the signed-in user with the team roles they hold (empty: no access)
+ * and the permissions those roles grant
+ * The dashboard only offers the role switcher when more than one role comes back
+ */
+export async function GET() {
+  try {
+    const user = await currentUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const roles = await getUserRoles(user.id)
+
+    return NextResponse.json({
+      id: user.id,
+      email: user.primaryEmailAddress?.emailAddress || user.emailAddresses[0]?.emailAddress || '',
+      firstName: user.firstName || undefined,
+      lastName: user.lastName || undefined,
+      roles,
+      permissions: getPermissionsForRoles(roles),
+      isActive: roles.length > 0,
+      createdAt: new Date(user.createdAt).toISOString(),
+      updatedAt: new Date(user.updatedAt).toISOString(),
+      lastLoginAt: user.lastSignInAt ? new Date(user.lastSignInAt).toISOString() : undefined,
+    })
+  } catch (error) {
+    console.error('Error fetching current user:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch current user',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
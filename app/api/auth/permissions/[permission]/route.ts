@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireRole } from '@/lib/roles'
+import { PERMISSIONS, isPermission } from '@/lib/permissions'
+
+type RouteParams = { params: Promise<{ permission: string }> }
+
+/**
+ * GET /api/auth/permissions/[permission]
+ * Whether the signed-in user has one permission, e.g. /api/auth/permissions/demos:approve
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await requireRole()
+    if (session instanceof NextResponse) {
+      return session
+    }
+
+    const permission = decodeURIComponent((await params).permission)
+    if (!isPermission(permission)) {
+      return NextResponse.json(
+        { error: `Unknown permission. Must be one of: ${PERMISSIONS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({ hasPermission: session.permissions.includes(permission) })
+  } catch (error) {
+    console.error('Error checking permission:', error)
+    return NextResponse.json({ error: 'Failed to check permission' }, { status: 500 })
+  }
+}
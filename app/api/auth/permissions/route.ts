@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server'
+import { requireRole } from '@/lib/roles'
+
+/**
+ * GET /api/auth/permissions
+ * Permissions of the signed-in user, derived from their roles (see lib/permissions.ts)
+ */
+export async function GET() {
+  try {
+    const session = await requireRole()
+    if (session instanceof NextResponse) {
+      return session
+    }
+
+    return NextResponse.json(session.permissions)
+  } catch (error) {
+    console.error('Error fetching permissions:', error)
+    return NextResponse.json({ error: 'Failed to fetch permissions' }, { status: 500 })
+  }
+}
@@ -1,7 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
-import type { files } from 'dropbox'
-import { getDropboxClient } from '@/lib/dropbox'
-import { invalidateDemosCache } from '@/app/api/demos/route'
+import { getStorage } from '@/lib/storage'
 
 const REJECTED_FOLDER_PATH = '/demos/rejected'
 const CLEANUP_INTERVAL_MS = 24 * 60 * 60 * 1000
@@ -17,20 +15,10 @@ function isAuthorizedCronRequest(request: NextRequest): boolean {
 }
 
 async function listAllRejectedFiles() {
-  const dbx = await getDropboxClient()
-  const allEntries: files.MetadataReference[] = []
+  const storage = getStorage()
+  const { entries } = await storage.list(REJECTED_FOLDER_PATH)
 
-  let response = await dbx.filesListFolder({ path: REJECTED_FOLDER_PATH })
-  allEntries.push(...response.result.entries)
-
-  while (response.result.has_more) {
-    response = await dbx.filesListFolderContinue({
-      cursor: response.result.cursor,
-    })
-    allEntries.push(...response.result.entries)
-  }
-
-  return { dbx, entries: allEntries }
+  return { storage, entries }
 }
 
 export async function GET(request: NextRequest) {
@@ -48,13 +36,11 @@ export async function GET(request: NextRequest) {
   const errors: Array<{ path: string; message: string }> = []
 
   try {
-    const { dbx, entries } = await listAllRejectedFiles()
-    const fileEntries = entries.filter(
-      (entry): entry is files.FileMetadataReference => entry['.tag'] === 'file'
-    )
+    const { storage, entries } = await listAllRejectedFiles()
+    const fileEntries = entries.filter((entry) => entry.type === 'file')
     scanned = fileEntries.length
     const fileDiagnostics = fileEntries.map((fileEntry) => {
-      const serverModifiedIso = fileEntry.server_modified || null
+      const serverModifiedIso = fileEntry.modified_at || null
       const serverModifiedTs = serverModifiedIso ? new Date(serverModifiedIso).getTime() : null
       const ageHours = serverModifiedTs ? Number(((now - serverModifiedTs) / (60 * 60 * 1000)).toFixed(2)) : null
       const stale = serverModifiedTs !== null && serverModifiedTs <= staleThreshold
@@ -65,16 +51,15 @@ export async function GET(request: NextRequest) {
 
       return {
         name: fileEntry.name,
-        path: fileEntry.path_display || fileEntry.path_lower || fileEntry.name,
+        path: fileEntry.path,
         server_modified: serverModifiedIso,
-        client_modified: fileEntry.client_modified || null,
         age_hours_from_server_modified: ageHours,
         stale,
       }
     })
     const staleFiles = fileEntries.filter((fileEntry) => {
-      if (!fileEntry.server_modified) return false
-      return new Date(fileEntry.server_modified).getTime() <= staleThreshold
+      if (!fileEntry.modified_at) return false
+      return new Date(fileEntry.modified_at).getTime() <= staleThreshold
     })
 
     const staleAgeHours = fileDiagnostics
@@ -83,7 +68,7 @@ export async function GET(request: NextRequest) {
     const oldestAgeHours = staleAgeHours.length ? Math.max(...staleAgeHours) : null
     const youngestAgeHours = staleAgeHours.length ? Math.min(...staleAgeHours) : null
 
-    console.log('Dropbox rejected cleanup file diagnostics:', {
+    console.log('Rejected cleanup file diagnostics:', {
       folder: REJECTED_FOLDER_PATH,
       now_iso: new Date(now).toISOString(),
       threshold_iso: new Date(staleThreshold).toISOString(),
@@ -97,18 +82,18 @@ export async function GET(request: NextRequest) {
     })
 
     for (const fileEntry of staleFiles) {
-      const filePath = fileEntry.path_lower || fileEntry.path_display || fileEntry.name
+      const filePath = fileEntry.path_lower || fileEntry.path
 
       if (!filePath) {
         failed += 1
         if (errors.length < MAX_ERROR_DETAILS) {
-          errors.push({ path: 'unknown', message: 'Missing path for Dropbox entry' })
+          errors.push({ path: 'unknown', message: 'Missing path for storage entry' })
         }
         continue
       }
 
       try {
-        await dbx.filesDeleteV2({ path: filePath })
+        await storage.delete(filePath)
         deleted += 1
       } catch (error) {
         failed += 1
@@ -121,9 +106,7 @@ export async function GET(request: NextRequest) {
       }
     }
 
-    if (deleted > 0) {
-      await invalidateDemosCache()
-    }
+    // No cache invalidation needed: the deletions reach the demo index with its next incremental sync
 
     const summary = {
       status: 'success',
@@ -137,10 +120,10 @@ export async function GET(request: NextRequest) {
       errors,
     }
 
-    console.log('Dropbox rejected cleanup summary:', summary)
+    console.log('Rejected cleanup summary:', summary)
     return NextResponse.json(summary)
   } catch (error) {
-    console.error('Dropbox rejected cleanup failed:', error)
+    console.error('Rejected cleanup failed:', error)
     return NextResponse.json(
       {
         status: 'error',
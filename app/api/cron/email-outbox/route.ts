@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { processDueEmails } from '@/lib/services/email-outbox-service'
+
+// Emails sent per run; the rest wait for the next run
+const MAX_EMAILS_PER_RUN = 20
+
+function isAuthorizedCronRequest(request: NextRequest): boolean {
+  const cronSecret = process.env.CRON_SECRET
+  if (!cronSecret) return false
+
+  const authHeader = request.headers.get('authorization')
+  return authHeader === `Bearer ${cronSecret}`
+}
+
+/**
+ * Send scheduled artist emails and retry failed ones whose next attempt is due
+ */
+export async function GET(request: NextRequest) {
+  if (!isAuthorizedCronRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const result = await processDueEmails(MAX_EMAILS_PER_RUN)
+    console.log(`Email outbox: ${result.processed} due, ${result.sent} sent, ${result.failed} failed`)
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Email outbox run failed:', error)
+    return NextResponse.json(
+      {
+        error: 'Email outbox run failed',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
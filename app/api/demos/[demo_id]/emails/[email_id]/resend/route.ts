@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requirePermission } from '@/lib/roles'
+import { getStorage } from '@/lib/storage'
+import { getActorName, locateDemo } from '@/lib/demo-actions'
+import { EmailLockedError, getOutboxEmail, OutdatedEmailError, resendEmail } from '@/lib/services/email-outbox-service'
+
+/**
+ * POST /api/demos/[demo_id]/emails/[email_id]/resend
+ * Send an artist email again, whether or not it was delivered before
+ * A cancelled email is only sent while the demo is in the state it was written for
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ demo_id: string; email_id: string }> }
+) {
+  try {
+    const session = await requirePermission('emails:resend')
+    if (session instanceof NextResponse) {
+      return session
+    }
+
+    const { demo_id, email_id } = await params
+    const existing = await getOutboxEmail(email_id)
+    if (!existing || existing.demo_id !== demo_id) {
+      return NextResponse.json({ error: 'Email not found' }, { status: 404 })
+    }
+
+    const demoState = await locateDemo(getStorage(), demo_id)
+    const email = await resendEmail(email_id, demoState, await getActorName())
+
+    return NextResponse.json({ email })
+  } catch (error) {
+    if (error instanceof EmailLockedError || error instanceof OutdatedEmailError) {
+      return NextResponse.json({ error: error.message }, { status: 409 })
+    }
+    console.error('Error resending email:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to resend email',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireRole } from '@/lib/roles'
+import { getDemoEmails, getEmailDeliveryLog } from '@/lib/services/email-outbox-service'
+
+/**
+ * GET /api/demos/[demo_id]/emails
+ * Emails sent (or queued) to the artist of a demo, with the delivery log
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ demo_id: string }> }
+) {
+  try {
+    const session = await requireRole()
+    if (session instanceof NextResponse) {
+      return session
+    }
+
+    const { demo_id } = await params
+    const [emails, log] = await Promise.all([getDemoEmails(demo_id), getEmailDeliveryLog(demo_id)])
+
+    return NextResponse.json({ demo_id, emails, log })
+  } catch (error) {
+    console.error('Error fetching demo emails:', error)
+    return NextResponse.json({ error: 'Failed to fetch demo emails' }, { status: 500 })
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireRole } from '@/lib/roles'
+import { getDemoHistory } from '@/lib/services/demo-history-service'
+
+/**
+ * GET /api/demos/[demo_id]/history
+ * Fetch the review history (who moved the demo, when, and whether the artist was emailed)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ demo_id: string }> }
+) {
+  try {
+    const session = await requireRole()
+    if (session instanceof NextResponse) {
+      return session
+    }
+
+    const { demo_id } = await params
+    const history = await getDemoHistory(demo_id)
+
+    return NextResponse.json({ demo_id, history })
+  } catch (error) {
+    console.error('Error fetching demo history:', error)
+    return NextResponse.json({ error: 'Failed to fetch demo history' }, { status: 500 })
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requirePermission } from '@/lib/roles'
+import { DEMO_FEEDBACK_PERMISSIONS } from '@/lib/permissions'
+import { getStorage } from '@/lib/storage'
+import { locateDemo } from '@/lib/demo-actions'
+import { setDemoLocaleOverride } from '@/lib/services/demo-locale-service'
+import { EMAIL_LOCALES, isEmailLocale } from '@/lib/services/email-templates'
+
+/**
+ * PUT /api/demos/[demo_id]/locale
+ * Set the language of the artist's emails ({ locale: "de" }); null goes back to the
+ * locale from the submission. Emails still waiting in the outbox use the new language
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ demo_id: string }> }
+) {
+  try {
+    const session = await requirePermission(DEMO_FEEDBACK_PERMISSIONS)
+    if (session instanceof NextResponse) {
+      return session
+    }
+
+    const { demo_id } = await params
+    const body = await request.json().catch(() => null)
+    const locale = body?.locale ?? null
+    if (locale !== null && !isEmailLocale(locale)) {
+      return NextResponse.json(
+        { error: `Invalid locale. Must be null or one of: ${EMAIL_LOCALES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    if (!(await locateDemo(getStorage(), demo_id))) {
+      return NextResponse.json({ error: 'Demo not found' }, { status: 404 })
+    }
+
+    await setDemoLocaleOverride(demo_id, locale)
+    return NextResponse.json({ demo_id, email_locale_override: locale })
+  } catch (error) {
+    console.error('Error setting demo email language:', error)
+    return NextResponse.json({ error: 'Failed to set email language' }, { status: 500 })
+  }
+}
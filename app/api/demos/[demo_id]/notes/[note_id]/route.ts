@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requirePermission } from '@/lib/roles'
+import { DEMO_FEEDBACK_PERMISSIONS } from '@/lib/permissions'
+import { deleteDemoNote, getDemoNote, updateDemoNote, MAX_NOTE_LENGTH } from '@/lib/services/demo-notes-service'
+
+type RouteParams = { params: Promise<{ demo_id: string; note_id: string }> }
+
+/**
+ * Check that the note exists and belongs to the signed-in user
+ */
+async function checkNoteOwnership(demoId: string, noteId: string, userId: string) {
+  const note = await getDemoNote(demoId, noteId)
+
+  if (!note) {
+    return NextResponse.json({ error: 'Note not found' }, { status: 404 })
+  }
+
+  if (note.author_id !== userId) {
+    return NextResponse.json({ error: 'Only the author can change this note' }, { status: 403 })
+  }
+
+  return null
+}
+
+/**
+ * PATCH /api/demos/[demo_id]/notes/[note_id]
+ * Edit a note's text (author only)
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await requirePermission(DEMO_FEEDBACK_PERMISSIONS)
+    if (session instanceof NextResponse) {
+      return session
+    }
+    const { userId } = session
+
+    const { demo_id, note_id } = await params
+    const body = await request.json()
+    const text = typeof body?.body === 'string' ? body.body.trim() : ''
+
+    if (!text) {
+      return NextResponse.json({ error: 'Note text is required' }, { status: 400 })
+    }
+
+    if (text.length > MAX_NOTE_LENGTH) {
+      return NextResponse.json(
+        { error: `Note must be at most ${MAX_NOTE_LENGTH} characters` },
+        { status: 400 }
+      )
+    }
+
+    const ownershipError = await checkNoteOwnership(demo_id, note_id, userId)
+    if (ownershipError) return ownershipError
+
+    const note = await updateDemoNote(demo_id, note_id, text)
+    if (!note) {
+      return NextResponse.json({ error: 'Note not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ note })
+  } catch (error) {
+    console.error('Error updating demo note:', error)
+    return NextResponse.json({ error: 'Failed to update note' }, { status: 500 })
+  }
+}
+
+/**
+ * DELETE /api/demos/[demo_id]/notes/[note_id]
+ * Delete a note and its replies (author only)
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await requirePermission(DEMO_FEEDBACK_PERMISSIONS)
+    if (session instanceof NextResponse) {
+      return session
+    }
+    const { userId } = session
+
+    const { demo_id, note_id } = await params
+
+    const ownershipError = await checkNoteOwnership(demo_id, note_id, userId)
+    if (ownershipError) return ownershipError
+
+    const deleted = await deleteDemoNote(demo_id, note_id)
+    if (!deleted) {
+      return NextResponse.json({ error: 'Note not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting demo note:', error)
+    return NextResponse.json({ error: 'Failed to delete note' }, { status: 500 })
+  }
+}
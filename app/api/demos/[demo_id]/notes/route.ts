@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requirePermission, requireRole } from '@/lib/roles'
+import { DEMO_FEEDBACK_PERMISSIONS } from '@/lib/permissions'
+import { getActorName } from '@/lib/demo-actions'
+import { addDemoNote, getDemoNotes, MAX_NOTE_LENGTH } from '@/lib/services/demo-notes-service'
+
+/**
+ * GET /api/demos/[demo_id]/notes
+ * Fetch internal reviewer notes for a demo
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ demo_id: string }> }
+) {
+  try {
+    const session = await requireRole()
+    if (session instanceof NextResponse) {
+      return session
+    }
+
+    const { demo_id } = await params
+    const notes = await getDemoNotes(demo_id)
+
+    return NextResponse.json({ demo_id, notes })
+  } catch (error) {
+    console.error('Error fetching demo notes:', error)
+    return NextResponse.json({ error: 'Failed to fetch notes' }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/demos/[demo_id]/notes
+ * Add a note, or a reply when parent_id is given
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ demo_id: string }> }
+) {
+  try {
+    const session = await requirePermission(DEMO_FEEDBACK_PERMISSIONS)
+    if (session instanceof NextResponse) {
+      return session
+    }
+    const { userId } = session
+
+    const { demo_id } = await params
+    const body = await request.json()
+    const text = typeof body?.body === 'string' ? body.body.trim() : ''
+
+    if (!text) {
+      return NextResponse.json({ error: 'Note text is required' }, { status: 400 })
+    }
+
+    if (text.length > MAX_NOTE_LENGTH) {
+      return NextResponse.json(
+        { error: `Note must be at most ${MAX_NOTE_LENGTH} characters` },
+        { status: 400 }
+      )
+    }
+
+    const parentId = typeof body?.parent_id === 'string' ? body.parent_id : null
+
+    try {
+      const note = await addDemoNote(demo_id, userId, await getActorName(), text, parentId)
+      return NextResponse.json({ note }, { status: 201 })
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Parent note not found') {
+        return NextResponse.json({ error: error.message }, { status: 404 })
+      }
+      throw error
+    }
+  } catch (error) {
+    console.error('Error adding demo note:', error)
+    return NextResponse.json({ error: 'Failed to add note' }, { status: 500 })
+  }
+}
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireRole } from '@/lib/roles'
+import { getStorage } from '@/lib/storage'
+import { fetchDemoMetadata, findDemoInFolder } from '@/lib/demo-actions'
+import { getDemoStatusFromCache } from '@/lib/demo-index'
+import { DEMO_STATES, STATUS_FOLDERS, isDemoState, type DemoState } from '@/lib/demo-workflow'
+import { summarizeScores } from '@/lib/demo-scoring'
+import { getDemoHistory } from '@/lib/services/demo-history-service'
+import { getDemoScores } from '@/lib/services/demo-scores-service'
+import { getDemoLocaleOverride, resolveDemoEmailLocale } from '@/lib/services/demo-locale-service'
+
+/**
+ * GET /api/demos/[demo_id]
+ * Fetch a single demo with the full submitter metadata (name, socials), a playable
+ * link, the audio file's size and format, its score aggregate, the language of the
+ * artist's emails and the review history
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ demo_id: string }> }
+) {
+  try {
+    const session = await requireRole()
+    if (session instanceof NextResponse) {
+      return session
+    }
+
+    const { demo_id } = await params
+    const storage = getStorage()
+
+    // Check the cached status first; it may be stale, so fall back to the other folders
+    const cachedStatus = await getDemoStatusFromCache(demo_id)
+    const searchOrder: DemoState[] = isDemoState(cachedStatus)
+      ? [cachedStatus, ...DEMO_STATES.filter(state => state !== cachedStatus)]
+      : DEMO_STATES
+
+    let status: DemoState | null = null
+    let demoFiles: Awaited<ReturnType<typeof findDemoInFolder>> = null
+    for (const state of searchOrder) {
+      demoFiles = await findDemoInFolder(storage, STATUS_FOLDERS[state], demo_id)
+      if (demoFiles) {
+        status = state
+        break
+      }
+    }
+
+    if (!status || !demoFiles) {
+      return NextResponse.json({ error: 'Demo not found' }, { status: 404 })
+    }
+
+    const folderPath = STATUS_FOLDERS[status]
+    const [metadata, sharedLink, history, scores, localeOverride] = await Promise.all([
+      fetchDemoMetadata(folderPath, demoFiles.metadataFile.name),
+      storage.getPlayableLink(`${folderPath}/${demoFiles.mp3File.name}`),
+      getDemoHistory(demo_id),
+      getDemoScores(demo_id),
+      getDemoLocaleOverride(demo_id),
+    ])
+
+    if (!metadata) {
+      return NextResponse.json(
+        { error: 'Could not read demo metadata' },
+        { status: 502 }
+      )
+    }
+
+    const fileName = demoFiles.mp3File.name
+
+    return NextResponse.json({
+      demo: {
+        ...metadata,
+        demo_id,
+        status,
+        shared_link: sharedLink,
+        file: {
+          name: fileName,
+          size: demoFiles.mp3File.size ?? null,
+          format: fileName.split('.').pop()?.toLowerCase() || null,
+          modified_at: demoFiles.mp3File.modified_at ?? null,
+        },
+        score: summarizeScores(scores),
+        locale: metadata.locale || null,
+        email_locale: resolveDemoEmailLocale(localeOverride, metadata.locale),
+        email_locale_override: localeOverride,
+      },
+      history,
+    })
+  } catch (error) {
+    console.error('Error fetching demo:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch demo',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
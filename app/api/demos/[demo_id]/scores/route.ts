@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requirePermission, requireRole } from '@/lib/roles'
+import { DEMO_FEEDBACK_PERMISSIONS } from '@/lib/permissions'
+import { getActorName } from '@/lib/demo-actions'
+import { SCORE_CRITERIA, summarizeScores, validateScores, type ScoreCriterion } from '@/lib/demo-scoring'
+import { getDemoScores, setDemoScore } from '@/lib/services/demo-scores-service'
+
+/**
+ * GET /api/demos/[demo_id]/scores
+ * Fetch every reviewer's scores for a demo plus the aggregate
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ demo_id: string }> }
+) {
+  try {
+    const session = await requireRole()
+    if (session instanceof NextResponse) {
+      return session
+    }
+
+    const { demo_id } = await params
+    const scores = await getDemoScores(demo_id)
+
+    return NextResponse.json({
+      demo_id,
+      scores,
+      summary: summarizeScores(scores),
+    })
+  } catch (error) {
+    console.error('Error fetching demo scores:', error)
+    return NextResponse.json({ error: 'Failed to fetch scores' }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/demos/[demo_id]/scores
+ * Save the signed-in reviewer's scores (replaces their previous scores)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ demo_id: string }> }
+) {
+  try {
+    const session = await requirePermission(DEMO_FEEDBACK_PERMISSIONS)
+    if (session instanceof NextResponse) {
+      return session
+    }
+    const { userId } = session
+
+    const { demo_id } = await params
+    const body = await request.json()
+
+    const validationError = validateScores(body?.scores)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    // Only keep known criteria
+    const scores = Object.fromEntries(
+      SCORE_CRITERIA.map(({ key }) => [key, body.scores[key]])
+    ) as Record<ScoreCriterion, number>
+
+    const score = await setDemoScore(demo_id, userId, await getActorName(), scores)
+    const allScores = await getDemoScores(demo_id)
+
+    return NextResponse.json({
+      score,
+      summary: summarizeScores(allScores),
+    })
+  } catch (error) {
+    console.error('Error saving demo scores:', error)
+    return NextResponse.json({ error: 'Failed to save scores' }, { status: 500 })
+  }
+}
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireRole } from '@/lib/roles'
+import { MAX_BATCH_SIZE, performBatchDemoAction } from '@/lib/demo-actions'
+import { getRoleActions, type WorkflowRole } from '@/lib/demo-workflow'
+import { WORKFLOW_PERMISSIONS } from '@/lib/permissions'
+
+const WORKFLOW_ROLES: WorkflowRole[] = ['assistant', 'owner']
+
+/**
+ * POST /api/demos/batch-update
+ * Apply one workflow action to many demos
+ * Body: { role, action, demo_ids }
+ * Returns a result per demo (in request order) so partial failures are reported individually
+ */
+export async function POST(request: NextRequest) {
+  const startTime = Date.now()
+
+  try {
+    const session = await requireRole()
+    if (session instanceof NextResponse) {
+      return session
+    }
+    const { userId } = session
+
+    const body = await request.json()
+    const { role, action } = body
+
+    if (!WORKFLOW_ROLES.includes(role)) {
+      return NextResponse.json(
+        { error: `Invalid role. Must be one of: ${WORKFLOW_ROLES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    // Same rule as the single-demo action routes
+    const permission = WORKFLOW_PERMISSIONS[role as WorkflowRole]
+    if (!session.permissions.includes(permission)) {
+      return NextResponse.json(
+        { error: 'Forbidden', details: `Requires the ${permission} permission` },
+        { status: 403 }
+      )
+    }
+
+    const validActions: string[] = getRoleActions(role)
+    if (!action || !validActions.includes(action)) {
+      return NextResponse.json(
+        { error: `Invalid action. Must be one of: ${validActions.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    if (!Array.isArray(body.demo_ids) || body.demo_ids.some((id: unknown) => typeof id !== 'string' || !id)) {
+      return NextResponse.json(
+        { error: 'demo_ids must be a non-empty array of demo IDs' },
+        { status: 400 }
+      )
+    }
+
+    const demoIds: string[] = Array.from(new Set(body.demo_ids))
+    if (demoIds.length === 0) {
+      return NextResponse.json(
+        { error: 'demo_ids must be a non-empty array of demo IDs' },
+        { status: 400 }
+      )
+    }
+
+    if (demoIds.length > MAX_BATCH_SIZE) {
+      return NextResponse.json(
+        { error: `Too many demos. At most ${MAX_BATCH_SIZE} can be updated at once` },
+        { status: 400 }
+      )
+    }
+
+    const results = await performBatchDemoAction(userId, role, action, demoIds)
+    const succeeded = results.filter(result => result.success).length
+
+    console.log(`✅ Batch ${action} on ${demoIds.length} demo(s) completed in ${Date.now() - startTime}ms`)
+
+    return NextResponse.json({
+      action,
+      results,
+      succeeded,
+      failed: results.length - succeeded,
+    })
+  } catch (error) {
+    console.error(`❌ Batch action failed after ${Date.now() - startTime}ms:`, error)
+
+    return NextResponse.json(
+      {
+        error: 'Failed to perform batch action',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
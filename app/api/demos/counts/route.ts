@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireRole } from '@/lib/roles'
+import { loadDemos } from '@/lib/demo-index'
+import { countDemos, parseWorkflowRole } from '@/lib/demo-query'
+
+/**
+ * GET /api/demos/counts
+ * Number of demos in each workflow state, served from the demos cache
+ * Optional role (admin | owner | assistant) adds the count of demos that role can act on
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await requireRole()
+    if (session instanceof NextResponse) {
+      return session
+    }
+
+    const roleParam = request.nextUrl.searchParams.get('role')
+    const role = parseWorkflowRole(roleParam)
+    if (roleParam && !role) {
+      return NextResponse.json(
+        { error: 'Invalid role. Must be one of: admin, owner, assistant' },
+        { status: 400 }
+      )
+    }
+
+    const { demos, cached } = await loadDemos()
+
+    return NextResponse.json({
+      ...countDemos(demos, role || undefined),
+      cached,
+    })
+  } catch (error) {
+    console.error('Error fetching demo counts:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch demo counts',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
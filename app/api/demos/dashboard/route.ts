@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireRole } from '@/lib/roles'
+import { loadDemos } from '@/lib/demo-index'
+import { getLatestEmailsByDemo } from '@/lib/services/email-outbox-service'
+import { applyDemoQuery, countDemos, paginateDemos, parseDemoQuery, parseWorkflowRole } from '@/lib/demo-query'
+
+/**
+ * GET /api/demos/dashboard
+ * One round trip for the dashboard: the filtered demo page plus per-status counts
+ * Accepts the same query params as GET /api/demos, plus role (admin | owner | assistant)
+ * Counts always cover every demo, regardless of the filters
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await requireRole()
+    if (session instanceof NextResponse) {
+      return session
+    }
+
+    const searchParams = request.nextUrl.searchParams
+    const roleParam = searchParams.get('role')
+    const role = parseWorkflowRole(roleParam)
+    if (roleParam && !role) {
+      return NextResponse.json(
+        { error: 'Invalid role. Must be one of: admin, owner, assistant' },
+        { status: 400 }
+      )
+    }
+
+    const parsedQuery = parseDemoQuery(searchParams)
+    if ('error' in parsedQuery) {
+      return NextResponse.json({ error: parsedQuery.error }, { status: 400 })
+    }
+    const { query } = parsedQuery
+
+    const { demos, cached } = await loadDemos()
+    const { demos: pageDemos, pagination } = paginateDemos(applyDemoQuery(demos, query), query)
+    const latestEmails = await getLatestEmailsByDemo(pageDemos.map(demo => demo.demo_id))
+
+    return NextResponse.json({
+      // The email status on each card comes from the outbox, which is not part of the demo cache
+      demos: pageDemos.map(demo => ({ ...demo, last_email: latestEmails.get(demo.demo_id) || null })),
+      counts: countDemos(demos, role || undefined),
+      cached,
+      pagination,
+    })
+  } catch (error) {
+    console.error('Error fetching dashboard data:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch dashboard data',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
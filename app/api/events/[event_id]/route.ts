@@ -0,0 +1,150 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requirePermission, requireRole } from '@/lib/roles'
+import { StorageConflictError } from '@/lib/storage'
+import { eventsConflictResponse, parseEventInput, readEvents, writeEvents, type Event } from '@/lib/events'
+
+type RouteParams = { params: Promise<{ event_id: string }> }
+
+// Edits must name the revision they were made against, see GET /api/events
+const REV_REQUIRED_ERROR = 'rev is required, reload the events and try again'
+
+/**
+ * GET /api/events/[event_id] - Fetch a single event
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await requireRole()
+    if (session instanceof NextResponse) {
+      return session
+    }
+
+    const { event_id } = await params
+    const { events, rev } = await readEvents()
+
+    const event = events.find(e => e.event_id === event_id)
+    if (!event) {
+      return NextResponse.json({ error: 'Event not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ event, rev })
+  } catch (error) {
+    console.error('Error fetching event:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch event' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PUT /api/events/[event_id] - Update an existing event in events.json
+ * Body: the event fields plus the rev the client last loaded (required)
+ */
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await requirePermission('events:write')
+    if (session instanceof NextResponse) {
+      return session
+    }
+
+    const { event_id } = await params
+    const body = await request.json().catch(() => null)
+    const expectedRev = typeof body?.rev === 'string' ? body.rev : null
+    if (!expectedRev) {
+      return NextResponse.json({ error: REV_REQUIRED_ERROR }, { status: 400 })
+    }
+
+    const parsed = parseEventInput(body)
+    if ('error' in parsed) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      )
+    }
+
+    const { events, rev: currentRev } = await readEvents()
+
+    // Reject changes made against an older version of the list
+    if (expectedRev !== currentRev) {
+      return eventsConflictResponse()
+    }
+
+    if (!events.some(event => event.event_id === event_id)) {
+      return NextResponse.json(
+        { error: 'Event not found' },
+        { status: 404 }
+      )
+    }
+
+    const updatedEvent: Event = {
+      event_id,
+      ...parsed.event,
+    }
+
+    // Save updated events.json, only if nobody changed it since it was read
+    const rev = await writeEvents(
+      events.map(event => (event.event_id === event_id ? updatedEvent : event)),
+      currentRev
+    )
+
+    return NextResponse.json({ success: true, event: updatedEvent, rev })
+  } catch (error) {
+    if (error instanceof StorageConflictError) {
+      return eventsConflictResponse()
+    }
+    console.error('Error updating event:', error)
+    return NextResponse.json(
+      { error: 'Failed to update event' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/events/[event_id]?rev=... - Delete an event from events.json (rev required)
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await requirePermission('events:write')
+    if (session instanceof NextResponse) {
+      return session
+    }
+
+    const { event_id } = await params
+    const expectedRev = request.nextUrl.searchParams.get('rev')
+    if (!expectedRev) {
+      return NextResponse.json({ error: REV_REQUIRED_ERROR }, { status: 400 })
+    }
+
+    const { events, rev: currentRev } = await readEvents()
+
+    // Reject changes made against an older version of the list
+    if (expectedRev !== currentRev) {
+      return eventsConflictResponse()
+    }
+
+    if (!events.some(event => event.event_id === event_id)) {
+      return NextResponse.json(
+        { error: 'Event not found' },
+        { status: 404 }
+      )
+    }
+
+    // Save updated events.json, only if nobody changed it since it was read
+    const rev = await writeEvents(
+      events.filter(event => event.event_id !== event_id),
+      currentRev
+    )
+
+    return NextResponse.json({ success: true, rev })
+  } catch (error) {
+    if (error instanceof StorageConflictError) {
+      return eventsConflictResponse()
+    }
+    console.error('Error deleting event:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete event' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { auth } from '@clerk/nextjs/server'
+import { requirePermission, requireRole } from '@/lib/roles'
 import {
   getDemoSubmissionEnabled,
   setDemoSubmissionEnabled,
@@ -7,9 +7,9 @@ import {
 
 export async function GET() {
   try {
-    const { userId } = await auth()
-    if (!userId) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    const session = await requireRole()
+    if (session instanceof NextResponse) {
+      return session
     }
 
     const enabled = await getDemoSubmissionEnabled()
@@ -22,9 +22,9 @@ export async function GET() {
 
 export async function PATCH(request: NextRequest) {
   try {
-    const { userId } = await auth()
-    if (!userId) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    const session = await requirePermission('settings:write')
+    if (session instanceof NextResponse) {
+      return session
     }
 
     const body = await request.json()
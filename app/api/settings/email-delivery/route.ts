@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requirePermission, requireRole } from '@/lib/roles'
+import {
+  getEmailDeliverySettings,
+  parseEmailDeliverySettings,
+  setEmailDeliverySettings,
+} from '@/lib/services/settings-service'
+
+export async function GET() {
+  try {
+    const session = await requireRole()
+    if (session instanceof NextResponse) {
+      return session
+    }
+
+    const settings = await getEmailDeliverySettings()
+    return NextResponse.json({ settings })
+  } catch (error) {
+    console.error('Error fetching email delivery settings:', error)
+    return NextResponse.json({ error: 'Failed to fetch setting' }, { status: 500 })
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  try {
+    const session = await requirePermission('settings:write')
+    if (session instanceof NextResponse) {
+      return session
+    }
+
+    const body = await request.json().catch(() => null)
+    const parsed = parseEmailDeliverySettings(body)
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 })
+    }
+
+    const settings = await setEmailDeliverySettings(parsed.settings)
+    return NextResponse.json({ settings })
+  } catch (error) {
+    console.error('Error updating email delivery settings:', error)
+    return NextResponse.json({ error: 'Failed to update setting' }, { status: 500 })
+  }
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requirePermission } from '@/lib/roles'
+import { getActorName } from '@/lib/demo-actions'
+import {
+  getEnglishOverrideFields,
+  isEmailTemplateType,
+  parseEmailCopyOverrides,
+  parseEmailLocaleParam,
+  resetEmailTemplateOverride,
+  saveEmailTemplateOverride,
+} from '@/lib/services/email-template-service'
+
+type RouteParams = { params: Promise<{ type: string }> }
+
+const INVALID_TYPE_ERROR = 'Invalid email type. Must be one of: liked, rejected, approved'
+
+/**
+ * PUT /api/settings/email-templates/[type]?locale=de
+ * Replace the owner's changes to an email type in a language (English without ?locale);
+ * fields equal to the default, or for other languages to the English edit, are not stored
+ */
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await requirePermission('settings:write')
+    if (session instanceof NextResponse) {
+      return session
+    }
+
+    const { type } = await params
+    if (!isEmailTemplateType(type)) {
+      return NextResponse.json({ error: INVALID_TYPE_ERROR }, { status: 400 })
+    }
+
+    const localeParam = parseEmailLocaleParam(request.nextUrl.searchParams.get('locale'))
+    if ('error' in localeParam) {
+      return NextResponse.json({ error: localeParam.error }, { status: 400 })
+    }
+
+    const body = await request.json().catch(() => null)
+    const englishOverrides = await getEnglishOverrideFields(type, localeParam.locale)
+    const parsed = parseEmailCopyOverrides(type, body?.fields, localeParam.locale, englishOverrides)
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 })
+    }
+
+    const template = await saveEmailTemplateOverride(type, parsed.fields, await getActorName(), localeParam.locale)
+    return NextResponse.json({ template })
+  } catch (error) {
+    console.error('Error saving email template:', error)
+    return NextResponse.json({ error: 'Failed to save email template' }, { status: 500 })
+  }
+}
+
+/**
+ * DELETE /api/settings/email-templates/[type]?locale=de
+ * Go back to the default copy of the language
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await requirePermission('settings:write')
+    if (session instanceof NextResponse) {
+      return session
+    }
+
+    const { type } = await params
+    if (!isEmailTemplateType(type)) {
+      return NextResponse.json({ error: INVALID_TYPE_ERROR }, { status: 400 })
+    }
+
+    const localeParam = parseEmailLocaleParam(request.nextUrl.searchParams.get('locale'))
+    if ('error' in localeParam) {
+      return NextResponse.json({ error: localeParam.error }, { status: 400 })
+    }
+
+    await resetEmailTemplateOverride(type, localeParam.locale)
+    return NextResponse.json({ template: null })
+  } catch (error) {
+    console.error('Error resetting email template:', error)
+    return NextResponse.json({ error: 'Failed to reset email template' }, { status: 500 })
+  }
+}
@@ -0,0 +1,66 @@
+import { currentUser } from '@clerk/nextjs/server'
+import { NextRequest, NextResponse } from 'next/server'
+import { requirePermission } from '@/lib/roles'
+import { getEmailService } from '@/lib/services/email'
+import {
+  getEnglishOverrideFields,
+  isEmailTemplateType,
+  parseEmailCopyOverrides,
+  parseEmailLocaleParam,
+} from '@/lib/services/email-template-service'
+import { withEnglishOverrides } from '@/lib/services/email-templates'
+
+/**
+ * POST /api/settings/email-templates/[type]/test?locale=de
+ * Email the template in a language, with the unsaved changes in the body, to the signed-in user
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ type: string }> }
+) {
+  try {
+    const session = await requirePermission('settings:write')
+    if (session instanceof NextResponse) {
+      return session
+    }
+
+    const { type } = await params
+    if (!isEmailTemplateType(type)) {
+      return NextResponse.json(
+        { error: 'Invalid email type. Must be one of: liked, rejected, approved' },
+        { status: 400 }
+      )
+    }
+
+    const localeParam = parseEmailLocaleParam(request.nextUrl.searchParams.get('locale'))
+    if ('error' in localeParam) {
+      return NextResponse.json({ error: localeParam.error }, { status: 400 })
+    }
+
+    const body = await request.json().catch(() => null)
+    const englishOverrides = await getEnglishOverrideFields(type, localeParam.locale)
+    const parsed = parseEmailCopyOverrides(type, body?.fields ?? {}, localeParam.locale, englishOverrides)
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 })
+    }
+
+    const user = await currentUser()
+    const to = user?.primaryEmailAddress?.emailAddress || user?.emailAddresses[0]?.emailAddress
+    if (!to) {
+      return NextResponse.json({ error: 'Your account has no email address' }, { status: 400 })
+    }
+
+    const overrides = withEnglishOverrides(localeParam.locale, parsed.fields, englishOverrides)
+    const sent = await getEmailService().sendTemplateTest(type, to, overrides, localeParam.locale)
+    return NextResponse.json({ sent_to: to, message_id: sent.messageId })
+  } catch (error) {
+    console.error('Error sending test email:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to send test email',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
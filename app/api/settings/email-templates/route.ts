@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server'
+import { requireRole } from '@/lib/roles'
+import { getEmailTemplateOverrides } from '@/lib/services/email-template-service'
+
+/**
+ * GET /api/settings/email-templates
+ * The owner's changes to each artist email by language, e.g. templates.de.liked;
+ * fields not listed use the defaults
+ */
+export async function GET() {
+  try {
+    const session = await requireRole()
+    if (session instanceof NextResponse) {
+      return session
+    }
+
+    const templates = await getEmailTemplateOverrides()
+    return NextResponse.json({ templates })
+  } catch (error) {
+    console.error('Error fetching email templates:', error)
+    return NextResponse.json({ error: 'Failed to fetch email templates' }, { status: 500 })
+  }
+}
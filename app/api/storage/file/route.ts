@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireRole } from '@/lib/roles'
+import { createReadStream, promises as fs } from 'fs'
+import { Readable } from 'stream'
+import { LocalStorage, getStorage } from '@/lib/storage'
+
+const AUDIO_CONTENT_TYPES: Record<string, string> = {
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+}
+
+/**
+ * GET /api/storage/file?path=/demos/submitted/track.mp3
+ * Stream a demo audio file from local storage (the playable link of STORAGE_PROVIDER=local)
+ * Supports Range requests so the audio player can seek
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await requireRole()
+    if (session instanceof NextResponse) {
+      return session
+    }
+
+    const storage = getStorage()
+    if (!(storage instanceof LocalStorage)) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 })
+    }
+
+    const filePath = request.nextUrl.searchParams.get('path') || ''
+    const contentType = AUDIO_CONTENT_TYPES[filePath.split('.').pop()?.toLowerCase() || '']
+    if (!contentType) {
+      return NextResponse.json({ error: 'Only audio files can be streamed' }, { status: 400 })
+    }
+
+    const absolutePath = storage.resolvePath(filePath)
+    const stats = await fs.stat(absolutePath).catch(() => null)
+    if (!stats?.isFile()) {
+      return NextResponse.json({ error: 'File not found' }, { status: 404 })
+    }
+
+    const headers: Record<string, string> = {
+      'Content-Type': contentType,
+      'Accept-Ranges': 'bytes',
+      'Cache-Control': 'private, no-cache',
+    }
+
+    // bytes=start-end, either side may be omitted
+    const range = request.headers.get('range')?.match(/^bytes=(\d*)-(\d*)$/)
+    if (range && (range[1] || range[2])) {
+      const start = range[1] ? parseInt(range[1], 10) : Math.max(0, stats.size - parseInt(range[2], 10))
+      const end = range[1] && range[2] ? Math.min(parseInt(range[2], 10), stats.size - 1) : stats.size - 1
+
+      if (start > end || start >= stats.size) {
+        return new NextResponse(null, {
+          status: 416,
+          headers: { 'Content-Range': `bytes */${stats.size}` },
+        })
+      }
+
+      const stream = Readable.toWeb(createReadStream(absolutePath, { start, end })) as ReadableStream
+      return new NextResponse(stream, {
+        status: 206,
+        headers: {
+          ...headers,
+          'Content-Range': `bytes ${start}-${end}/${stats.size}`,
+          'Content-Length': `${end - start + 1}`,
+        },
+      })
+    }
+
+    const stream = Readable.toWeb(createReadStream(absolutePath)) as ReadableStream
+    return new NextResponse(stream, {
+      headers: { ...headers, 'Content-Length': `${stats.size}` },
+    })
+  } catch (error) {
+    console.error('Error streaming local file:', error)
+    return NextResponse.json(
+      { error: 'Failed to read file' },
+      { status: 500 }
+    )
+  }
+}
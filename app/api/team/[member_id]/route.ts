@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requirePermission, setUserRoles } from '@/lib/roles'
+import { getActorName } from '@/lib/demo-actions'
+import { addTeamMember, getTeamMember, removeTeamMember, updateTeamMember } from '@/lib/services/team-service'
+import { getClerkOnlyMember, parseTeamRoles, revokeClerkInvitation, toTeamMemberViews } from '@/lib/team'
+
+type RouteParams = { params: Promise<{ member_id: string }> }
+
+/**
+ * PATCH /api/team/[member_id] - Change a member's roles
+ * Body: { roles }
+ * A user whose roles were only in Clerk metadata is added to the allowlist with the new roles
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await requirePermission('team:manage')
+    if (session instanceof NextResponse) {
+      return session
+    }
+
+    const { member_id } = await params
+    const body = await request.json()
+
+    const parsed = parseTeamRoles(body?.roles)
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 })
+    }
+
+    const allowlisted = await getTeamMember(member_id)
+    const member = allowlisted || await getClerkOnlyMember(member_id)
+    if (!member) {
+      return NextResponse.json({ error: 'Team member not found' }, { status: 404 })
+    }
+
+    // Owners cannot lock themselves out
+    if (member.user_id === session.userId && !parsed.roles.includes('owner')) {
+      return NextResponse.json(
+        { error: 'You cannot remove your own owner role' },
+        { status: 400 }
+      )
+    }
+
+    const updated = allowlisted
+      ? await updateTeamMember(member_id, { roles: parsed.roles })
+      : await addTeamMember({
+          email: member.email,
+          roles: parsed.roles,
+          status: 'active',
+          user_id: member.user_id,
+          invitation_id: null,
+          invited_by: await getActorName(),
+          joined_at: member.joined_at,
+        })
+    if (member.user_id) {
+      await setUserRoles(member.user_id, parsed.roles)
+    }
+
+    const [view] = await toTeamMemberViews([updated!], session.userId)
+    return NextResponse.json({ success: true, member: view })
+  } catch (error) {
+    console.error('Error updating team member:', error)
+    return NextResponse.json(
+      { error: 'Failed to update team member' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/team/[member_id] - Revoke access (and a pending invitation)
+ * For a user whose roles were only in Clerk metadata, clears those roles
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await requirePermission('team:manage')
+    if (session instanceof NextResponse) {
+      return session
+    }
+
+    const { member_id } = await params
+
+    const allowlisted = await getTeamMember(member_id)
+    const member = allowlisted || await getClerkOnlyMember(member_id)
+    if (!member) {
+      return NextResponse.json({ error: 'Team member not found' }, { status: 404 })
+    }
+
+    if (member.user_id === session.userId) {
+      return NextResponse.json(
+        { error: 'You cannot revoke your own access' },
+        { status: 400 }
+      )
+    }
+
+    if (allowlisted) {
+      await removeTeamMember(member_id)
+    }
+    if (member.invitation_id) {
+      await revokeClerkInvitation(member.invitation_id)
+    }
+    if (member.user_id) {
+      await setUserRoles(member.user_id, [])
+    }
+
+    console.log(`✓ Revoked dashboard access for ${member.email}`)
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error revoking team member:', error)
+    return NextResponse.json(
+      { error: 'Failed to revoke team member' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requirePermission, setUserRoles } from '@/lib/roles'
+import { getActorName } from '@/lib/demo-actions'
+import { addTeamMember, findTeamMemberByEmail, getTeamMembers } from '@/lib/services/team-service'
+import {
+  findClerkUserId,
+  getClerkOnlyMembers,
+  parseTeamEmail,
+  parseTeamRoles,
+  sendClerkInvitation,
+  toTeamMemberViews,
+} from '@/lib/team'
+
+/**
+ * GET /api/team - Everyone on the team allowlist with their roles and last activity,
+ * followed by Clerk users whose roles were set in their Clerk metadata only
+ */
+export async function GET() {
+  try {
+    const session = await requirePermission('team:manage')
+    if (session instanceof NextResponse) {
+      return session
+    }
+
+    const allowlist = await getTeamMembers()
+    const members = await toTeamMemberViews([...allowlist, ...(await getClerkOnlyMembers(allowlist))], session.userId)
+    return NextResponse.json({ members })
+  } catch (error) {
+    console.error('Error fetching team:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch team' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/team - Invite an email address with the given roles
+ * Body: { email, roles }
+ * Addresses that already have a Clerk account get access right away, others get an invitation email
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await requirePermission('team:manage')
+    if (session instanceof NextResponse) {
+      return session
+    }
+
+    const body = await request.json()
+
+    const parsedEmail = parseTeamEmail(body?.email)
+    if ('error' in parsedEmail) {
+      return NextResponse.json({ error: parsedEmail.error }, { status: 400 })
+    }
+    const parsedRoles = parseTeamRoles(body?.roles)
+    if ('error' in parsedRoles) {
+      return NextResponse.json({ error: parsedRoles.error }, { status: 400 })
+    }
+
+    const { email } = parsedEmail
+    const { roles } = parsedRoles
+
+    if (await findTeamMemberByEmail([email])) {
+      return NextResponse.json(
+        { error: 'This email address is already on the team' },
+        { status: 409 }
+      )
+    }
+
+    const invitedBy = await getActorName()
+    const userId = await findClerkUserId(email)
+
+    if (userId) {
+      await setUserRoles(userId, roles)
+      const member = await addTeamMember({
+        email,
+        roles,
+        status: 'active',
+        user_id: userId,
+        invitation_id: null,
+        invited_by: invitedBy,
+        joined_at: new Date().toISOString(),
+      })
+      const [view] = await toTeamMemberViews([member], session.userId)
+      return NextResponse.json({ success: true, member: view, invitation_sent: false }, { status: 201 })
+    }
+
+    const invitationId = await sendClerkInvitation(email, request.nextUrl.origin)
+    const member = await addTeamMember({
+      email,
+      roles,
+      status: 'invited',
+      user_id: null,
+      invitation_id: invitationId,
+      invited_by: invitedBy,
+      joined_at: null,
+    })
+    const [view] = await toTeamMemberViews([member], session.userId)
+
+    return NextResponse.json(
+      { success: true, member: view, invitation_sent: invitationId !== null },
+      { status: 201 }
+    )
+  } catch (error) {
+    console.error('Error inviting team member:', error)
+    return NextResponse.json(
+      { error: 'Failed to invite team member' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,29 +1,75 @@
 import { currentUser } from '@clerk/nextjs/server'
-import { NextResponse } from 'next/server'
+import { NextRequest, NextResponse } from 'next/server'
+import { getUserRoles, getVerifiedEmails, isOwnerEmail, normalizeRoles } from '@/lib/roles'
+import { findPendingInvitation, findTeamMemberByEmail, normalizeEmail } from '@/lib/services/team-service'
 
 /**
  * GET /api/validate-email
- * Check if the current user is authenticated
- * Any authenticated Clerk user is authorized to access the dashboard
+ * Check if the current user may access the dashboard
+ * Signing in is not enough: the user needs a role on the team (see /dashboard/team)
+ * invited is true when one of their verified addresses has an invitation left to accept
  */
 export async function GET() {
   try {
     const user = await currentUser()
     
     if (!user) {
-      return NextResponse.json({ authorized: false, reason: 'Not authenticated' }, { status: 401 })
+      return NextResponse.json({ authorized: false, isAllowed: false, reason: 'Not authenticated' }, { status: 401 })
     }
 
     const userEmail = user.emailAddresses[0]?.emailAddress?.toLowerCase()
-    
-    // Any authenticated user is authorized
+    const roles = await getUserRoles(user.id)
+    const authorized = roles.length > 0
+    const invitation = authorized ? null : await findPendingInvitation(getVerifiedEmails(user))
+
     return NextResponse.json({
-      authorized: true,
+      authorized,
+      isAllowed: authorized,
+      role: roles[0],
+      roles,
       email: userEmail,
-      reason: 'Authenticated user'
+      invited: invitation !== null,
+      reason: authorized ? 'Team member' : invitation ? 'Invitation pending' : 'Not on the team'
     })
     
   } catch (error) {
-    return NextResponse.json({ authorized: false, reason: 'Validation error' }, { status: 500 })
+    return NextResponse.json({ authorized: false, isAllowed: false, reason: 'Validation error' }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/validate-email
+ * Check an email address against the team allowlist
+ * Body: { email }. Only owners can check addresses other than their own
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await currentUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    if (typeof body?.email !== 'string' || !body.email.trim()) {
+      return NextResponse.json({ error: 'email is required' }, { status: 400 })
+    }
+
+    const email = normalizeEmail(body.email)
+    const isOwnAddress = getVerifiedEmails(user).includes(email)
+    if (!isOwnAddress && !(await getUserRoles(user.id)).includes('owner')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const member = await findTeamMemberByEmail([email])
+    const roles = normalizeRoles([...(member?.roles || []), ...(isOwnerEmail(email) ? ['owner'] : [])])
+
+    return NextResponse.json({
+      isAllowed: roles.length > 0,
+      role: roles[0],
+      roles,
+    })
+  } catch (error) {
+    console.error('Error validating email:', error)
+    return NextResponse.json({ error: 'Validation error' }, { status: 500 })
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse, after } from 'next/server'
+import { verifyDropboxWebhookSignature } from '@/lib/dropbox'
+import { clearDropboxWebhookReceived, markDropboxWebhookReceived, syncDemosIndex } from '@/lib/demo-index'
+
+/**
+ * GET /api/webhooks/dropbox
+ * Dropbox verification handshake: echo the challenge back as plain text
+ */
+export async function GET(request: NextRequest) {
+  const challenge = request.nextUrl.searchParams.get('challenge')
+
+  if (!challenge) {
+    return NextResponse.json({ error: 'Missing challenge' }, { status: 400 })
+  }
+
+  return new NextResponse(challenge, {
+    headers: {
+      'Content-Type': 'text/plain',
+      'X-Content-Type-Options': 'nosniff',
+    },
+  })
+}
+
+/**
+ * POST /api/webhooks/dropbox
+ * Change notification from Dropbox, signed with the app secret (X-Dropbox-Signature)
+ * Responds immediately and applies the Dropbox deltas to the demo index afterwards;
+ * the notification itself carries no file details, only that something changed
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // The signature covers the exact bytes sent, so read the raw body
+    const body = await request.text()
+    const signature = request.headers.get('x-dropbox-signature')
+
+    if (!process.env.DROPBOX_APP_SECRET) {
+      console.error('DROPBOX_APP_SECRET is not configured, cannot verify webhook')
+      return NextResponse.json({ error: 'Webhook not configured' }, { status: 500 })
+    }
+
+    if (!verifyDropboxWebhookSignature(body, signature)) {
+      console.warn('⚠️  Rejected Dropbox webhook with invalid signature')
+      return NextResponse.json({ error: 'Invalid signature' }, { status: 403 })
+    }
+
+    // Dropbox expects a response within 10 seconds, so sync after responding
+    after(async () => {
+      const syncStart = Date.now()
+      try {
+        const { cache, mode } = await syncDemosIndex()
+        // Page loads only skip Dropbox once the changes are actually in the index
+        await markDropboxWebhookReceived()
+        console.log(`✓ Dropbox webhook sync (${mode}) completed in ${Date.now() - syncStart}ms, ${cache.demos.length} demos indexed`)
+      } catch (error) {
+        console.error('Dropbox webhook sync failed:', error)
+        await clearDropboxWebhookReceived().catch(clearError =>
+          console.error('Failed to clear the Dropbox webhook timestamp:', clearError)
+        )
+      }
+    })
+
+    return NextResponse.json({ received: true })
+  } catch (error) {
+    console.error('Error handling Dropbox webhook:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to handle webhook',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
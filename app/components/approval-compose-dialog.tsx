@@ -0,0 +1,202 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { CheckCircle, Eye, EyeOff, Loader2 } from "lucide-react"
+import {
+  DEFAULT_EMAIL_LOCALE,
+  EMAIL_LOCALE_NAMES,
+  renderEmailTemplate,
+  withEnglishOverrides,
+  type EmailCopyOverrides,
+  type EmailLocale,
+} from "@/lib/services/email-templates"
+import type { ApprovalCompose } from "@/lib/services"
+
+interface ApprovalComposeDialogProps {
+  demo: { demo_id: string; artist_name: string; track_title: string; email_locale?: EmailLocale } | null
+  onClose: () => void
+  onApprove: (compose: ApprovalCompose) => Promise<void>
+}
+
+const EMPTY_COMPOSE: ApprovalCompose = {
+  personal_message: "",
+  reply_to: "",
+  release_window: "",
+  contact_person: "",
+}
+
+/**
+ * Compose step when the owner approves a demo
+ * Everything is optional: the personal message and next steps are merged into the approval email
+ */
+export function ApprovalComposeDialog({ demo, onClose, onApprove }: ApprovalComposeDialogProps) {
+  const [compose, setCompose] = useState<ApprovalCompose>(EMPTY_COMPOSE)
+  const [templateOverrides, setTemplateOverrides] = useState<EmailCopyOverrides | undefined>(undefined)
+  const [showPreview, setShowPreview] = useState(false)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const demoId = demo?.demo_id
+
+  // Start from an empty form for every demo
+  useEffect(() => {
+    setCompose(EMPTY_COMPOSE)
+    setShowPreview(false)
+    setError(null)
+  }, [demoId])
+
+  const locale = demo?.email_locale || DEFAULT_EMAIL_LOCALE
+
+  // Preview in the artist's language with the owner's edits to the approval template
+  // (their English edits for the fields they did not change in that language)
+  useEffect(() => {
+    if (!demoId) return
+    fetch("/api/settings/email-templates")
+      .then(response => (response.ok ? response.json() : { templates: {} }))
+      .then(data => setTemplateOverrides(withEnglishOverrides(
+        locale,
+        data.templates?.[locale]?.approved?.fields,
+        data.templates?.[DEFAULT_EMAIL_LOCALE]?.approved?.fields
+      )))
+      .catch(fetchError => console.error("Failed to load email templates:", fetchError))
+  }, [demoId, locale])
+
+  const preview = useMemo(
+    () => demo
+      ? renderEmailTemplate("approved", demo.artist_name, demo.track_title, demo.demo_id, templateOverrides, compose, locale)
+      : null,
+    [demo, templateOverrides, compose, locale]
+  )
+
+  const updateField = (key: keyof ApprovalCompose, value: string) => {
+    setCompose(prev => ({ ...prev, [key]: value }))
+  }
+
+  const handleApprove = async () => {
+    try {
+      setIsSubmitting(true)
+      setError(null)
+      await onApprove(compose)
+    } catch (approveError) {
+      setError(approveError instanceof Error ? approveError.message : "Failed to approve the demo")
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={!!demo} onOpenChange={(open) => !open && !isSubmitting && onClose()}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <div className="flex items-center gap-3 mb-2">
+            <div className="p-2 rounded-full bg-gray-50 text-emerald-600">
+              <CheckCircle className="w-6 h-6" />
+            </div>
+            <DialogTitle className="text-xl">Approve Demo</DialogTitle>
+          </div>
+          <DialogDescription className="text-left text-base">
+            &quot;{demo?.track_title}&quot; by {demo?.artist_name} will be approved and the artist emailed.
+            Add a personal note or next steps if you like; everything here is optional.
+            The email is sent in {EMAIL_LOCALE_NAMES[locale]}, so write your note in that language.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="personal_message">Personal message</Label>
+            <textarea
+              id="personal_message"
+              value={compose.personal_message || ""}
+              onChange={(e) => updateField("personal_message", e.target.value)}
+              placeholder="A few words from you, shown near the top of the email"
+              disabled={isSubmitting}
+              className="w-full min-h-[100px] rounded-md border border-input bg-background px-3 py-2 text-sm"
+            />
+          </div>
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="release_window">Release window</Label>
+              <Input
+                id="release_window"
+                value={compose.release_window || ""}
+                onChange={(e) => updateField("release_window", e.target.value)}
+                placeholder="e.g. Spring 2027"
+                disabled={isSubmitting}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="contact_person">Contact person</Label>
+              <Input
+                id="contact_person"
+                value={compose.contact_person || ""}
+                onChange={(e) => updateField("contact_person", e.target.value)}
+                placeholder="e.g. Sam (A&R)"
+                disabled={isSubmitting}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="reply_to">Reply-to address</Label>
+            <Input
+              id="reply_to"
+              type="email"
+              value={compose.reply_to || ""}
+              onChange={(e) => updateField("reply_to", e.target.value)}
+              placeholder="Where the artist's reply should go (defaults to the demos inbox)"
+              disabled={isSubmitting}
+            />
+          </div>
+
+          <Button variant="ghost" size="sm" className="text-muted-foreground" onClick={() => setShowPreview(prev => !prev)}>
+            {showPreview ? <EyeOff className="w-4 h-4 mr-1" /> : <Eye className="w-4 h-4 mr-1" />}
+            {showPreview ? "Hide preview" : "Preview email"}
+          </Button>
+          {showPreview && preview && (
+            <div className="space-y-2">
+              <p className="text-sm">
+                <span className="text-muted-foreground">Subject:</span>{" "}
+                <span className="font-medium text-foreground">{preview.subject}</span>
+              </p>
+              {/* Sandboxed so the email's markup and styles cannot affect the dashboard */}
+              <iframe
+                title="Approval email preview"
+                sandbox=""
+                srcDoc={preview.htmlBody}
+                className="w-full h-[400px] rounded-md border bg-white"
+              />
+            </div>
+          )}
+
+          {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={onClose} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button className="bg-emerald-600 hover:bg-emerald-700 text-white" onClick={handleApprove} disabled={isSubmitting}>
+            {isSubmitting ? (
+              <>
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                Approving...
+              </>
+            ) : (
+              "Approve and email artist"
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
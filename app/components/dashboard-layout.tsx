@@ -1,18 +1,29 @@
 "use client"
 
+import { useEffect, useState } from "react"
 import { Sidebar, type NavItem } from "@/components/ui/sidebar"
 import { ThemeToggle } from "@/components/ui/theme-toggle"
 import { RoleSwitcher } from "@/components/ui/role-switcher"
 import { useRole } from "@/lib/providers/role-provider"
 import { UserButton } from "@clerk/nextjs"
-import { LayoutDashboard, Settings, Calendar, Users } from "lucide-react"
+import { LayoutDashboard, Settings, Calendar, Users, UserCog } from "lucide-react"
+import { demoService } from "@/lib/services"
 
 interface DashboardLayoutProps {
   children: React.ReactNode
 }
 
 export function DashboardLayout({ children }: DashboardLayoutProps) {
-  const { currentRole, roleDisplayName } = useRole()
+  const { currentRole, roleDisplayName, isHydrated, can } = useRole()
+  const [actionableCount, setActionableCount] = useState<number | null>(null)
+
+  // Number of demos waiting on the current role, shown as a badge on the Dashboard link
+  useEffect(() => {
+    if (!isHydrated) return
+    demoService.getDemoCounts(currentRole)
+      .then(response => setActionableCount(response.data.actionable ?? null))
+      .catch(error => console.error("Failed to fetch demo counts:", error))
+  }, [currentRole, isHydrated])
   
   // Define navigation items - using /dashboard as base path now
   const navItems: NavItem[] = [
@@ -20,6 +31,7 @@ export function DashboardLayout({ children }: DashboardLayoutProps) {
       title: "Dashboard",
       href: `/dashboard`,
       icon: LayoutDashboard,
+      badge: actionableCount || undefined,
     },
     {
       title: "Events",
@@ -35,6 +47,13 @@ export function DashboardLayout({ children }: DashboardLayoutProps) {
 
   // Bottom navigation items (settings, logout, etc.)
   const bottomItems: NavItem[] = [
+    ...(can("team:manage")
+      ? [{
+          title: "Team",
+          href: `/dashboard/team`,
+          icon: UserCog,
+        }]
+      : []),
     {
       title: "Settings",
       href: `/dashboard/settings`,
@@ -42,7 +61,7 @@ export function DashboardLayout({ children }: DashboardLayoutProps) {
     },
   ]
 
-  const appName = currentRole === "admin" ? "Label Owner Dashboard" : "Assistant Dashboard"
+  const appName = `${roleDisplayName} Dashboard`
 
   return (
     <div className="min-h-screen bg-background flex">
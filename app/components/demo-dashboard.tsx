@@ -1,15 +1,25 @@
 "use client"
 
 import { useState, useEffect, useRef } from "react"
+import Link from "next/link"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { ConfirmationDialog } from "@/components/ui/confirmation-dialog"
-import { CalendarDays, ExternalLink, Music, ThumbsDown, ThumbsUp, User, CheckCircle, XCircle, Loader2 } from 'lucide-react'
-import { demoService, type Demo, type DemoStatus, type DemosApiResponse, apiUtils } from '@/lib/services'
+import { Input } from "@/components/ui/input"
+import { DemoNotesPanel } from "./demo-notes-panel"
+import { DemoScorePanel } from "./demo-score-panel"
+import { DemoHistoryTimeline } from "./demo-history-timeline"
+import { DemoEmailStatus } from "./demo-email-panel"
+import { ApprovalComposeDialog } from "./approval-compose-dialog"
+import type { DemoScoreSummary } from '@/lib/demo-scoring'
+import { CalendarDays, ExternalLink, Music, ThumbsDown, ThumbsUp, User, CheckCircle, XCircle, Loader2, History } from 'lucide-react'
+import { demoService, type Demo, type DemoStatus, type DemoHistoryEntry, type DemoEmail, type ApprovalCompose, type DashboardData, type DemoCounts, apiUtils } from '@/lib/services'
 import { useApi } from '@/lib/hooks/useApi'
 import { useRole, type UserRole } from '@/lib/providers/role-provider'
+import { DEMO_STATES, DEMO_WORKFLOW, getAllowedActions, getAllowedTransitions, type DemoAction, type WorkflowRole } from '@/lib/demo-workflow'
+import { WORKFLOW_PERMISSIONS } from '@/lib/permissions'
 
 interface DemoDashboardProps {
   initialData?: any; // Make this optional since we'll fetch real data
@@ -27,11 +37,48 @@ const statusConfig = {
   rejected_by_admin: { label: "Rejected by Admin", color: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300", icon: XCircle },
 }
 
+// Button styling per workflow action; which buttons show is decided by the workflow definition
+const actionButtonConfig: Record<DemoAction, { icon: typeof Music; variant: "default" | "outline"; className: string }> = {
+  like: {
+    icon: ThumbsUp,
+    variant: "outline",
+    className: "text-green-600 dark:text-green-400 border-green-600 dark:border-green-400 hover:bg-green-50 dark:hover:bg-green-900/20 bg-transparent disabled:opacity-50",
+  },
+  approve: {
+    icon: CheckCircle,
+    variant: "default",
+    className: "bg-emerald-600 hover:bg-emerald-700 disabled:opacity-50",
+  },
+  reject: {
+    icon: ThumbsDown,
+    variant: "outline",
+    className: "text-red-600 dark:text-red-400 border-red-600 dark:border-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 bg-transparent disabled:opacity-50",
+  },
+  undo_reject: {
+    icon: ThumbsUp,
+    variant: "outline",
+    className: "text-blue-600 dark:text-blue-400 border-blue-600 dark:border-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 bg-transparent disabled:opacity-50",
+  },
+}
+
+// The dashboard lists every matching demo on one page
+const MAX_DEMOS_PER_PAGE = 500
+
 export default function DemoDashboard({ status }: DemoDashboardProps) {
   const [demos, setDemos] = useState<Demo[]>([])
-  const [allDemos, setAllDemos] = useState<Demo[]>([]) // Store all demos for accurate counts
-  const { currentRole: currentUser } = useRole()
+  const [counts, setCounts] = useState<DemoCounts | null>(null) // Per-status counts across all demos
+  const { currentRole: currentUser, isHydrated, can } = useRole()
+  // Viewers, and views without the matching permission, browse demos without acting on them
+  const viewRole: WorkflowRole | null =
+    currentUser === "admin" ? "owner" : currentUser === "assistant" ? "assistant" : null
+  const workflowRole = viewRole && can(WORKFLOW_PERMISSIONS[viewRole]) ? viewRole : null
   const [statusFilter, setStatusFilter] = useState<string>(status)
+  const [sortBy, setSortBy] = useState<"newest" | "oldest" | "score">("newest")
+  const [minScore, setMinScore] = useState<string>("0")
+  const [searchInput, setSearchInput] = useState("")
+  const [searchQuery, setSearchQuery] = useState("")
+  const [dateFrom, setDateFrom] = useState("")
+  const [dateTo, setDateTo] = useState("")
   
   // Ref to track scroll position for preservation
   const scrollPositionRef = useRef<number>(0)
@@ -42,11 +89,29 @@ export default function DemoDashboard({ status }: DemoDashboardProps) {
   
   // Track optimistic updates - store the expected new status while API call is in progress
   const [optimisticUpdates, setOptimisticUpdates] = useState<Record<string, DemoStatus>>({})
+
+  // Review history panels, keyed by demo_id
+  const [historyOpen, setHistoryOpen] = useState<Record<string, boolean>>({})
+  const [demoHistory, setDemoHistory] = useState<Record<string, DemoHistoryEntry[]>>({})
+  const [historyLoading, setHistoryLoading] = useState<Record<string, boolean>>({})
+
+  // Reviewer notes typed next to the Like button, sent along with the like action
+  const [noteDrafts, setNoteDrafts] = useState<Record<string, string>>({})
+  const [notesVersion, setNotesVersion] = useState<Record<string, number>>({})
+
+  // Multi-select for bulk actions, keyed by demo_id
+  const [selectedIds, setSelectedIds] = useState<Record<string, boolean>>({})
+  const [bulkConfirm, setBulkConfirm] = useState<{ action: DemoAction; label: string } | null>(null)
+  const [bulkLoading, setBulkLoading] = useState(false)
+  const [bulkResult, setBulkResult] = useState<{ succeeded: number; failed: string[] } | null>(null)
   
+  // Demo the owner is approving, while the approval email is being composed
+  const [composeDemo, setComposeDemo] = useState<Demo | null>(null)
+
   // Dialog state management
   const [confirmDialog, setConfirmDialog] = useState<{
     isOpen: boolean
-    type: "like" | "reject" | "approve" | "undo_reject"
+    type: DemoAction
     title: string
     description: string
     confirmText: string
@@ -56,127 +121,11 @@ export default function DemoDashboard({ status }: DemoDashboardProps) {
   } | null>(null)
 
   // API hooks for different operations
-  const dashboardApi = useApi<DemosApiResponse>({
+  const dashboardApi = useApi<DashboardData>({
     onSuccess: (apiResponse) => {
-      console.log('API Response received:', apiResponse);
-      console.log('Current user role:', currentUser);
-      console.log('Status filter:', statusFilter);
-      
-      // Get all demos from the response
-      let filteredDemos = apiResponse.demos;
-      console.log('All demos before filtering:', filteredDemos);
-      
-      // Apply status filter
-      if (statusFilter && statusFilter !== 'all') {
-        // Map filter values to actual backend status values
-        const statusMapping: { [key: string]: string[] } = {
-          'submitted': ['submitted'],
-          'liked': ['assistant_liked'], // Map to actual backend status
-          'assistant_liked': ['assistant_liked'],
-          'rejected_by_assistant': ['rejected'], // Map to actual backend status
-          'rejected': ['rejected', 'rejected_by_assistant', 'rejected_by_admin'], // Include all rejected statuses
-          'approved': ['approved'],
-          'rejected_by_admin': ['rejected_by_admin'],
-          'owner_liked': ['owner_liked']
-        };
-        
-        const allowedStatuses = statusMapping[statusFilter] || [statusFilter];
-        filteredDemos = filteredDemos.filter((demo: Demo) => 
-          allowedStatuses.includes(demo.status)
-        );
-        console.log(`Demos after status filter (${statusFilter}):`, filteredDemos);
-      } else {
-        // When "All Statuses" is selected, exclude rejected demos
-        const rejectedStatuses = ['rejected', 'rejected_by_assistant', 'rejected_by_admin'];
-        filteredDemos = filteredDemos.filter((demo: Demo) => 
-          !rejectedStatuses.includes(demo.status)
-        );
-        console.log('Demos after excluding rejected (All Statuses):', filteredDemos);
-      }
-      
-      // Sort demos by date (newest first) - this happens after filtering
-      console.log('=== SORTING DEBUG START ===');
-      console.log('Demos before sorting:', filteredDemos.map((d: Demo) => ({
-        id: d.demo_id,
-        title: d.track_title,
-        submitted_at: d.submitted_at,
-        submitted_at_type: typeof d.submitted_at,
-        submitted_at_length: d.submitted_at?.length
-      })));
-      
-      filteredDemos.sort((a: Demo, b: Demo) => {
-        // Parse the YYYYMMDD_HHMMSS format to proper dates for comparison
-        const parseSubmittedAt = (dateString: string): Date => {
-          console.log(`Parsing date string: "${dateString}" (type: ${typeof dateString}, length: ${dateString?.length})`);
-          
-          // Handle null/undefined/empty values
-          if (!dateString) {
-            console.log('  -> Empty date string, using current date as fallback');
-            return new Date();
-          }
-          
-          try {
-            // Format: "20250912_143000" -> "2025-09-12T14:30:00"
-            if (dateString.length === 15 && dateString.includes('_')) {
-              const [datePart, timePart] = dateString.split('_');
-              const year = datePart.substring(0, 4);
-              const month = datePart.substring(4, 6);
-              const day = datePart.substring(6, 8);
-              const hour = timePart.substring(0, 2);
-              const minute = timePart.substring(2, 4);
-              const second = timePart.substring(4, 6);
-              
-              const isoString = `${year}-${month}-${day}T${hour}:${minute}:${second}`;
-              const parsedDate = new Date(isoString);
-              
-              // Check if the parsed date is valid
-              if (isNaN(parsedDate.getTime())) {
-                console.log(`  -> Invalid date after parsing ISO string: "${isoString}"`);
-                return new Date(); // Fallback to current date
-              }
-              
-              console.log(`  -> ISO string: "${isoString}"`);
-              console.log(`  -> Parsed date: ${parsedDate.toISOString()}`);
-              console.log(`  -> Timestamp: ${parsedDate.getTime()}`);
-              
-              return parsedDate;
-            }
-            
-            // Try standard date formats (YYYY-MM-DD, etc.)
-            const fallbackDate = new Date(dateString);
-            if (isNaN(fallbackDate.getTime())) {
-              console.log(`  -> Failed to parse as standard date: "${dateString}"`);
-              return new Date(); // Fallback to current date
-            }
-            
-            console.log(`  -> Fallback date: ${fallbackDate.toISOString()}`);
-            return fallbackDate;
-          } catch (error) {
-            console.error(`  -> Error parsing date "${dateString}":`, error);
-            return new Date(); // Fallback to current date
-          }
-        };
-        
-        const dateA = parseSubmittedAt(a.submitted_at);
-        const dateB = parseSubmittedAt(b.submitted_at);
-        
-        const comparison = dateB.getTime() - dateA.getTime();
-        console.log(`Comparing: ${a.track_title} (${dateA.getTime()}) vs ${b.track_title} (${dateB.getTime()}) = ${comparison}`);
-        
-        // Sort in descending order (newest first)
-        return comparison;
-      });
-      
-      console.log('Demos after sorting:', filteredDemos.map((d: Demo) => ({
-        id: d.demo_id,
-        title: d.track_title,
-        submitted_at: d.submitted_at
-      })));
-      console.log('=== SORTING DEBUG END ===');
-      
-      console.log('Final filtered and sorted demos:', filteredDemos);
-      setDemos(filteredDemos);
-      setAllDemos(apiResponse.demos); // Store all demos for count calculations
+      // Filtering, search and sorting are applied by the server
+      setDemos(apiResponse.demos);
+      setCounts(apiResponse.counts);
       
       // Restore scroll position if we need to preserve it
       if (shouldPreserveScroll.current) {
@@ -222,17 +171,68 @@ export default function DemoDashboard({ status }: DemoDashboardProps) {
     }
     
     try {
-      await dashboardApi.execute(() => demoService.getAllDemos())
+      // "All Statuses" lists every state except rejected
+      const statuses = statusFilter && statusFilter !== 'all'
+        ? [statusFilter as DemoStatus]
+        : DEMO_STATES.filter(state => state !== 'rejected')
+
+      // Counts in the response always cover every demo, regardless of the filters
+      await dashboardApi.execute(() => demoService.getDashboardData(currentUser, {
+        status: statuses,
+        q: searchQuery || undefined,
+        from: dateFrom || undefined,
+        to: dateTo || undefined,
+        min_score: Number(minScore) > 0 ? Number(minScore) : undefined,
+        sort: sortBy === 'score' ? 'score' : 'submitted_at',
+        order: sortBy === 'oldest' ? 'asc' : 'desc',
+        per_page: MAX_DEMOS_PER_PAGE,
+      }))
     } catch (error) {
       console.error('Dashboard fetch error:', apiUtils.getErrorMessage(error))
     }
   }
 
-  // Fetch data when filters change
+  // Debounce the search box so typing does not fire a request per keystroke
+  useEffect(() => {
+    const timeout = setTimeout(() => setSearchQuery(searchInput.trim()), 300)
+    return () => clearTimeout(timeout)
+  }, [searchInput])
+
+  // Fetch data when filters change (once the user's roles are known)
   useEffect(() => {
+    if (!isHydrated) return
     fetchDemos()
+  }, [isHydrated, currentUser, statusFilter, sortBy, minScore, searchQuery, dateFrom, dateTo])
+
+  // Selection only applies to the demos currently listed
+  useEffect(() => {
+    setSelectedIds({})
+    setBulkResult(null)
   }, [currentUser, statusFilter])
 
+  // Update a demo's score aggregate after the current reviewer saves their scores
+  const handleScoreSaved = (demoId: string, summary: DemoScoreSummary) => {
+    const applyScore = (list: Demo[]) =>
+      list.map(demo => (demo.demo_id === demoId ? { ...demo, score: summary } : demo))
+    setDemos(applyScore)
+  }
+
+  // Show the new delivery state after an artist email was resent from the card
+  const handleEmailResent = (email: DemoEmail) => {
+    setDemos(prev => prev.map(demo => (demo.demo_id === email.demo_id ? { ...demo, last_email: email } : demo)))
+  }
+
+  // Reload the artist email shown on a card, e.g. scheduled (or cancelled) by an action
+  const refreshLastEmail = async (demoId: string) => {
+    try {
+      const response = await demoService.getDemoEmails(demoId)
+      const latest = [...response.data.emails].sort((a, b) => b.updated_at.localeCompare(a.updated_at))[0] || null
+      setDemos(prev => prev.map(demo => (demo.demo_id === demoId ? { ...demo, last_email: latest } : demo)))
+    } catch (error) {
+      console.error('Failed to load demo emails:', apiUtils.getErrorMessage(error))
+    }
+  }
+
   // Helper functions for per-demo loading management
   const setDemoLoading = (demoId: string, isLoading: boolean) => {
     setDemoLoadingStates(prev => ({
@@ -262,11 +262,32 @@ export default function DemoDashboard({ status }: DemoDashboardProps) {
     })
   }
 
+  // Load the review history of a demo into the timeline panel
+  const loadHistory = async (demoId: string) => {
+    setHistoryLoading(prev => ({ ...prev, [demoId]: true }))
+    try {
+      const response = await demoService.getDemoHistory(demoId)
+      setDemoHistory(prev => ({ ...prev, [demoId]: response.data.history }))
+    } catch (error) {
+      console.error('Failed to load demo history:', apiUtils.getErrorMessage(error))
+    } finally {
+      setHistoryLoading(prev => ({ ...prev, [demoId]: false }))
+    }
+  }
+
+  const toggleHistory = (demoId: string) => {
+    const isOpen = !historyOpen[demoId]
+    setHistoryOpen(prev => ({ ...prev, [demoId]: isOpen }))
+    if (isOpen) {
+      loadHistory(demoId)
+    }
+  }
+
   // Wrapper function for button clicks to prevent default behavior and preserve scroll
   const handleActionClick = async (
     e: React.MouseEvent,
     demoId: string,
-    actionType: 'like' | 'reject' | 'approve' | 'undo_reject',
+    actionType: DemoAction,
     expectedStatus: DemoStatus
   ) => {
     e.preventDefault()
@@ -283,8 +304,9 @@ export default function DemoDashboard({ status }: DemoDashboardProps) {
   // Enhanced demo action handler with per-demo loading and optimistic updates
   const performDemoAction = async (
     demoId: string, 
-    actionType: 'like' | 'reject' | 'approve' | 'undo_reject',
-    expectedStatus: DemoStatus
+    actionType: DemoAction,
+    expectedStatus: DemoStatus,
+    compose?: ApprovalCompose
   ) => {
     console.log('🎬 UI ACTION TRIGGERED:')
     console.log('  🎯 Demo ID:', demoId)
@@ -298,26 +320,21 @@ export default function DemoDashboard({ status }: DemoDashboardProps) {
     // Apply optimistic update immediately for better UX
     applyOptimisticUpdate(demoId, expectedStatus)
 
+    // Pass the assistant's note for the owner along with a like
+    const note = workflowRole === "assistant" && actionType === "like" ? (noteDrafts[demoId] || "").trim() : ""
+
     try {
-      if (currentUser === "assistant") {
-        let action: 'like' | 'reject' | 'undo_reject'
-        if (actionType === "like") action = "like"
-        else if (actionType === "reject") action = "reject"
-        else if (actionType === "undo_reject") action = "undo_reject"
-        else return
-        
-        console.log('🔧 CALLING ASSISTANT ACTION:', { demoId, action })
-        await demoService.assistantAction(demoId, action)
-      } else if (currentUser === "admin") {
-        let action: 'approve' | 'reject' | 'undo_reject' | 'like'
-        if (actionType === "approve") action = "approve"
-        else if (actionType === "reject") action = "reject"
-        else if (actionType === "undo_reject") action = "undo_reject"
-        else if (actionType === "like") action = "like"
-        else return
-        
-        console.log('🔧 CALLING OWNER ACTION:', { demoId, action })
-        await demoService.ownerAction(demoId, action)
+      if (workflowRole === "owner") {
+        console.log('🔧 CALLING OWNER ACTION:', { demoId, actionType })
+        await demoService.ownerAction(demoId, actionType, compose)
+      } else {
+        console.log('🔧 CALLING ASSISTANT ACTION:', { demoId, actionType })
+        await demoService.assistantAction(demoId, actionType, note || undefined)
+      }
+
+      if (note) {
+        setNoteDrafts(prev => ({ ...prev, [demoId]: "" }))
+        setNotesVersion(prev => ({ ...prev, [demoId]: (prev[demoId] || 0) + 1 }))
       }
 
       // Update local state with the new status
@@ -331,6 +348,12 @@ export default function DemoDashboard({ status }: DemoDashboardProps) {
 
       // Clear optimistic update after state is updated
       clearOptimisticUpdate(demoId)
+      refreshLastEmail(demoId)
+
+      // Refresh the timeline if it is open so the new entry shows up
+      if (historyOpen[demoId]) {
+        loadHistory(demoId)
+      }
     } catch (error) {
       console.error('❌ Demo action failed:', error)
       // Revert optimistic update on error
@@ -427,45 +450,12 @@ export default function DemoDashboard({ status }: DemoDashboardProps) {
     try {
       console.log('User confirmed action:', confirmDialog.type, 'for demo:', confirmDialog.demoId)
       
-      // Use the new assistant action endpoint for assistant actions
-      if (currentUser === "assistant") {
-        let action: 'like' | 'reject' | 'undo_reject'
-        
-        if (confirmDialog.type === "like") {
-          action = "like"
-        } else if (confirmDialog.type === "reject") {
-          action = "reject"
-        } else if (confirmDialog.type === "undo_reject") {
-          action = "undo_reject"
-        } else {
-          return // Assistant shouldn't have approve actions
-        }
-
-        // Call the new assistant action endpoint
-        await updateStatusApi.execute(() => 
-          demoService.assistantAction(confirmDialog.demoId, action)
-        )
-      } else if (currentUser === "admin") {
-        // Use the new owner action endpoint for admin actions
-        if (confirmDialog.type === "approve" || confirmDialog.type === "reject" || confirmDialog.type === "undo_reject" || confirmDialog.type === "like") {
-          let action: 'approve' | 'reject' | 'undo_reject' | 'like'
-          
-          if (confirmDialog.type === "approve") {
-            action = "approve"
-          } else if (confirmDialog.type === "reject") {
-            action = "reject"
-          } else if (confirmDialog.type === "undo_reject") {
-            action = "undo_reject"
-          } else if (confirmDialog.type === "like") {
-            action = "like"
-          }
-
-          // Call the new owner action endpoint
-          await updateStatusApi.execute(() => 
-            demoService.ownerAction(confirmDialog.demoId, action)
-          )
-        }
-      }
+      // Call the action endpoint for the current role; the server validates the transition
+      await updateStatusApi.execute(() =>
+        workflowRole === "owner"
+          ? demoService.ownerAction(confirmDialog.demoId, confirmDialog.type)
+          : demoService.assistantAction(confirmDialog.demoId, confirmDialog.type)
+      )
       
       // Close dialog after successful action
       setConfirmDialog(null)
@@ -480,17 +470,65 @@ export default function DemoDashboard({ status }: DemoDashboardProps) {
     setConfirmDialog(null)
   }
 
-  // Calculate counts from all demos (not filtered) for accurate counts
-  const getCounts = () => {
-    return {
-      submitted: allDemos.filter(d => d.status === 'submitted').length,
-      liked: allDemos.filter(d => d.status === 'assistant_liked' || d.status === 'liked').length,
-      rejected_by_assistant: allDemos.filter(d => d.status === 'rejected' || d.status === 'rejected_by_assistant' || d.status === 'rejected_by_admin').length,
-      approved: allDemos.filter(d => d.status === 'owner_liked' || d.status === 'approved').length,
-    }
+  const allowedTransitions = (demoStatus: DemoStatus) =>
+    workflowRole ? getAllowedTransitions(demoStatus, workflowRole) : []
+
+  const selectedDemos = demos.filter(demo => selectedIds[demo.demo_id])
+  const allVisibleSelected = demos.length > 0 && selectedDemos.length === demos.length
+
+  // Bulk actions are the ones allowed for every selected demo
+  const bulkTransitions = selectedDemos.length === 0 || !workflowRole
+    ? []
+    : getAllowedTransitions(selectedDemos[0].status, workflowRole).filter(transition =>
+        selectedDemos.every(demo => getAllowedActions(demo.status, workflowRole).includes(transition.action))
+      )
+
+  const toggleSelected = (demoId: string) => {
+    setSelectedIds(prev => ({ ...prev, [demoId]: !prev[demoId] }))
   }
 
-  const counts = getCounts()
+  const toggleSelectAll = () => {
+    setSelectedIds(
+      allVisibleSelected ? {} : Object.fromEntries(demos.map(demo => [demo.demo_id, true]))
+    )
+  }
+
+  // Apply one action to every selected demo through the batch endpoint
+  const performBulkAction = async () => {
+    if (!bulkConfirm || !workflowRole) return
+
+    const demoIds = selectedDemos.map(demo => demo.demo_id)
+    setBulkLoading(true)
+    setBulkResult(null)
+    demoIds.forEach(demoId => setDemoLoading(demoId, true))
+
+    try {
+      const response = await demoService.batchAction(workflowRole, bulkConfirm.action, demoIds)
+      const { results, succeeded } = response.data
+
+      // Keep failed demos selected so they can be retried
+      setSelectedIds(
+        Object.fromEntries(results.filter(result => !result.success).map(result => [result.demo_id, true]))
+      )
+      setBulkResult({
+        succeeded,
+        failed: results
+          .filter(result => !result.success)
+          .map(result => {
+            const demo = demos.find(d => d.demo_id === result.demo_id)
+            return `${demo?.track_title || result.demo_id}: ${result.error?.message || 'Unknown error'}`
+          }),
+      })
+      setBulkConfirm(null)
+      await fetchDemos(true)
+    } catch (error) {
+      console.error('Bulk action failed:', error)
+      setBulkResult({ succeeded: 0, failed: [apiUtils.getErrorMessage(error)] })
+    } finally {
+      demoIds.forEach(demoId => setDemoLoading(demoId, false))
+      setBulkLoading(false)
+    }
+  }
 
   const StatusBadge = ({ status }: { status: DemoStatus }) => {
     const config = statusConfig[status]
@@ -503,13 +541,14 @@ export default function DemoDashboard({ status }: DemoDashboardProps) {
     )
   }
 
-  const DemoCard = ({ demo }: { demo: Demo }) => {
+  // Rendered as a plain function (not a component) so inputs inside the card keep focus across re-renders
+  const renderDemoCard = (demo: Demo) => {
     const isLoading = isDemoLoading(demo.demo_id)
     const optimisticStatus = optimisticUpdates[demo.demo_id]
     const displayStatus = optimisticStatus || demo.status
     
     return (
-      <Card className={`mb-4 transition-all duration-300 ${isLoading ? 'opacity-60' : 'opacity-100'}`}>
+      <Card key={demo.demo_id} className={`mb-4 transition-all duration-300 ${isLoading ? 'opacity-60' : 'opacity-100'}`}>
         <CardContent className="p-6 relative">
           {/* Loading overlay for better visual feedback */}
           {isLoading && (
@@ -522,8 +561,20 @@ export default function DemoDashboard({ status }: DemoDashboardProps) {
           )}
 
           <div className="flex items-start justify-between mb-4">
+            <input
+              type="checkbox"
+              aria-label={`Select ${demo.track_title}`}
+              checked={!!selectedIds[demo.demo_id]}
+              onChange={() => toggleSelected(demo.demo_id)}
+              disabled={isLoading}
+              className="mt-1.5 mr-4 h-4 w-4 accent-primary"
+            />
             <div className="flex-1">
-              <h3 className="text-lg font-semibold text-foreground mb-1">{demo.track_title}</h3>
+              <h3 className="text-lg font-semibold text-foreground mb-1">
+                <Link href={`/dashboard/demos/${demo.demo_id}`} className="hover:underline">
+                  {demo.track_title}
+                </Link>
+              </h3>
               <p className="text-muted-foreground mb-2">{demo.artist_name}</p>
               <div className="flex items-center gap-4 text-sm text-muted-foreground">
                 <div className="flex items-center gap-1">
@@ -558,192 +609,51 @@ export default function DemoDashboard({ status }: DemoDashboardProps) {
             </div>
           </div>
 
-          <div className="flex gap-2 mb-4">
-            {currentUser === "assistant" && demo.status === "submitted" && (
-              <>
-                <Button
-                  size="sm"
-                  variant="outline"
-                  className="text-green-600 dark:text-green-400 border-green-600 dark:border-green-400 hover:bg-green-50 dark:hover:bg-green-900/20 bg-transparent disabled:opacity-50"
-                  onClick={(e) => handleActionClick(e, demo.demo_id, "like", "assistant_liked")}
-                  disabled={isLoading}
-                >
-                  {isLoading ? (
-                    <Loader2 className="w-4 h-4 mr-1 animate-spin" />
-                  ) : (
-                    <ThumbsUp className="w-4 h-4 mr-1" />
-                  )}
-                  Like
-                </Button>
-                <Button
-                  size="sm"
-                  variant="outline"
-                  className="text-red-600 dark:text-red-400 border-red-600 dark:border-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 bg-transparent disabled:opacity-50"
-                  onClick={async () => {
-                    try {
-                      await performDemoAction(demo.demo_id, "reject", "rejected")
-                      setConfirmDialog(null)
-                    } catch (error) {
-                      // Error handling is done in performDemoAction
-                    }
-                  }}
-                  disabled={isLoading}
-                >
-                  {isLoading ? (
-                    <Loader2 className="w-4 h-4 mr-1 animate-spin" />
-                  ) : (
-                    <ThumbsDown className="w-4 h-4 mr-1" />
-                  )}
-                  Reject
-                </Button>
-              </>
-            )}
-
-            {/* Admin/Owner actions on submitted demos */}
-            {currentUser === "admin" && demo.status === "submitted" && (
-              <>
-                <Button
-                  size="sm"
-                  variant="outline"
-                  className="text-green-600 dark:text-green-400 border-green-600 dark:border-green-400 hover:bg-green-50 dark:hover:bg-green-900/20 bg-transparent disabled:opacity-50"
-                  onClick={async () => {
-                    try {
-                      await performDemoAction(demo.demo_id, "like", "assistant_liked")
-                      setConfirmDialog(null)
-                    } catch (error) {
-                      // Error handling is done in performDemoAction
-                    }
-                  }}
-                  disabled={isLoading}
-                >
-                  {isLoading ? (
-                    <Loader2 className="w-4 h-4 mr-1 animate-spin" />
-                  ) : (
-                    <ThumbsUp className="w-4 h-4 mr-1" />
-                  )}
-                  Like
-                </Button>
-                <Button
-                  size="sm"
-                  variant="outline"
-                  className="text-red-600 dark:text-red-400 border-red-600 dark:border-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 bg-transparent disabled:opacity-50"
-                  onClick={async () => {
-                    try {
-                      await performDemoAction(demo.demo_id, "reject", "rejected")
-                      setConfirmDialog(null)
-                    } catch (error) {
-                      // Error handling is done in performDemoAction
-                    }
-                  }}
-                  disabled={isLoading}
-                >
-                  {isLoading ? (
-                    <Loader2 className="w-4 h-4 mr-1 animate-spin" />
-                  ) : (
-                    <ThumbsDown className="w-4 h-4 mr-1" />
-                  )}
-                  Reject
-                </Button>
-              </>
-            )}
+          {workflowRole === "assistant" && allowedTransitions(demo.status).some(t => t.action === "like") && (
+            <Input
+              value={noteDrafts[demo.demo_id] || ""}
+              onChange={(e) => setNoteDrafts(prev => ({ ...prev, [demo.demo_id]: e.target.value }))}
+              placeholder="Optional note for the owner, sent with Like (e.g. great drop at 1:45)"
+              className="mb-2"
+              disabled={isLoading}
+            />
+          )}
 
-            {currentUser === "admin" && (demo.status === "assistant_liked" || demo.status === "liked") && (
-              <>
-                <Button
-                  size="sm"
-                  className="bg-emerald-600 hover:bg-emerald-700 disabled:opacity-50"
-                  onClick={async () => {
-                    try {
-                      await performDemoAction(demo.demo_id, "approve", "approved")
-                      setConfirmDialog(null)
-                    } catch (error) {
-                      // Error handling is done in performDemoAction
-                    }
-                  }}
-                  disabled={isLoading}
-                >
-                  {isLoading ? (
-                    <Loader2 className="w-4 h-4 mr-1 animate-spin" />
-                  ) : (
-                    <CheckCircle className="w-4 h-4 mr-1" />
-                  )}
-                  Approve
-                </Button>
+          <div className="flex gap-2 mb-4">
+            {allowedTransitions(demo.status).map((transition) => {
+              const config = actionButtonConfig[transition.action]
+              const Icon = config.icon
+              return (
                 <Button
+                  key={transition.action}
                   size="sm"
-                  variant="outline"
-                  className="text-red-600 dark:text-red-400 border-red-600 dark:border-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 bg-transparent disabled:opacity-50"
-                  onClick={async () => {
-                    try {
-                      await performDemoAction(demo.demo_id, "reject", "rejected")
-                      setConfirmDialog(null)
-                    } catch (error) {
-                      // Error handling is done in performDemoAction
-                    }
-                  }}
+                  variant={config.variant}
+                  className={config.className}
+                  onClick={(e) =>
+                    // Approving opens the compose step for the approval email first
+                    transition.action === "approve" && workflowRole === "owner"
+                      ? setComposeDemo(demo)
+                      : handleActionClick(e, demo.demo_id, transition.action, transition.to)
+                  }
                   disabled={isLoading}
                 >
                   {isLoading ? (
                     <Loader2 className="w-4 h-4 mr-1 animate-spin" />
                   ) : (
-                    <XCircle className="w-4 h-4 mr-1" />
+                    <Icon className="w-4 h-4 mr-1" />
                   )}
-                  Reject
+                  {transition.label}
                 </Button>
-              </>
-            )}
-
-            {/* Assistant undo reject actions */}
-            {currentUser === "assistant" && demo.status === "rejected" && (
-              <Button
-                size="sm"
-                variant="outline"
-                  className="text-blue-600 dark:text-blue-400 border-blue-600 dark:border-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 bg-transparent disabled:opacity-50"
-                onClick={async () => {
-                  try {
-                    await performDemoAction(demo.demo_id, "undo_reject", "assistant_liked")
-                    setConfirmDialog(null)
-                  } catch (error) {
-                    // Error handling is done in performDemoAction
-                  }
-                }}
-                disabled={isLoading}
-              >
-                {isLoading ? (
-                  <Loader2 className="w-4 h-4 mr-1 animate-spin" />
-                ) : (
-                  <ThumbsUp className="w-4 h-4 mr-1" />
-                )}
-                Undo Reject
-              </Button>
-            )}
-
-            {/* Admin/Owner undo reject actions */}
-            {currentUser === "admin" && demo.status === "rejected" && (
-              <Button
-                size="sm"
-                variant="outline"
-                  className="text-blue-600 dark:text-blue-400 border-blue-600 dark:border-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 bg-transparent disabled:opacity-50"
-                onClick={async () => {
-                  try {
-                    await performDemoAction(demo.demo_id, "undo_reject", "assistant_liked")
-                    setConfirmDialog(null)
-                  } catch (error) {
-                    // Error handling is done in performDemoAction
-                  }
-                }}
-                disabled={isLoading}
-              >
-                {isLoading ? (
-                  <Loader2 className="w-4 h-4 mr-1 animate-spin" />
-                ) : (
-                  <ThumbsUp className="w-4 h-4 mr-1" />
-                )}
-                Undo Reject
-              </Button>
-            )}
+              )
+            })}
           </div>
 
+          {demo.last_email && (
+            <div className="mb-4">
+              <DemoEmailStatus email={demo.last_email} demoState={demo.status} onResent={handleEmailResent} />
+            </div>
+          )}
+
           {/* HTML5 Audio Player - positioned below action buttons */}
           <div className="mt-4 pt-4 border-t border-border">
             <audio
@@ -768,6 +678,41 @@ export default function DemoDashboard({ status }: DemoDashboardProps) {
               {demo.track_title} by {demo.artist_name}
             </div>
           </div>
+
+          <DemoScorePanel
+            demoId={demo.demo_id}
+            summary={demo.score}
+            onSaved={(summary) => handleScoreSaved(demo.demo_id, summary)}
+          />
+
+          <DemoNotesPanel demoId={demo.demo_id} refreshKey={notesVersion[demo.demo_id] || 0} />
+
+          {/* Review history timeline */}
+          <div className="mt-4 pt-4 border-t border-border">
+            <Button
+              size="sm"
+              variant="ghost"
+              className="text-muted-foreground"
+              onClick={() => toggleHistory(demo.demo_id)}
+            >
+              <History className="w-4 h-4 mr-1" />
+              {historyOpen[demo.demo_id] ? "Hide history" : "Show history"}
+            </Button>
+            {historyOpen[demo.demo_id] && (
+              <div className="mt-2">
+                {historyLoading[demo.demo_id] && !demoHistory[demo.demo_id] ? (
+                  <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                    Loading history...
+                  </div>
+                ) : (demoHistory[demo.demo_id] || []).length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No review actions recorded yet.</p>
+                ) : (
+                  <DemoHistoryTimeline history={demoHistory[demo.demo_id]} />
+                )}
+              </div>
+            )}
+          </div>
         </CardContent>
       </Card>
     )
@@ -813,7 +758,7 @@ export default function DemoDashboard({ status }: DemoDashboardProps) {
                 <CardTitle className="text-sm font-medium text-muted-foreground">Submitted</CardTitle>
               </CardHeader>
               <CardContent>
-                <div className="text-2xl font-bold text-blue-600 dark:text-blue-400">{counts.submitted}</div>
+                <div className="text-2xl font-bold text-blue-600 dark:text-blue-400">{counts?.submitted ?? 0}</div>
               </CardContent>
             </Card>
             <Card>
@@ -821,7 +766,7 @@ export default function DemoDashboard({ status }: DemoDashboardProps) {
                 <CardTitle className="text-sm font-medium text-muted-foreground">Liked</CardTitle>
               </CardHeader>
               <CardContent>
-                <div className="text-2xl font-bold text-green-600 dark:text-green-400">{counts.liked}</div>
+                <div className="text-2xl font-bold text-green-600 dark:text-green-400">{counts?.assistant_liked ?? 0}</div>
               </CardContent>
             </Card>
             <Card>
@@ -829,15 +774,15 @@ export default function DemoDashboard({ status }: DemoDashboardProps) {
                 <CardTitle className="text-sm font-medium text-muted-foreground">Approved</CardTitle>
               </CardHeader>
               <CardContent>
-                <div className="text-2xl font-bold text-emerald-600 dark:text-emerald-400">{counts.approved}</div>
+                <div className="text-2xl font-bold text-emerald-600 dark:text-emerald-400">{counts?.owner_liked ?? 0}</div>
               </CardContent>
             </Card>
             <Card>
               <CardHeader className="pb-2">
-                <CardTitle className="text-sm font-medium text-muted-foreground">Rejected (Assistant & Admin)</CardTitle>
+                <CardTitle className="text-sm font-medium text-muted-foreground">Rejected</CardTitle>
               </CardHeader>
               <CardContent>
-                <div className="text-2xl font-bold text-red-600 dark:text-red-400">{counts.rejected_by_assistant}</div>
+                <div className="text-2xl font-bold text-red-600 dark:text-red-400">{counts?.rejected ?? 0}</div>
               </CardContent>
             </Card>
           </div>
@@ -851,16 +796,126 @@ export default function DemoDashboard({ status }: DemoDashboardProps) {
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="all">All Statuses</SelectItem>
-                <SelectItem value="submitted">Submitted</SelectItem>
-                <SelectItem value="assistant_liked">Liked by Assistant</SelectItem>
-                <SelectItem value="owner_liked">Approved by Owner</SelectItem>
-                <SelectItem value="rejected">Rejected</SelectItem>
+                {DEMO_STATES.map((state) => (
+                  <SelectItem key={state} value={state}>
+                    {DEMO_WORKFLOW.states[state].label}{counts ? ` (${counts[state]})` : ""}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <span className="text-sm font-medium text-foreground">Sort by:</span>
+            <Select value={sortBy} onValueChange={(value) => setSortBy(value as typeof sortBy)}>
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="newest">Newest first</SelectItem>
+                <SelectItem value="oldest">Oldest first</SelectItem>
+                <SelectItem value="score">Average score</SelectItem>
+              </SelectContent>
+            </Select>
+            <span className="text-sm font-medium text-foreground">Min score:</span>
+            <Select value={minScore} onValueChange={setMinScore}>
+              <SelectTrigger className="w-28">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="0">Any</SelectItem>
+                <SelectItem value="2">2+</SelectItem>
+                <SelectItem value="3">3+</SelectItem>
+                <SelectItem value="4">4+</SelectItem>
               </SelectContent>
             </Select>
             {dashboardApi.loading && <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />}
           </div>
+          <div className="flex items-center gap-4 mt-4">
+            <Input
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              placeholder="Search artist, track or email"
+              className="w-72"
+            />
+            <span className="text-sm font-medium text-foreground">From:</span>
+            <Input
+              type="date"
+              value={dateFrom}
+              onChange={(e) => setDateFrom(e.target.value)}
+              className="w-40"
+            />
+            <span className="text-sm font-medium text-foreground">To:</span>
+            <Input
+              type="date"
+              value={dateTo}
+              onChange={(e) => setDateTo(e.target.value)}
+              className="w-40"
+            />
+          </div>
         </div>
 
+        {/* Bulk action bar */}
+        {demos.length > 0 && (
+          <div className="sticky top-0 z-20 mb-4 p-3 bg-card border border-border rounded-lg flex flex-wrap items-center gap-3">
+            <label className="flex items-center gap-2 text-sm text-foreground">
+              <input
+                type="checkbox"
+                checked={allVisibleSelected}
+                onChange={toggleSelectAll}
+                disabled={bulkLoading}
+                className="h-4 w-4 accent-primary"
+              />
+              {selectedDemos.length > 0 ? `${selectedDemos.length} selected` : `Select all (${demos.length})`}
+            </label>
+            {selectedDemos.length > 0 && (
+              <>
+                {bulkTransitions.length === 0 ? (
+                  <span className="text-sm text-muted-foreground">No action applies to every selected demo</span>
+                ) : (
+                  bulkTransitions.map((transition) => {
+                    const config = actionButtonConfig[transition.action]
+                    const Icon = config.icon
+                    return (
+                      <Button
+                        key={transition.action}
+                        size="sm"
+                        variant={config.variant}
+                        className={config.className}
+                        onClick={() => setBulkConfirm({ action: transition.action, label: transition.label })}
+                        disabled={bulkLoading}
+                      >
+                        <Icon className="w-4 h-4 mr-1" />
+                        {transition.label} ({selectedDemos.length})
+                      </Button>
+                    )
+                  })
+                )}
+                <Button size="sm" variant="ghost" onClick={() => setSelectedIds({})} disabled={bulkLoading}>
+                  Clear
+                </Button>
+              </>
+            )}
+            {bulkLoading && <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />}
+          </div>
+        )}
+
+        {bulkResult && (
+          <div className={`mb-4 p-4 rounded border ${
+            bulkResult.failed.length > 0
+              ? "bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800"
+              : "bg-green-50 dark:bg-green-900/20 border-green-200 dark:border-green-800"
+          }`}>
+            <p className="text-sm text-foreground">
+              {bulkResult.succeeded} demo(s) updated{bulkResult.failed.length > 0 && `, ${bulkResult.failed.length} failed`}
+            </p>
+            {bulkResult.failed.length > 0 && (
+              <ul className="mt-2 text-sm text-red-700 dark:text-red-300 list-disc ml-5">
+                {bulkResult.failed.map((message, index) => (
+                  <li key={index}>{message}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
         {/* Demo List */}
         <div className="space-y-4">
           {/* Debug Panel - Remove this after debugging */}
@@ -872,12 +927,14 @@ export default function DemoDashboard({ status }: DemoDashboardProps) {
                 <p className="text-muted-foreground">
                   {currentUser === "assistant"
                     ? "No submitted demos to review at the moment."
-                    : "No demos liked by Assistant to review at the moment."}
+                    : currentUser === "admin"
+                      ? "No demos liked by Assistant to review at the moment."
+                      : "No demos match the current filters."}
                 </p>
               </CardContent>
             </Card>
           ) : (
-            demos.map((demo) => <DemoCard key={demo.demo_id} demo={demo} />)
+            demos.map((demo) => renderDemoCard(demo))
           )}
         </div>
       </div>
@@ -896,6 +953,34 @@ export default function DemoDashboard({ status }: DemoDashboardProps) {
           isLoading={updateStatusApi.loading}
         />
       )}
+
+      <ApprovalComposeDialog
+        demo={composeDemo}
+        onClose={() => setComposeDemo(null)}
+        onApprove={async (compose) => {
+          if (!composeDemo) return
+          try {
+            await performDemoAction(composeDemo.demo_id, "approve", "owner_liked", compose)
+          } catch (error) {
+            throw new Error(apiUtils.getErrorMessage(error))
+          }
+          setComposeDemo(null)
+        }}
+      />
+
+      {/* Bulk Action Confirmation Dialog */}
+      {bulkConfirm && (
+        <ConfirmationDialog
+          isOpen={true}
+          onClose={() => setBulkConfirm(null)}
+          onConfirm={performBulkAction}
+          title={`${bulkConfirm.label} ${selectedDemos.length} demo(s)`}
+          description={`This will apply "${bulkConfirm.label}" to every selected demo and notify the artists where the action sends an email.`}
+          confirmText={`${bulkConfirm.label} ${selectedDemos.length} demo(s)`}
+          type={bulkConfirm.action}
+          isLoading={bulkLoading}
+        />
+      )}
     </div>
   )
 }
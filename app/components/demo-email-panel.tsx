@@ -0,0 +1,336 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Eye, EyeOff, Languages, Loader2, Mail, RotateCw } from "lucide-react"
+import { useRole } from "@/lib/providers/role-provider"
+import { demoService, apiUtils, type DemoDetail, type DemoEmail, type EmailDeliveryLogEntry } from "@/lib/services"
+import { isNotificationCurrent, type NotificationType } from "@/lib/demo-workflow"
+import { DEMO_FEEDBACK_PERMISSIONS } from "@/lib/permissions"
+import { EMAIL_LOCALES, EMAIL_LOCALE_NAMES, resolveEmailLocale, type EmailLocale } from "@/lib/services/email-templates"
+
+const NOTIFICATION_LABELS: Record<NotificationType, string> = {
+  liked: "Liked email",
+  rejected: "Rejection email",
+  approved: "Approval email",
+}
+
+const LOG_EVENT_LABELS: Record<EmailDeliveryLogEntry["event"], string> = {
+  queued: "Queued",
+  duplicate: "Already sent, not sent again",
+  sent: "Delivered",
+  failed: "Delivery failed",
+  resend: "Resend requested",
+  cancelled: "Cancelled, the action was undone",
+}
+
+function formatDateTime(value: string): string {
+  return new Date(value).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" })
+}
+
+// Waiting for its scheduled send time, no attempt made yet
+function isScheduled(email: DemoEmail): boolean {
+  return email.status === "pending" && email.attempts === 0 && !!email.next_attempt_at
+}
+
+/**
+ * One-line delivery state of an artist email
+ */
+function describeEmail(email: DemoEmail): { text: string; className: string } {
+  switch (email.status) {
+    case "sent":
+      return {
+        text: `${NOTIFICATION_LABELS[email.notification]} sent ${email.sent_at ? formatDateTime(email.sent_at) : ""}`.trim(),
+        className: "text-green-700 dark:text-green-400",
+      }
+    case "failed":
+      return {
+        text: `${NOTIFICATION_LABELS[email.notification]} failed after ${email.attempts} attempts${email.last_error ? `: ${email.last_error}` : ""}`,
+        className: "text-red-600 dark:text-red-400",
+      }
+    case "sending":
+      return { text: `${NOTIFICATION_LABELS[email.notification]} sending...`, className: "text-muted-foreground" }
+    case "cancelled":
+      return { text: `${NOTIFICATION_LABELS[email.notification]} cancelled, not sent`, className: "text-muted-foreground" }
+    default:
+      if (isScheduled(email)) {
+        return {
+          text: `${NOTIFICATION_LABELS[email.notification]} scheduled for ${formatDateTime(email.next_attempt_at!)}${email.notification === "rejected" ? ", Undo Reject cancels it" : ""}`,
+          className: "text-blue-700 dark:text-blue-400",
+        }
+      }
+      return {
+        text: `${NOTIFICATION_LABELS[email.notification]} pending${email.next_attempt_at && email.attempts > 0 ? `, next try ${formatDateTime(email.next_attempt_at)}` : ""}`,
+        className: "text-yellow-700 dark:text-yellow-400",
+      }
+  }
+}
+
+interface ResendButtonProps {
+  email: DemoEmail
+  // Where the demo is now, a cancelled email is only offered again if it still matches
+  demoState: string
+  onResent: (email: DemoEmail) => void
+  onError?: (message: string) => void
+}
+
+function ResendButton({ email, demoState, onResent, onError }: ResendButtonProps) {
+  const { can } = useRole()
+  const [sending, setSending] = useState(false)
+
+  if (!can("emails:resend")) return null
+  // E.g. the rejection email after Undo Reject
+  if (email.status === "cancelled" && !isNotificationCurrent(email.notification, demoState)) return null
+
+  const handleResend = async () => {
+    try {
+      setSending(true)
+      const response = await demoService.resendDemoEmail(email.demo_id, email.email_id)
+      onResent(response.data.email)
+    } catch (resendError) {
+      console.error("Error resending email:", resendError)
+      onError?.(apiUtils.getErrorMessage(resendError))
+    } finally {
+      setSending(false)
+    }
+  }
+
+  return (
+    <Button
+      size="sm"
+      variant="ghost"
+      className="h-7 px-2 text-muted-foreground"
+      onClick={handleResend}
+      disabled={sending || email.status === "sending"}
+    >
+      {sending ? <Loader2 className="w-3 h-3 mr-1 animate-spin" /> : <RotateCw className="w-3 h-3 mr-1" />}
+      {isScheduled(email) || email.status === "cancelled" ? "Send now" : "Resend"}
+    </Button>
+  )
+}
+
+/**
+ * The email as it was sent, with what the owner added when approving
+ */
+function RenderedEmail({ email }: { email: DemoEmail }) {
+  const [open, setOpen] = useState(false)
+
+  if (!email.rendered) return null
+
+  return (
+    <div className="mt-2">
+      <Button size="sm" variant="ghost" className="h-7 px-2 text-muted-foreground" onClick={() => setOpen(prev => !prev)}>
+        {open ? <EyeOff className="w-3 h-3 mr-1" /> : <Eye className="w-3 h-3 mr-1" />}
+        {open ? "Hide email" : "View email"}
+      </Button>
+      {open && (
+        <div className="mt-2 space-y-2">
+          <p className="text-sm">
+            <span className="text-muted-foreground">Subject:</span>{" "}
+            <span className="font-medium text-foreground">{email.rendered.subject}</span>
+          </p>
+          {email.rendered.locale && (
+            <p className="text-xs text-muted-foreground">Sent in {EMAIL_LOCALE_NAMES[email.rendered.locale]}</p>
+          )}
+          {email.reply_to && <p className="text-xs text-muted-foreground">Replies go to {email.reply_to}</p>}
+          {/* Sandboxed so the email's markup and styles cannot affect the dashboard */}
+          <iframe
+            title="Sent email"
+            sandbox=""
+            srcDoc={email.rendered.html_body}
+            className="w-full h-[400px] rounded-md border bg-white"
+          />
+        </div>
+      )}
+    </div>
+  )
+}
+
+interface DemoEmailStatusProps {
+  email: DemoEmail
+  demoState: string
+  onResent: (email: DemoEmail) => void
+}
+
+/**
+ * Delivery state of the latest artist email, shown on the demo card
+ */
+export function DemoEmailStatus({ email, demoState, onResent }: DemoEmailStatusProps) {
+  const [error, setError] = useState<string | null>(null)
+  const { text, className } = describeEmail(email)
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-xs">
+      <span className={`flex items-center gap-1 ${className}`}>
+        <Mail className="w-3 h-3" />
+        {text}
+      </span>
+      <ResendButton
+        email={email}
+        demoState={demoState}
+        onResent={(updated) => {
+          setError(null)
+          onResent(updated)
+        }}
+        onError={setError}
+      />
+      {error && <span className="text-red-600 dark:text-red-400">{error}</span>}
+    </div>
+  )
+}
+
+// Select value for following the submitted locale
+const AUTOMATIC_LOCALE = "auto"
+
+interface DemoEmailLanguageProps {
+  demo: DemoDetail
+  onChanged: (override: EmailLocale | null) => void
+}
+
+/**
+ * Language the artist is emailed in: the locale from the submission, or one set here
+ */
+export function DemoEmailLanguage({ demo, onChanged }: DemoEmailLanguageProps) {
+  const { can } = useRole()
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const canEdit = DEMO_FEEDBACK_PERMISSIONS.some(permission => can(permission))
+  const submittedLocale = resolveEmailLocale(demo.locale)
+
+  const handleChange = async (value: string) => {
+    const locale = value === AUTOMATIC_LOCALE ? null : (value as EmailLocale)
+    try {
+      setSaving(true)
+      setError(null)
+      const response = await demoService.setDemoEmailLocale(demo.demo_id, locale)
+      onChanged(response.data.email_locale_override)
+    } catch (saveError) {
+      console.error("Error setting email language:", saveError)
+      setError(apiUtils.getErrorMessage(saveError))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="mb-4 space-y-1">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <Languages className="w-4 h-4 text-muted-foreground" />
+        <span className="text-muted-foreground">Email language</span>
+        <Select
+          value={demo.email_locale_override || AUTOMATIC_LOCALE}
+          onValueChange={handleChange}
+          disabled={!canEdit || saving}
+        >
+          <SelectTrigger className="w-56">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={AUTOMATIC_LOCALE}>
+              Automatic ({EMAIL_LOCALE_NAMES[submittedLocale]})
+            </SelectItem>
+            {EMAIL_LOCALES.map(locale => (
+              <SelectItem key={locale} value={locale}>
+                {EMAIL_LOCALE_NAMES[locale]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {saving && <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {demo.locale ? `Submitted with locale "${demo.locale}".` : "No locale was submitted."} Languages without a
+        translation of a text use English for it.
+      </p>
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+    </div>
+  )
+}
+
+interface DemoEmailLogProps {
+  demoId: string
+  demoState: string
+}
+
+/**
+ * Every email sent to the artist of a demo with its delivery log, oldest first
+ */
+export function DemoEmailLog({ demoId, demoState }: DemoEmailLogProps) {
+  const [emails, setEmails] = useState<DemoEmail[]>([])
+  const [log, setLog] = useState<EmailDeliveryLogEntry[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchEmails = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+      const response = await demoService.getDemoEmails(demoId)
+      setEmails(response.data.emails)
+      setLog(response.data.log)
+    } catch (fetchError) {
+      console.error("Error fetching demo emails:", fetchError)
+      setError(apiUtils.getErrorMessage(fetchError))
+    } finally {
+      setLoading(false)
+    }
+  }, [demoId])
+
+  useEffect(() => {
+    fetchEmails()
+  }, [fetchEmails])
+
+  if (loading && emails.length === 0) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Loader2 className="w-4 h-4 animate-spin" />
+        Loading emails...
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+      {emails.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No emails sent to the artist yet.</p>
+      ) : (
+        emails.map(email => {
+          const { text, className } = describeEmail(email)
+          const entries = log.filter(entry => entry.email_id === email.email_id)
+          return (
+            <div key={email.email_id} className="rounded-lg border p-3">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <p className={`flex items-center gap-1 text-sm ${className}`}>
+                  <Mail className="w-4 h-4" />
+                  {text}
+                </p>
+                {/* Reload so the new log entries show up as well */}
+                <ResendButton email={email} demoState={demoState} onResent={() => fetchEmails()} onError={setError} />
+              </div>
+              <p className="text-xs text-muted-foreground mt-1">
+                To {email.to}
+                {email.resend_count > 0 && ` · resent ${email.resend_count} time${email.resend_count === 1 ? "" : "s"}`}
+              </p>
+              {entries.length > 0 && (
+                <ol className="mt-2 space-y-1 text-xs text-muted-foreground">
+                  {entries.map((entry, index) => (
+                    <li key={`${entry.timestamp}-${index}`}>
+                      {formatDateTime(entry.timestamp)}: {LOG_EVENT_LABELS[entry.event]}
+                      {entry.event === "failed" && entry.attempt > 0 && ` (attempt ${entry.attempt})`}
+                      {entry.event === "queued" && entry.next_attempt_at && ` for ${formatDateTime(entry.next_attempt_at)}`}
+                      {entry.actor_name && ` by ${entry.actor_name}`}
+                      {entry.error && `: ${entry.error}`}
+                    </li>
+                  ))}
+                </ol>
+              )}
+              <RenderedEmail email={email} />
+            </div>
+          )
+        })
+      )}
+    </div>
+  )
+}
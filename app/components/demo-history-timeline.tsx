@@ -0,0 +1,51 @@
+"use client"
+
+import { Mail } from "lucide-react"
+import type { DemoHistoryEntry } from "@/lib/services"
+import { DEMO_WORKFLOW } from "@/lib/demo-workflow"
+
+interface DemoHistoryTimelineProps {
+  history: DemoHistoryEntry[]
+}
+
+/**
+ * Review history of a demo as a vertical timeline, oldest first
+ */
+export function DemoHistoryTimeline({ history }: DemoHistoryTimelineProps) {
+  return (
+    <ol className="relative border-l border-border ml-2 space-y-3">
+      {history.map((entry, index) => (
+        <li key={`${entry.timestamp}-${index}`} className="ml-4">
+          <div className="absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full bg-primary/60 border border-background" />
+          <p className="text-sm text-foreground">
+            <span className="font-medium">{entry.actor_name || entry.actor_id}</span>
+            {" "}({entry.role === "owner" ? "Label Owner" : "Assistant"})
+            {" "}{entry.action.replace("_", " ")}:{" "}
+            {DEMO_WORKFLOW.states[entry.from_status]?.label || entry.from_status}
+            {" → "}
+            {DEMO_WORKFLOW.states[entry.to_status]?.label || entry.to_status}
+          </p>
+          <div className="flex items-center gap-3 text-xs text-muted-foreground">
+            <span>{new Date(entry.timestamp).toLocaleString()}</span>
+            {entry.email_status && (
+              <span className="flex items-center gap-1">
+                <Mail className="w-3 h-3" />
+                {entry.email_status.notification_sent
+                  ? "Artist emailed"
+                  : entry.email_status.cancelled
+                    ? "Pending artist email cancelled"
+                  : entry.email_status.duplicate
+                    ? "Artist email already queued earlier, not sent again"
+                  : entry.email_status.scheduled_for
+                    ? `Artist email scheduled for ${new Date(entry.email_status.scheduled_for).toLocaleString()}`
+                  : entry.email_status.email_id
+                    ? "Email not delivered at the time, retried from the outbox"
+                    : `Email failed${entry.email_status.error ? `: ${entry.email_status.error}` : ""}`}
+              </span>
+            )}
+          </div>
+        </li>
+      ))}
+    </ol>
+  )
+}
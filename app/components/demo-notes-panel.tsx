@@ -0,0 +1,241 @@
+"use client"
+
+import { useCallback, useState, useEffect } from "react"
+import { useAuth } from "@clerk/nextjs"
+import { Button } from "@/components/ui/button"
+import { Loader2, MessageSquare, Reply, Edit2, Trash2 } from "lucide-react"
+import { demoService, type DemoNote, apiUtils } from "@/lib/services"
+
+interface DemoNotesPanelProps {
+  demoId: string
+  // Changing this value reloads the notes (e.g. after a note was sent with an action)
+  refreshKey?: number
+}
+
+/**
+ * Internal reviewer notes for a demo, threaded one level deep
+ * Notes are visible to the label team only and are never included in artist emails
+ */
+export function DemoNotesPanel({ demoId, refreshKey = 0 }: DemoNotesPanelProps) {
+  const { userId } = useAuth()
+  const [isOpen, setIsOpen] = useState(false)
+  const [notes, setNotes] = useState<DemoNote[]>([])
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [draft, setDraft] = useState("")
+  const [replyTo, setReplyTo] = useState<string | null>(null)
+  const [replyDraft, setReplyDraft] = useState("")
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editDraft, setEditDraft] = useState("")
+
+  const fetchNotes = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+      const response = await demoService.getDemoNotes(demoId)
+      setNotes(response.data.notes)
+    } catch (fetchError) {
+      console.error("Error fetching demo notes:", fetchError)
+      setError(apiUtils.getErrorMessage(fetchError))
+    } finally {
+      setLoading(false)
+    }
+  }, [demoId])
+
+  useEffect(() => {
+    if (isOpen) {
+      fetchNotes()
+    }
+  }, [isOpen, refreshKey, fetchNotes])
+
+  const handleAdd = async (text: string, parentId?: string) => {
+    if (!text.trim()) return
+
+    try {
+      setSaving(true)
+      setError(null)
+      await demoService.addDemoNote(demoId, text.trim(), parentId)
+      if (parentId) {
+        setReplyTo(null)
+        setReplyDraft("")
+      } else {
+        setDraft("")
+      }
+      await fetchNotes()
+    } catch (saveError) {
+      console.error("Error adding demo note:", saveError)
+      setError(apiUtils.getErrorMessage(saveError))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleUpdate = async (noteId: string) => {
+    if (!editDraft.trim()) return
+
+    try {
+      setSaving(true)
+      setError(null)
+      await demoService.updateDemoNote(demoId, noteId, editDraft.trim())
+      setEditingId(null)
+      setEditDraft("")
+      await fetchNotes()
+    } catch (saveError) {
+      console.error("Error updating demo note:", saveError)
+      setError(apiUtils.getErrorMessage(saveError))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (noteId: string) => {
+    try {
+      setSaving(true)
+      setError(null)
+      await demoService.deleteDemoNote(demoId, noteId)
+      await fetchNotes()
+    } catch (deleteError) {
+      console.error("Error deleting demo note:", deleteError)
+      setError(apiUtils.getErrorMessage(deleteError))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const rootNotes = notes.filter(note => !note.parent_id)
+  const repliesFor = (noteId: string) => notes.filter(note => note.parent_id === noteId)
+
+  const renderNote = (note: DemoNote, isReply: boolean) => (
+    <div key={note.note_id} className={isReply ? "ml-6 mt-2 pl-3 border-l border-border" : "mt-3"}>
+      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+        <span className="font-medium text-foreground">{note.author_name || note.author_id}</span>
+        <span>{new Date(note.created_at).toLocaleString()}</span>
+        {note.updated_at !== note.created_at && <span>(edited)</span>}
+      </div>
+      {editingId === note.note_id ? (
+        <div className="mt-1 space-y-2">
+          <textarea
+            value={editDraft}
+            onChange={(e) => setEditDraft(e.target.value)}
+            className="w-full min-h-[60px] rounded-md border border-input bg-background px-3 py-2 text-sm"
+          />
+          <div className="flex gap-2">
+            <Button size="sm" onClick={() => handleUpdate(note.note_id)} disabled={saving || !editDraft.trim()}>
+              Save
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => setEditingId(null)} disabled={saving}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <p className="text-sm text-foreground whitespace-pre-wrap">{note.body}</p>
+      )}
+      <div className="flex gap-1 mt-1">
+        {!isReply && (
+          <Button
+            size="sm"
+            variant="ghost"
+            className="h-7 px-2 text-xs text-muted-foreground"
+            onClick={() => {
+              setReplyTo(note.note_id)
+              setReplyDraft("")
+            }}
+          >
+            <Reply className="w-3 h-3 mr-1" />
+            Reply
+          </Button>
+        )}
+        {note.author_id === userId && editingId !== note.note_id && (
+          <>
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-7 px-2 text-xs text-muted-foreground"
+              onClick={() => {
+                setEditingId(note.note_id)
+                setEditDraft(note.body)
+              }}
+            >
+              <Edit2 className="w-3 h-3 mr-1" />
+              Edit
+            </Button>
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-7 px-2 text-xs text-red-600 dark:text-red-400"
+              onClick={() => handleDelete(note.note_id)}
+              disabled={saving}
+            >
+              <Trash2 className="w-3 h-3 mr-1" />
+              Delete
+            </Button>
+          </>
+        )}
+      </div>
+      {!isReply && repliesFor(note.note_id).map(reply => renderNote(reply, true))}
+      {!isReply && replyTo === note.note_id && (
+        <div className="ml-6 mt-2 space-y-2">
+          <textarea
+            value={replyDraft}
+            onChange={(e) => setReplyDraft(e.target.value)}
+            placeholder="Write a reply..."
+            className="w-full min-h-[50px] rounded-md border border-input bg-background px-3 py-2 text-sm"
+          />
+          <div className="flex gap-2">
+            <Button size="sm" onClick={() => handleAdd(replyDraft, note.note_id)} disabled={saving || !replyDraft.trim()}>
+              Reply
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => setReplyTo(null)} disabled={saving}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+
+  return (
+    <div className="mt-4 pt-4 border-t border-border">
+      <Button
+        size="sm"
+        variant="ghost"
+        className="text-muted-foreground"
+        onClick={() => setIsOpen(!isOpen)}
+      >
+        <MessageSquare className="w-4 h-4 mr-1" />
+        {isOpen ? "Hide notes" : `Internal notes${notes.length ? ` (${notes.length})` : ""}`}
+      </Button>
+      {isOpen && (
+        <div className="mt-2">
+          {loading && notes.length === 0 ? (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="w-4 h-4 animate-spin" />
+              Loading notes...
+            </div>
+          ) : rootNotes.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No notes yet.</p>
+          ) : (
+            rootNotes.map(note => renderNote(note, false))
+          )}
+
+          <div className="mt-3 space-y-2">
+            <textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              placeholder='e.g. "Great drop at 1:45, weak intro"'
+              className="w-full min-h-[60px] rounded-md border border-input bg-background px-3 py-2 text-sm"
+            />
+            <Button size="sm" onClick={() => handleAdd(draft)} disabled={saving || !draft.trim()}>
+              {saving && <Loader2 className="w-4 h-4 mr-1 animate-spin" />}
+              Add note
+            </Button>
+          </div>
+
+          {error && <p className="text-sm text-red-600 dark:text-red-400 mt-2">{error}</p>}
+        </div>
+      )}
+    </div>
+  )
+}
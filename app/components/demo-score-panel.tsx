@@ -0,0 +1,158 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { useAuth } from "@clerk/nextjs"
+import { Button } from "@/components/ui/button"
+import { Loader2, Star } from "lucide-react"
+import { demoService, apiUtils } from "@/lib/services"
+import {
+  MAX_SCORE,
+  SCORE_CRITERIA,
+  type DemoScore,
+  type DemoScoreSummary,
+  type ScoreCriterion,
+} from "@/lib/demo-scoring"
+
+interface DemoScorePanelProps {
+  demoId: string
+  summary?: DemoScoreSummary | null
+  onSaved?: (summary: DemoScoreSummary) => void
+}
+
+/**
+ * Average score badge with the per-criterion breakdown, plus a form for the
+ * current reviewer to rate the demo on each criterion
+ */
+export function DemoScorePanel({ demoId, summary, onSaved }: DemoScorePanelProps) {
+  const { userId } = useAuth()
+  const [isOpen, setIsOpen] = useState(false)
+  const [reviews, setReviews] = useState<DemoScore[]>([])
+  const [draft, setDraft] = useState<Partial<Record<ScoreCriterion, number>>>({})
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!isOpen) return
+
+    const fetchScores = async () => {
+      try {
+        setLoading(true)
+        setError(null)
+        const response = await demoService.getDemoScores(demoId)
+        setReviews(response.data.scores)
+        const ownScore = response.data.scores.find(score => score.reviewer_id === userId)
+        setDraft(ownScore ? ownScore.scores : {})
+      } catch (fetchError) {
+        console.error("Error fetching demo scores:", fetchError)
+        setError(apiUtils.getErrorMessage(fetchError))
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchScores()
+  }, [isOpen, demoId, userId])
+
+  const isComplete = SCORE_CRITERIA.every(({ key }) => typeof draft[key] === "number")
+
+  const handleSave = async () => {
+    if (!isComplete) return
+
+    try {
+      setSaving(true)
+      setError(null)
+      const response = await demoService.saveDemoScore(demoId, draft as Record<ScoreCriterion, number>)
+      setReviews(prev => [
+        ...prev.filter(score => score.reviewer_id !== response.data.score.reviewer_id),
+        response.data.score,
+      ])
+      onSaved?.(response.data.summary)
+    } catch (saveError) {
+      console.error("Error saving demo scores:", saveError)
+      setError(apiUtils.getErrorMessage(saveError))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="mt-4 pt-4 border-t border-border">
+      <div className="flex items-center gap-3">
+        <Button
+          size="sm"
+          variant="ghost"
+          className="text-muted-foreground"
+          onClick={() => setIsOpen(!isOpen)}
+        >
+          <Star className="w-4 h-4 mr-1" />
+          {isOpen ? "Hide scores" : "Score"}
+        </Button>
+        {summary && summary.average !== null ? (
+          <span className="text-sm text-foreground">
+            <span className="font-semibold">{summary.average.toFixed(1)}</span>
+            <span className="text-muted-foreground"> / {MAX_SCORE} from {summary.count} {summary.count === 1 ? "reviewer" : "reviewers"}</span>
+          </span>
+        ) : (
+          <span className="text-sm text-muted-foreground">Not scored yet</span>
+        )}
+      </div>
+
+      {isOpen && (
+        <div className="mt-2 space-y-3">
+          {loading ? (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="w-4 h-4 animate-spin" />
+              Loading scores...
+            </div>
+          ) : (
+            <>
+              {SCORE_CRITERIA.map(({ key, label }) => (
+                <div key={key} className="flex items-center gap-3">
+                  <span className="w-24 text-sm text-foreground">{label}</span>
+                  <div className="flex gap-1">
+                    {Array.from({ length: MAX_SCORE }, (_, i) => i + 1).map(value => (
+                      <button
+                        key={value}
+                        type="button"
+                        aria-label={`${label} ${value}`}
+                        onClick={() => setDraft(prev => ({ ...prev, [key]: value }))}
+                        className="p-0.5"
+                      >
+                        <Star
+                          className={`w-4 h-4 ${
+                            (draft[key] || 0) >= value
+                              ? "fill-amber-400 text-amber-400"
+                              : "text-muted-foreground"
+                          }`}
+                        />
+                      </button>
+                    ))}
+                  </div>
+                  {summary?.criteria[key] !== null && summary?.criteria[key] !== undefined && (
+                    <span className="text-xs text-muted-foreground">avg {summary.criteria[key]!.toFixed(1)}</span>
+                  )}
+                </div>
+              ))}
+              <Button size="sm" onClick={handleSave} disabled={saving || !isComplete}>
+                {saving && <Loader2 className="w-4 h-4 mr-1 animate-spin" />}
+                Save my scores
+              </Button>
+              {reviews.length > 0 && (
+                <ul className="text-xs text-muted-foreground space-y-1">
+                  {reviews.map(review => (
+                    <li key={review.reviewer_id}>
+                      {review.reviewer_name || review.reviewer_id}:{" "}
+                      {SCORE_CRITERIA.map(({ key, label }) => `${label} ${review.scores[key]}`).join(", ")}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </>
+          )}
+          {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+        </div>
+      )}
+    </div>
+  )
+}
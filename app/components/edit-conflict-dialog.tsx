@@ -0,0 +1,74 @@
+"use client"
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { AlertTriangle, Loader2 } from "lucide-react"
+
+interface EditConflictDialogProps {
+  isOpen: boolean
+  // What was being edited, e.g. "artist" or "event"
+  itemLabel: string
+  // Whether the change can be re-applied on top of the other edits
+  canMerge: boolean
+  isMerging?: boolean
+  onReload: () => void
+  onMerge: () => void
+}
+
+/**
+ * Shown when a save is rejected because someone else changed the list in the meantime
+ * The list behind the dialog already shows their changes; the user either drops
+ * their own change (reload) or applies it again on top (merge)
+ */
+export function EditConflictDialog({
+  isOpen,
+  itemLabel,
+  canMerge,
+  isMerging = false,
+  onReload,
+  onMerge,
+}: EditConflictDialogProps) {
+  return (
+    <Dialog open={isOpen} onOpenChange={open => !open && !isMerging && onReload()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <div className="flex items-center gap-3 mb-2">
+            <div className="p-2 rounded-full bg-gray-50 text-amber-600">
+              <AlertTriangle className="w-6 h-6" />
+            </div>
+            <DialogTitle className="text-xl">Someone else edited this</DialogTitle>
+          </div>
+          <DialogDescription className="text-left text-base">
+            {canMerge
+              ? `The ${itemLabel}s were changed by someone else while you were working. Reload to see their changes and discard yours, or apply your change on top of theirs.`
+              : `The ${itemLabel} you were working on was changed or removed by someone else. Reload to see the latest version.`}
+          </DialogDescription>
+        </DialogHeader>
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={onReload} disabled={isMerging}>
+            Reload
+          </Button>
+          {canMerge && (
+            <Button onClick={onMerge} disabled={isMerging}>
+              {isMerging ? (
+                <>
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  Applying...
+                </>
+              ) : (
+                "Apply my change"
+              )}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,191 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Loader2 } from "lucide-react"
+
+type EmailDeliveryMode = "immediate" | "delay" | "daily"
+
+interface EmailDeliverySettingsValue {
+  mode: EmailDeliveryMode
+  delay_minutes: number
+  daily_time: string
+  timezone: string
+}
+
+const MODE_OPTIONS: { mode: EmailDeliveryMode; label: string; description: string }[] = [
+  { mode: "immediate", label: "Immediately", description: "Emails go out as soon as a demo is liked, rejected or approved" },
+  { mode: "delay", label: "After a delay", description: "Gives time to undo a rejection before the artist is emailed" },
+  { mode: "daily", label: "Once a day", description: "All emails of the day go out together at a fixed time" },
+]
+
+interface EmailDeliverySettingsProps {
+  canEdit: boolean
+}
+
+/**
+ * When artist notification emails are sent after an action
+ */
+export function EmailDeliverySettings({ canEdit }: EmailDeliverySettingsProps) {
+  const [settings, setSettings] = useState<EmailDeliverySettingsValue | null>(null)
+  const [draft, setDraft] = useState<EmailDeliverySettingsValue | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchSettings = async () => {
+      try {
+        setError(null)
+
+        const response = await fetch("/api/settings/email-delivery")
+        const data = await response.json()
+
+        if (!response.ok) {
+          throw new Error(data?.error || "Failed to load settings")
+        }
+
+        setSettings(data.settings)
+        setDraft(data.settings)
+      } catch (fetchError) {
+        console.error("Error fetching email delivery settings:", fetchError)
+        setError(fetchError instanceof Error ? fetchError.message : "Failed to load settings")
+      }
+    }
+
+    fetchSettings()
+  }, [])
+
+  const handleSave = async () => {
+    if (!draft) return
+    try {
+      setIsSaving(true)
+      setError(null)
+
+      const response = await fetch("/api/settings/email-delivery", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        // The daily time is entered in the owner's own time zone
+        body: JSON.stringify({
+          ...draft,
+          timezone: draft.mode === "daily" ? Intl.DateTimeFormat().resolvedOptions().timeZone : draft.timezone,
+        }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data?.error || "Failed to update setting")
+      }
+
+      setSettings(data.settings)
+      setDraft(data.settings)
+    } catch (updateError) {
+      console.error("Error updating email delivery settings:", updateError)
+      setError(updateError instanceof Error ? updateError.message : "Failed to update setting")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const isDirty = !!draft && !!settings && JSON.stringify(draft) !== JSON.stringify(settings)
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Email Delivery</CardTitle>
+        <CardDescription>
+          When artists are emailed after an action. Emails that have not gone out yet are cancelled when the action is undone.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!draft ? (
+          error ? (
+            <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+          ) : (
+            <div className="flex items-center gap-2 text-muted-foreground">
+              <Loader2 className="w-4 h-4 animate-spin" />
+              Loading current setting...
+            </div>
+          )
+        ) : (
+          <>
+            <div className="space-y-3">
+              {MODE_OPTIONS.map(option => (
+                <label key={option.mode} className="flex items-start gap-2 text-sm cursor-pointer">
+                  <input
+                    type="radio"
+                    name="email_delivery_mode"
+                    checked={draft.mode === option.mode}
+                    onChange={() => setDraft({ ...draft, mode: option.mode })}
+                    disabled={!canEdit || isSaving}
+                    className="mt-0.5 h-4 w-4 accent-primary"
+                  />
+                  <span>
+                    <span className="font-medium text-foreground">{option.label}</span>
+                    <span className="block text-xs text-muted-foreground">{option.description}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+
+            {draft.mode === "delay" && (
+              <div className="space-y-2 max-w-xs">
+                <Label htmlFor="delay_minutes">Delay in minutes</Label>
+                <Input
+                  id="delay_minutes"
+                  type="number"
+                  min={1}
+                  max={1440}
+                  value={draft.delay_minutes}
+                  onChange={(e) => setDraft({ ...draft, delay_minutes: Number(e.target.value) })}
+                  disabled={!canEdit || isSaving}
+                />
+              </div>
+            )}
+
+            {draft.mode === "daily" && (
+              <div className="space-y-2 max-w-xs">
+                <Label htmlFor="daily_time">Send at</Label>
+                <Input
+                  id="daily_time"
+                  type="time"
+                  value={draft.daily_time}
+                  onChange={(e) => setDraft({ ...draft, daily_time: e.target.value })}
+                  disabled={!canEdit || isSaving}
+                />
+                {settings?.mode === "daily" && (
+                  <p className="text-xs text-muted-foreground">Time zone: {settings.timezone}</p>
+                )}
+              </div>
+            )}
+
+            {draft.mode !== "immediate" && (
+              <p className="text-xs text-muted-foreground">
+                Scheduled emails are sent by a job that runs every few minutes, so they may go out a little later.
+              </p>
+            )}
+
+            {canEdit ? (
+              <Button onClick={handleSave} disabled={isSaving || !isDirty}>
+                {isSaving ? (
+                  <>
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    Saving...
+                  </>
+                ) : (
+                  "Save"
+                )}
+              </Button>
+            ) : (
+              <p className="text-sm text-muted-foreground">Only the label owner can change this.</p>
+            )}
+
+            {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
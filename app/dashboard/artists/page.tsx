@@ -18,8 +18,11 @@ import {
   ConfirmationDialog,
 } from '@/components/ui/confirmation-dialog'
 import { Users, Plus, Trash2, Edit2, Instagram, Music, ExternalLink, Loader2 } from 'lucide-react'
+import { EditConflictDialog } from '../../components/edit-conflict-dialog'
+import { useRole } from '@/lib/providers/role-provider'
 
 interface Artist {
+  artist_id: string
   artist_name: string
   artist_instagram_username: string
   artist_soundcloud: string
@@ -29,16 +32,26 @@ interface Artist {
 
 interface ArtistsData {
   artists: Artist[]
+  // Revision of artist_urls.json the list was read at, sent back with edits
+  rev?: string | null
+}
+
+// A save or delete rejected because the list changed; target is the artist as it was when the edit started
+interface EditConflict {
+  operation: 'save' | 'delete'
+  target: Artist | null
 }
 
 export default function ArtistsPage() {
+  const { can } = useRole()
+  const canWrite = can('artists:write')
   const [artists, setArtists] = useState<Artist[]>([])
   const [loading, setLoading] = useState(true)
   const [isDialogOpen, setIsDialogOpen] = useState(false)
   const [isEditing, setIsEditing] = useState(false)
-  const [editingIndex, setEditingIndex] = useState<number | null>(null)
+  const [editingId, setEditingId] = useState<string | null>(null)
   const [isDeleting, setIsDeleting] = useState(false)
-  const [deleteIndex, setDeleteIndex] = useState<number | null>(null)
+  const [deleteId, setDeleteId] = useState<string | null>(null)
   const [formData, setFormData] = useState({
     artist_name: '',
     artist_instagram_username: '',
@@ -48,6 +61,9 @@ export default function ArtistsPage() {
   })
   const [formErrors, setFormErrors] = useState<Record<string, string>>({})
   const [isSubmitting, setIsSubmitting] = useState(false)
+  const [rev, setRev] = useState<string | null>(null)
+  const [conflict, setConflict] = useState<EditConflict | null>(null)
+  const [isMerging, setIsMerging] = useState(false)
 
   // Fetch artists on mount
   useEffect(() => {
@@ -63,6 +79,7 @@ export default function ArtistsPage() {
       }
       const data: ArtistsData = await response.json()
       setArtists(data.artists || [])
+      setRev(data.rev ?? null)
     } catch (error) {
       console.error('Error fetching artists:', error)
     } finally {
@@ -143,7 +160,7 @@ export default function ArtistsPage() {
 
   const openAddDialog = () => {
     setIsEditing(false)
-    setEditingIndex(null)
+    setEditingId(null)
     setFormData({
       artist_name: '',
       artist_instagram_username: '',
@@ -155,10 +172,9 @@ export default function ArtistsPage() {
     setIsDialogOpen(true)
   }
 
-  const openEditDialog = (index: number) => {
-    const artist = artists[index]
+  const openEditDialog = (artist: Artist) => {
     setIsEditing(true)
-    setEditingIndex(index)
+    setEditingId(artist.artist_id)
     setFormData({
       artist_name: artist.artist_name,
       artist_instagram_username: artist.artist_instagram_username,
@@ -173,7 +189,7 @@ export default function ArtistsPage() {
   const closeDialog = () => {
     setIsDialogOpen(false)
     setIsEditing(false)
-    setEditingIndex(null)
+    setEditingId(null)
     setFormData({
       artist_name: '',
       artist_instagram_username: '',
@@ -184,6 +200,65 @@ export default function ArtistsPage() {
     setFormErrors({})
   }
 
+  // Show the latest list from a 409 response and ask how to resolve the conflict
+  // The form is hidden but keeps its values so the change can be applied again
+  const showConflict = (data: ArtistsData, editConflict: EditConflict) => {
+    setArtists(data.artists || [])
+    setRev(data.rev ?? null)
+    setIsDialogOpen(false)
+    setConflict(editConflict)
+  }
+
+  /**
+   * Save the form as a new artist (artistId null) or over an existing artist
+   * Returns false when the save was rejected because the list changed
+   */
+  const saveArtist = async (artistId: string | null): Promise<boolean> => {
+    const response = await fetch(artistId ? `/api/artists/${artistId}` : '/api/artists', {
+      method: artistId ? 'PUT' : 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(artistId ? { ...formData, rev } : formData),
+    })
+    const data = await response.json()
+
+    if (response.status === 409 && data.conflict) {
+      showConflict(data, { operation: 'save', target: artists.find(item => item.artist_id === artistId) || null })
+      return false
+    }
+
+    if (!response.ok) {
+      throw new Error(data.error || (artistId ? 'Failed to update artist' : 'Failed to add artist'))
+    }
+
+    setRev(data.rev ?? null)
+    return true
+  }
+
+  /**
+   * Delete an artist, returns false when rejected because the list changed
+   */
+  const deleteArtist = async (artistId: string): Promise<boolean> => {
+    const response = await fetch(`/api/artists/${artistId}?rev=${encodeURIComponent(rev || '')}`, {
+      method: 'DELETE',
+    })
+
+    if (response.status === 409) {
+      const data = await response.json()
+      if (data.conflict) {
+        showConflict(data, { operation: 'delete', target: artists.find(item => item.artist_id === artistId) || null })
+        return false
+      }
+    }
+
+    if (!response.ok) {
+      throw new Error('Failed to delete artist')
+    }
+
+    return true
+  }
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
 
@@ -193,39 +268,9 @@ export default function ArtistsPage() {
 
     try {
       setIsSubmitting(true)
-      
-      if (isEditing && editingIndex !== null) {
-        // Update existing artist
-        const response = await fetch('/api/artists', {
-          method: 'PUT',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            index: editingIndex,
-            ...formData,
-          }),
-        })
-
-        if (!response.ok) {
-          const error = await response.json()
-          throw new Error(error.error || 'Failed to update artist')
-        }
-      } else {
-        // Add new artist
-        const response = await fetch('/api/artists', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify(formData),
-        })
-
-        if (!response.ok) {
-          const error = await response.json()
-          throw new Error(error.error || 'Failed to add artist')
-        }
-      }
+
+      const saved = await saveArtist(isEditing ? editingId : null)
+      if (!saved) return
 
       closeDialog()
       
@@ -239,25 +284,20 @@ export default function ArtistsPage() {
     }
   }
 
-  const handleDeleteClick = (index: number) => {
-    setDeleteIndex(index)
+  const handleDeleteClick = (artistId: string) => {
+    setDeleteId(artistId)
     setIsDeleting(true)
   }
 
   const handleDeleteConfirm = async () => {
-    if (deleteIndex === null) return
+    if (deleteId === null) return
 
     try {
-      const response = await fetch(`/api/artists?index=${deleteIndex}`, {
-        method: 'DELETE',
-      })
-
-      if (!response.ok) {
-        throw new Error('Failed to delete artist')
-      }
+      const deleted = await deleteArtist(deleteId)
 
       setIsDeleting(false)
-      setDeleteIndex(null)
+      setDeleteId(null)
+      if (!deleted) return
       
       // Refresh artists list
       await fetchArtists()
@@ -265,13 +305,50 @@ export default function ArtistsPage() {
       console.error('Error deleting artist:', error)
       alert('Failed to delete artist')
       setIsDeleting(false)
-      setDeleteIndex(null)
+      setDeleteId(null)
     }
   }
 
+  const artistToDelete = artists.find(artist => artist.artist_id === deleteId)
+
   const handleDeleteCancel = () => {
     setIsDeleting(false)
-    setDeleteIndex(null)
+    setDeleteId(null)
+  }
+
+  // A rejected change to an existing artist can only be re-applied while nobody else changed or removed that artist
+  const conflictTarget = conflict?.target
+    ? artists.find(artist => artist.artist_id === conflict.target!.artist_id)
+    : null
+  const canMerge = !conflict?.target ||
+    (!!conflictTarget && JSON.stringify(conflictTarget) === JSON.stringify(conflict.target))
+
+  const handleConflictReload = () => {
+    setConflict(null)
+    closeDialog()
+  }
+
+  // Apply the rejected change again on top of the latest list
+  const handleConflictMerge = async () => {
+    if (!conflict || !canMerge) return
+
+    try {
+      setIsMerging(true)
+      const targetId = conflict.target?.artist_id || null
+      const applied = conflict.operation === 'delete'
+        ? await deleteArtist(targetId!)
+        : await saveArtist(targetId)
+      if (!applied) return
+
+      setConflict(null)
+      closeDialog()
+      await fetchArtists()
+    } catch (error) {
+      console.error('Error applying artist change:', error)
+      alert(error instanceof Error ? error.message : 'Failed to apply your change')
+    } finally {
+      setIsMerging(false)
+    }
   }
 
   return (
@@ -283,10 +360,12 @@ export default function ArtistsPage() {
             <h1 className="text-3xl font-bold text-foreground">Artists</h1>
             <p className="text-muted-foreground mt-1">Manage your artists</p>
           </div>
-          <Button onClick={openAddDialog}>
-            <Plus className="w-4 h-4 mr-2" />
-            Add Artist
-          </Button>
+          {canWrite && (
+            <Button onClick={openAddDialog}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add Artist
+            </Button>
+          )}
         </div>
 
         {/* Loading State */}
@@ -308,10 +387,12 @@ export default function ArtistsPage() {
               <p className="text-muted-foreground mb-4">
                 Get started by adding your first artist.
               </p>
-              <Button onClick={openAddDialog}>
-                <Plus className="w-4 h-4 mr-2" />
-                Add Artist
-              </Button>
+              {canWrite && (
+                <Button onClick={openAddDialog}>
+                  <Plus className="w-4 h-4 mr-2" />
+                  Add Artist
+                </Button>
+              )}
             </CardContent>
           </Card>
         )}
@@ -319,8 +400,8 @@ export default function ArtistsPage() {
         {/* Artists List */}
         {!loading && artists.length > 0 && (
           <div className="grid gap-4">
-            {artists.map((artist, index) => (
-              <Card key={index}>
+            {artists.map((artist) => (
+              <Card key={artist.artist_id}>
                 <CardContent className="p-6">
                   <div className="flex items-start justify-between">
                     <div className="flex-1">
@@ -382,24 +463,26 @@ export default function ArtistsPage() {
                         </div>
                       </div>
                     </div>
-                    <div className="flex items-center gap-2">
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={() => openEditDialog(index)}
-                        className="text-blue-600 dark:text-blue-400 border-blue-600 dark:border-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20"
-                      >
-                        <Edit2 className="w-4 h-4" />
-                      </Button>
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={() => handleDeleteClick(index)}
-                        className="text-red-600 dark:text-red-400 border-red-600 dark:border-red-400 hover:bg-red-50 dark:hover:bg-red-900/20"
-                      >
-                        <Trash2 className="w-4 h-4" />
-                      </Button>
-                    </div>
+                    {canWrite && (
+                      <div className="flex items-center gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => openEditDialog(artist)}
+                          className="text-blue-600 dark:text-blue-400 border-blue-600 dark:border-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20"
+                        >
+                          <Edit2 className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleDeleteClick(artist.artist_id)}
+                          className="text-red-600 dark:text-red-400 border-red-600 dark:border-red-400 hover:bg-red-50 dark:hover:bg-red-900/20"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    )}
                   </div>
                 </CardContent>
               </Card>
@@ -525,7 +608,7 @@ export default function ArtistsPage() {
         </Dialog>
 
         {/* Delete Confirmation Dialog */}
-        {isDeleting && deleteIndex !== null && (
+        {isDeleting && deleteId !== null && (
           <ConfirmationDialog
             isOpen={isDeleting}
             onClose={handleDeleteCancel}
@@ -533,13 +616,23 @@ export default function ArtistsPage() {
               handleDeleteConfirm()
             }}
             title="Delete Artist"
-            description={`Are you sure you want to delete "${artists[deleteIndex]?.artist_name}"? This action cannot be undone.`}
+            description={`Are you sure you want to delete "${artistToDelete?.artist_name}"? This action cannot be undone.`}
             confirmText="Delete"
             type="destructive"
-            trackTitle={artists[deleteIndex]?.artist_name}
+            trackTitle={artistToDelete?.artist_name}
             isLoading={false}
           />
         )}
+
+        {/* Concurrent Edit Dialog */}
+        <EditConflictDialog
+          isOpen={conflict !== null}
+          itemLabel="artist"
+          canMerge={canMerge}
+          isMerging={isMerging}
+          onReload={handleConflictReload}
+          onMerge={handleConflictMerge}
+        />
       </div>
     </DashboardLayout>
   )
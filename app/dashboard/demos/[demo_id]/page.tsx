@@ -0,0 +1,204 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { useParams } from "next/navigation"
+import { DashboardLayout } from "../../../components/dashboard-layout"
+import { DemoScorePanel } from "../../../components/demo-score-panel"
+import { DemoNotesPanel } from "../../../components/demo-notes-panel"
+import { DemoHistoryTimeline } from "../../../components/demo-history-timeline"
+import { DemoEmailLanguage, DemoEmailLog } from "../../../components/demo-email-panel"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { ArrowLeft, CalendarDays, ExternalLink, FileAudio, Loader2, Mail, User } from "lucide-react"
+import { demoService, apiUtils, type DemoDetail, type DemoHistoryEntry } from "@/lib/services"
+import { DEMO_WORKFLOW } from "@/lib/demo-workflow"
+import { resolveEmailLocale } from "@/lib/services/email-templates"
+
+/**
+ * Submitters enter either a full URL or a handle; build a profile link from either
+ */
+function socialUrl(value: string | null, baseUrl: string): string | null {
+  if (!value || !value.trim()) return null
+  const trimmed = value.trim()
+  if (/^https?:\/\//i.test(trimmed)) return trimmed
+  if (/^[\w.-]+\.[a-z]{2,}\//i.test(trimmed)) return `https://${trimmed}`
+  return `${baseUrl}${encodeURIComponent(trimmed.replace(/^@/, ""))}`
+}
+
+function formatFileSize(bytes: number | null): string {
+  if (bytes === null) return "Unknown size"
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+export default function DemoDetailPage() {
+  const { demo_id: demoId } = useParams<{ demo_id: string }>()
+  const [demo, setDemo] = useState<DemoDetail | null>(null)
+  const [history, setHistory] = useState<DemoHistoryEntry[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchDemo = async () => {
+      try {
+        setIsLoading(true)
+        setError(null)
+        const response = await demoService.getDemo(demoId)
+        setDemo(response.data.demo)
+        setHistory(response.data.history)
+      } catch (fetchError) {
+        console.error("Error fetching demo:", fetchError)
+        setError(apiUtils.getErrorMessage(fetchError))
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    fetchDemo()
+  }, [demoId])
+
+  const socialLinks = demo
+    ? [
+        { label: "Instagram", url: socialUrl(demo.instagram_username, "https://instagram.com/") },
+        { label: "Beatport", url: socialUrl(demo.beatport, "https://www.beatport.com/search?q=") },
+        { label: "Facebook", url: socialUrl(demo.facebook, "https://facebook.com/") },
+        { label: "X / Twitter", url: socialUrl(demo.x_twitter, "https://x.com/") },
+      ].filter((link): link is { label: string; url: string } => !!link.url)
+    : []
+
+  return (
+    <DashboardLayout>
+      <div className="max-w-4xl mx-auto space-y-6">
+        <Link href="/dashboard" className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground">
+          <ArrowLeft className="w-4 h-4" />
+          Back to demos
+        </Link>
+
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-muted-foreground">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Loading demo...
+          </div>
+        ) : error || !demo ? (
+          <div className="p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded">
+            <p className="text-red-700 dark:text-red-300">Failed to load demo: {error || "Demo not found"}</p>
+          </div>
+        ) : (
+          <>
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <h1 className="text-3xl font-bold text-foreground">{demo.track_title}</h1>
+                <p className="text-lg text-muted-foreground">{demo.artist_name}</p>
+              </div>
+              <Badge>{DEMO_WORKFLOW.states[demo.status]?.label || demo.status}</Badge>
+            </div>
+
+            <Card>
+              <CardContent className="p-6">
+                <audio controls className="w-full" preload="metadata">
+                  <source src={demo.shared_link} type={demo.file.format === "wav" ? "audio/wav" : "audio/mpeg"} />
+                  Your browser does not support the audio element.
+                </audio>
+                <div className="flex flex-wrap items-center gap-4 mt-3 text-sm text-muted-foreground">
+                  <span className="flex items-center gap-1">
+                    <FileAudio className="w-4 h-4" />
+                    {demo.file.format?.toUpperCase() || "Unknown format"} · {formatFileSize(demo.file.size)}
+                  </span>
+                  <span className="flex items-center gap-1">
+                    <CalendarDays className="w-4 h-4" />
+                    Submitted: {demo.submitted_at}
+                  </span>
+                  {demo.shared_link && (
+                    <a
+                      href={demo.shared_link}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="flex items-center gap-1 text-primary hover:text-primary/80 transition-colors"
+                    >
+                      <ExternalLink className="w-4 h-4" />
+                      Open in Dropbox
+                    </a>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Artist</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <p className="flex items-center gap-2 text-sm text-foreground">
+                  <User className="w-4 h-4 text-muted-foreground" />
+                  {demo.full_name || demo.artist_name}
+                </p>
+                <p className="flex items-center gap-2 text-sm">
+                  <Mail className="w-4 h-4 text-muted-foreground" />
+                  <a href={`mailto:${demo.email}`} className="text-primary hover:text-primary/80">{demo.email}</a>
+                </p>
+                {socialLinks.length > 0 ? (
+                  <div className="flex flex-wrap gap-3">
+                    {socialLinks.map(link => (
+                      <a
+                        key={link.label}
+                        href={link.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="flex items-center gap-1 text-sm text-primary hover:text-primary/80"
+                      >
+                        <ExternalLink className="w-4 h-4" />
+                        {link.label}
+                      </a>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-sm text-muted-foreground">No social profiles provided.</p>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardContent className="p-6 pt-2">
+                <DemoScorePanel
+                  demoId={demo.demo_id}
+                  summary={demo.score}
+                  onSaved={(summary) => setDemo(prev => (prev ? { ...prev, score: summary } : prev))}
+                />
+                <DemoNotesPanel demoId={demo.demo_id} />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Review history</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {history.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No review actions recorded yet.</p>
+                ) : (
+                  <DemoHistoryTimeline history={history} />
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Artist emails</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <DemoEmailLanguage
+                  demo={demo}
+                  onChanged={(override) => setDemo(prev => (prev
+                    ? { ...prev, email_locale_override: override, email_locale: override || resolveEmailLocale(prev.locale) }
+                    : prev))}
+                />
+                <DemoEmailLog demoId={demo.demo_id} demoState={demo.status} />
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </DashboardLayout>
+  )
+}
@@ -18,8 +18,11 @@ import {
   ConfirmationDialog,
 } from '@/components/ui/confirmation-dialog'
 import { Calendar, Plus, Trash2, Edit2, MapPin, Users as UsersIcon, CalendarDays, Clock, Loader2, ExternalLink, Instagram } from 'lucide-react'
+import { EditConflictDialog } from '../../components/edit-conflict-dialog'
+import { useRole } from '@/lib/providers/role-provider'
 
 interface Event {
+  event_id: string
   event_title: string
   location: string
   date: string
@@ -31,16 +34,26 @@ interface Event {
 
 interface EventsData {
   events: Event[]
+  // Revision of events.json the list was read at, sent back with edits
+  rev?: string | null
+}
+
+// A save or delete rejected because the list changed; target is the event as it was when the edit started
+interface EditConflict {
+  operation: 'save' | 'delete'
+  target: Event | null
 }
 
 export default function EventsPage() {
+  const { can } = useRole()
+  const canWrite = can('events:write')
   const [events, setEvents] = useState<Event[]>([])
   const [loading, setLoading] = useState(true)
   const [isDialogOpen, setIsDialogOpen] = useState(false)
   const [isEditing, setIsEditing] = useState(false)
-  const [editingIndex, setEditingIndex] = useState<number | null>(null)
+  const [editingId, setEditingId] = useState<string | null>(null)
   const [isDeleting, setIsDeleting] = useState(false)
-  const [deleteIndex, setDeleteIndex] = useState<number | null>(null)
+  const [deleteId, setDeleteId] = useState<string | null>(null)
   const [formData, setFormData] = useState({
     event_title: '',
     location: '',
@@ -52,6 +65,9 @@ export default function EventsPage() {
   })
   const [formErrors, setFormErrors] = useState<Record<string, string>>({})
   const [isSubmitting, setIsSubmitting] = useState(false)
+  const [rev, setRev] = useState<string | null>(null)
+  const [conflict, setConflict] = useState<EditConflict | null>(null)
+  const [isMerging, setIsMerging] = useState(false)
 
   // Fetch events on mount
   useEffect(() => {
@@ -67,6 +83,7 @@ export default function EventsPage() {
       }
       const data: EventsData = await response.json()
       setEvents(data.events || [])
+      setRev(data.rev ?? null)
     } catch (error) {
       console.error('Error fetching events:', error)
     } finally {
@@ -151,7 +168,7 @@ export default function EventsPage() {
 
   const openAddDialog = () => {
     setIsEditing(false)
-    setEditingIndex(null)
+    setEditingId(null)
     setFormData({
       event_title: '',
       location: '',
@@ -165,10 +182,9 @@ export default function EventsPage() {
     setIsDialogOpen(true)
   }
 
-  const openEditDialog = (index: number) => {
-    const event = events[index]
+  const openEditDialog = (event: Event) => {
     setIsEditing(true)
-    setEditingIndex(index)
+    setEditingId(event.event_id)
     setFormData({
       event_title: event.event_title,
       location: event.location,
@@ -185,7 +201,7 @@ export default function EventsPage() {
   const closeDialog = () => {
     setIsDialogOpen(false)
     setIsEditing(false)
-    setEditingIndex(null)
+    setEditingId(null)
     setFormData({
       event_title: '',
       location: '',
@@ -198,6 +214,65 @@ export default function EventsPage() {
     setFormErrors({})
   }
 
+  // Show the latest list from a 409 response and ask how to resolve the conflict
+  // The form is hidden but keeps its values so the change can be applied again
+  const showConflict = (data: EventsData, editConflict: EditConflict) => {
+    setEvents(data.events || [])
+    setRev(data.rev ?? null)
+    setIsDialogOpen(false)
+    setConflict(editConflict)
+  }
+
+  /**
+   * Save the form as a new event (eventId null) or over an existing event
+   * Returns false when the save was rejected because the list changed
+   */
+  const saveEvent = async (eventId: string | null): Promise<boolean> => {
+    const response = await fetch(eventId ? `/api/events/${eventId}` : '/api/events', {
+      method: eventId ? 'PUT' : 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(eventId ? { ...formData, rev } : formData),
+    })
+    const data = await response.json()
+
+    if (response.status === 409 && data.conflict) {
+      showConflict(data, { operation: 'save', target: events.find(item => item.event_id === eventId) || null })
+      return false
+    }
+
+    if (!response.ok) {
+      throw new Error(data.error || (eventId ? 'Failed to update event' : 'Failed to add event'))
+    }
+
+    setRev(data.rev ?? null)
+    return true
+  }
+
+  /**
+   * Delete an event, returns false when rejected because the list changed
+   */
+  const deleteEvent = async (eventId: string): Promise<boolean> => {
+    const response = await fetch(`/api/events/${eventId}?rev=${encodeURIComponent(rev || '')}`, {
+      method: 'DELETE',
+    })
+
+    if (response.status === 409) {
+      const data = await response.json()
+      if (data.conflict) {
+        showConflict(data, { operation: 'delete', target: events.find(item => item.event_id === eventId) || null })
+        return false
+      }
+    }
+
+    if (!response.ok) {
+      throw new Error('Failed to delete event')
+    }
+
+    return true
+  }
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
 
@@ -207,39 +282,9 @@ export default function EventsPage() {
 
     try {
       setIsSubmitting(true)
-      
-      if (isEditing && editingIndex !== null) {
-        // Update existing event
-        const response = await fetch('/api/events', {
-          method: 'PUT',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            index: editingIndex,
-            ...formData,
-          }),
-        })
-
-        if (!response.ok) {
-          const error = await response.json()
-          throw new Error(error.error || 'Failed to update event')
-        }
-      } else {
-        // Add new event
-        const response = await fetch('/api/events', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify(formData),
-        })
-
-        if (!response.ok) {
-          const error = await response.json()
-          throw new Error(error.error || 'Failed to add event')
-        }
-      }
+
+      const saved = await saveEvent(isEditing ? editingId : null)
+      if (!saved) return
 
       closeDialog()
       
@@ -253,25 +298,20 @@ export default function EventsPage() {
     }
   }
 
-  const handleDeleteClick = (index: number) => {
-    setDeleteIndex(index)
+  const handleDeleteClick = (eventId: string) => {
+    setDeleteId(eventId)
     setIsDeleting(true)
   }
 
   const handleDeleteConfirm = async () => {
-    if (deleteIndex === null) return
+    if (deleteId === null) return
 
     try {
-      const response = await fetch(`/api/events?index=${deleteIndex}`, {
-        method: 'DELETE',
-      })
-
-      if (!response.ok) {
-        throw new Error('Failed to delete event')
-      }
+      const deleted = await deleteEvent(deleteId)
 
       setIsDeleting(false)
-      setDeleteIndex(null)
+      setDeleteId(null)
+      if (!deleted) return
       
       // Refresh events list
       await fetchEvents()
@@ -279,13 +319,50 @@ export default function EventsPage() {
       console.error('Error deleting event:', error)
       alert('Failed to delete event')
       setIsDeleting(false)
-      setDeleteIndex(null)
+      setDeleteId(null)
     }
   }
 
+  const eventToDelete = events.find(event => event.event_id === deleteId)
+
   const handleDeleteCancel = () => {
     setIsDeleting(false)
-    setDeleteIndex(null)
+    setDeleteId(null)
+  }
+
+  // A rejected change to an existing event can only be re-applied while nobody else changed or removed that event
+  const conflictTarget = conflict?.target
+    ? events.find(event => event.event_id === conflict.target!.event_id)
+    : null
+  const canMerge = !conflict?.target ||
+    (!!conflictTarget && JSON.stringify(conflictTarget) === JSON.stringify(conflict.target))
+
+  const handleConflictReload = () => {
+    setConflict(null)
+    closeDialog()
+  }
+
+  // Apply the rejected change again on top of the latest list
+  const handleConflictMerge = async () => {
+    if (!conflict || !canMerge) return
+
+    try {
+      setIsMerging(true)
+      const targetId = conflict.target?.event_id || null
+      const applied = conflict.operation === 'delete'
+        ? await deleteEvent(targetId!)
+        : await saveEvent(targetId)
+      if (!applied) return
+
+      setConflict(null)
+      closeDialog()
+      await fetchEvents()
+    } catch (error) {
+      console.error('Error applying event change:', error)
+      alert(error instanceof Error ? error.message : 'Failed to apply your change')
+    } finally {
+      setIsMerging(false)
+    }
   }
 
   return (
@@ -297,10 +374,12 @@ export default function EventsPage() {
             <h1 className="text-3xl font-bold text-foreground">Events</h1>
             <p className="text-muted-foreground mt-1">Manage your events</p>
           </div>
-          <Button onClick={openAddDialog}>
-            <Plus className="w-4 h-4 mr-2" />
-            Add Event
-          </Button>
+          {canWrite && (
+            <Button onClick={openAddDialog}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add Event
+            </Button>
+          )}
         </div>
 
         {/* Loading State */}
@@ -322,10 +401,12 @@ export default function EventsPage() {
               <p className="text-muted-foreground mb-4">
                 Get started by adding your first event.
               </p>
-              <Button onClick={openAddDialog}>
-                <Plus className="w-4 h-4 mr-2" />
-                Add Event
-              </Button>
+              {canWrite && (
+                <Button onClick={openAddDialog}>
+                  <Plus className="w-4 h-4 mr-2" />
+                  Add Event
+                </Button>
+              )}
             </CardContent>
           </Card>
         )}
@@ -333,8 +414,8 @@ export default function EventsPage() {
         {/* Events List */}
         {!loading && events.length > 0 && (
           <div className="grid gap-4">
-            {events.map((event, index) => (
-              <Card key={index}>
+            {events.map((event) => (
+              <Card key={event.event_id}>
                 <CardContent className="p-6">
                   <div className="flex items-start justify-between">
                     <div className="flex-1">
@@ -386,24 +467,26 @@ export default function EventsPage() {
                         )}
                       </div>
                     </div>
-                    <div className="flex items-center gap-2">
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={() => openEditDialog(index)}
-                        className="text-blue-600 dark:text-blue-400 border-blue-600 dark:border-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20"
-                      >
-                        <Edit2 className="w-4 h-4" />
-                      </Button>
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={() => handleDeleteClick(index)}
-                        className="text-red-600 dark:text-red-400 border-red-600 dark:border-red-400 hover:bg-red-50 dark:hover:bg-red-900/20"
-                      >
-                        <Trash2 className="w-4 h-4" />
-                      </Button>
-                    </div>
+                    {canWrite && (
+                      <div className="flex items-center gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => openEditDialog(event)}
+                          className="text-blue-600 dark:text-blue-400 border-blue-600 dark:border-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20"
+                        >
+                          <Edit2 className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleDeleteClick(event.event_id)}
+                          className="text-red-600 dark:text-red-400 border-red-600 dark:border-red-400 hover:bg-red-50 dark:hover:bg-red-900/20"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    )}
                   </div>
                 </CardContent>
               </Card>
@@ -556,7 +639,7 @@ export default function EventsPage() {
         </Dialog>
 
         {/* Delete Confirmation Dialog */}
-        {isDeleting && deleteIndex !== null && (
+        {isDeleting && deleteId !== null && (
           <ConfirmationDialog
             isOpen={isDeleting}
             onClose={handleDeleteCancel}
@@ -564,13 +647,23 @@ export default function EventsPage() {
               handleDeleteConfirm()
             }}
             title="Delete Event"
-            description={`Are you sure you want to delete "${events[deleteIndex]?.event_title}"? This action cannot be undone.`}
+            description={`Are you sure you want to delete "${eventToDelete?.event_title}"? This action cannot be undone.`}
             confirmText="Delete"
             type="destructive"
-            trackTitle={events[deleteIndex]?.event_title}
+            trackTitle={eventToDelete?.event_title}
             isLoading={false}
           />
         )}
+
+        {/* Concurrent Edit Dialog */}
+        <EditConflictDialog
+          isOpen={conflict !== null}
+          itemLabel="event"
+          canMerge={canMerge}
+          isMerging={isMerging}
+          onReload={handleConflictReload}
+          onMerge={handleConflictMerge}
+        />
       </div>
     </DashboardLayout>
   )
@@ -0,0 +1,403 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import Link from "next/link"
+import { DashboardLayout } from "../../../components/dashboard-layout"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { ArrowLeft, Loader2, RotateCcw, Save, Send } from "lucide-react"
+import { useRole } from "@/lib/providers/role-provider"
+import {
+  DEFAULT_EMAIL_LOCALE,
+  EMAIL_ALLOWED_TAGS,
+  EMAIL_LOCALES,
+  EMAIL_LOCALE_NAMES,
+  EMAIL_PLACEHOLDERS,
+  EMAIL_PREVIEW_VALUES,
+  EMAIL_TEMPLATE_FIELDS,
+  getBaseEmailCopy,
+  renderEmailTemplate,
+  type EmailLocale,
+  type EmailTemplateType,
+} from "@/lib/services/email-templates"
+
+interface EmailTemplateOverride {
+  type: EmailTemplateType
+  locale: EmailLocale
+  fields: Record<string, string>
+  updated_at: string
+  updated_by: string | null
+}
+
+// The owner's changes by language and email type, as returned by the API
+type Overrides = Partial<Record<EmailLocale, Partial<Record<EmailTemplateType, EmailTemplateOverride>>>>
+
+type Drafts = Record<EmailLocale, Record<EmailTemplateType, Record<string, string>>>
+
+const TEMPLATE_OPTIONS: { type: EmailTemplateType; label: string; description: string }[] = [
+  { type: "liked", label: "Liked", description: "Sent when an assistant likes a demo" },
+  { type: "rejected", label: "Rejected", description: "Sent when a demo is rejected" },
+  { type: "approved", label: "Approved", description: "Sent when the owner approves a demo" },
+]
+
+// What a language shows without edits of its own: the default copy, or the English edit of a field
+function baseCopy(type: EmailTemplateType, locale: EmailLocale, overrides: Overrides): Record<string, string> {
+  return { ...(getBaseEmailCopy(type, locale, overrides[DEFAULT_EMAIL_LOCALE]?.[type]?.fields) as Record<string, string>) }
+}
+
+function savedCopy(type: EmailTemplateType, locale: EmailLocale, overrides: Overrides): Record<string, string> {
+  return { ...baseCopy(type, locale, overrides), ...overrides[locale]?.[type]?.fields }
+}
+
+function buildDrafts(overrides: Overrides): Drafts {
+  return Object.fromEntries(
+    EMAIL_LOCALES.map(locale => [
+      locale,
+      Object.fromEntries(TEMPLATE_OPTIONS.map(({ type }) => [type, savedCopy(type, locale, overrides)])),
+    ])
+  ) as Drafts
+}
+
+export default function EmailTemplatesPage() {
+  const { can } = useRole()
+  const canEdit = can("settings:write")
+  const [selectedType, setSelectedType] = useState<EmailTemplateType>("liked")
+  const [selectedLocale, setSelectedLocale] = useState<EmailLocale>(DEFAULT_EMAIL_LOCALE)
+  const [overrides, setOverrides] = useState<Overrides>({})
+  const [drafts, setDrafts] = useState<Drafts>(() => buildDrafts({}))
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [isSendingTest, setIsSendingTest] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchTemplates = async () => {
+      try {
+        setIsLoading(true)
+        setError(null)
+
+        const response = await fetch("/api/settings/email-templates")
+        const data = await response.json()
+
+        if (!response.ok) {
+          throw new Error(data?.error || "Failed to load email templates")
+        }
+
+        setOverrides(data.templates || {})
+        setDrafts(buildDrafts(data.templates || {}))
+      } catch (fetchError) {
+        console.error("Error fetching email templates:", fetchError)
+        setError(fetchError instanceof Error ? fetchError.message : "Failed to load email templates")
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    fetchTemplates()
+  }, [])
+
+  const draft = drafts[selectedLocale][selectedType]
+  const saved = savedCopy(selectedType, selectedLocale, overrides)
+  const isDirty = Object.keys(draft).some(key => draft[key] !== saved[key])
+  const templateUrl = `/api/settings/email-templates/${selectedType}`
+  const localeQuery = `?locale=${selectedLocale}`
+
+  // Rendered through the same template functions the emails are sent with
+  const preview = useMemo(
+    () => renderEmailTemplate(
+      selectedType,
+      EMAIL_PREVIEW_VALUES.artist_name,
+      EMAIL_PREVIEW_VALUES.track_title,
+      "preview",
+      draft,
+      undefined,
+      selectedLocale
+    ),
+    [selectedType, selectedLocale, draft]
+  )
+
+  const setDraft = (fields: Record<string, string>) => {
+    setDrafts(prev => ({ ...prev, [selectedLocale]: { ...prev[selectedLocale], [selectedType]: fields } }))
+  }
+
+  const setOverride = (override: EmailTemplateOverride | undefined) => {
+    const next = { ...overrides, [selectedLocale]: { ...overrides[selectedLocale], [selectedType]: override } }
+    setOverrides(next)
+
+    // The other languages fall back to the English edits: show the new ones where nothing is being edited
+    if (selectedLocale === DEFAULT_EMAIL_LOCALE) {
+      setDrafts(prev => Object.fromEntries(
+        EMAIL_LOCALES.map(locale => {
+          const current = prev[locale][selectedType]
+          const before = savedCopy(selectedType, locale, overrides)
+          const unchanged = locale !== DEFAULT_EMAIL_LOCALE && Object.keys(current).every(key => current[key] === before[key])
+          return [locale, unchanged ? { ...prev[locale], [selectedType]: savedCopy(selectedType, locale, next) } : prev[locale]]
+        })
+      ) as Drafts)
+    }
+  }
+
+  const updateField = (key: string, value: string) => {
+    setDraft({ ...draft, [key]: value })
+    setNotice(null)
+  }
+
+  const selectType = (type: EmailTemplateType) => {
+    setSelectedType(type)
+    setError(null)
+    setNotice(null)
+  }
+
+  const selectLocale = (locale: EmailLocale) => {
+    setSelectedLocale(locale)
+    setError(null)
+    setNotice(null)
+  }
+
+  const handleSave = async () => {
+    try {
+      setIsSaving(true)
+      setError(null)
+      setNotice(null)
+
+      const response = await fetch(`${templateUrl}${localeQuery}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ fields: draft }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data?.error || "Failed to save the template")
+      }
+
+      setOverride(data.template || undefined)
+      setNotice("Saved. Emails sent from now on use this copy.")
+    } catch (saveError) {
+      console.error("Error saving email template:", saveError)
+      setError(saveError instanceof Error ? saveError.message : "Failed to save the template")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleReset = async () => {
+    try {
+      setIsSaving(true)
+      setError(null)
+      setNotice(null)
+
+      const response = await fetch(`${templateUrl}${localeQuery}`, { method: "DELETE" })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data?.error || "Failed to reset the template")
+      }
+
+      setOverride(undefined)
+      setDraft(baseCopy(selectedType, selectedLocale, overrides))
+      setNotice("Back to the default copy.")
+    } catch (resetError) {
+      console.error("Error resetting email template:", resetError)
+      setError(resetError instanceof Error ? resetError.message : "Failed to reset the template")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleSendTest = async () => {
+    try {
+      setIsSendingTest(true)
+      setError(null)
+      setNotice(null)
+
+      const response = await fetch(`${templateUrl}/test${localeQuery}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ fields: draft }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data?.details || data?.error || "Failed to send the test email")
+      }
+
+      setNotice(`Test email sent to ${data.sent_to}.`)
+    } catch (testError) {
+      console.error("Error sending test email:", testError)
+      setError(testError instanceof Error ? testError.message : "Failed to send the test email")
+    } finally {
+      setIsSendingTest(false)
+    }
+  }
+
+  const override = overrides[selectedLocale]?.[selectedType]
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div>
+          <Link href="/dashboard/settings" className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground">
+            <ArrowLeft className="w-4 h-4" />
+            Back to settings
+          </Link>
+          <h1 className="text-3xl font-bold text-foreground mt-2">Artist Emails</h1>
+          <p className="text-muted-foreground mt-1">
+            Change the wording of the emails artists receive. Use{" "}
+            {EMAIL_PLACEHOLDERS.map((placeholder, index) => (
+              <span key={placeholder}>
+                {index > 0 && " and "}
+                <code className="text-xs bg-muted rounded px-1 py-0.5">{`{{${placeholder}}}`}</code>
+              </span>
+            ))}{" "}
+            to insert the artist and track names. Formatting is limited to{" "}
+            {EMAIL_ALLOWED_TAGS.map((tag, index) => (
+              <span key={tag}>
+                {index > 0 && ", "}
+                <code className="text-xs bg-muted rounded px-1 py-0.5">{`<${tag}>`}</code>
+              </span>
+            ))}
+            ; any other markup, links included, is shown as plain text.
+          </p>
+          <p className="text-muted-foreground mt-1">
+            Artists are emailed in the language of their submission, or the one set on the demo page.
+            Each language is edited separately. A text you have not changed in a language uses your
+            English version of it if you changed that, otherwise the built-in translation (English where there is none).
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex flex-wrap gap-2">
+            {EMAIL_LOCALES.map(locale => (
+              <Button
+                key={locale}
+                size="sm"
+                variant={selectedLocale === locale ? "secondary" : "ghost"}
+                onClick={() => selectLocale(locale)}
+              >
+                {EMAIL_LOCALE_NAMES[locale]}
+                {overrides[locale] && Object.values(overrides[locale]!).some(Boolean) && (
+                  <Badge variant="outline" className="ml-2">Edited</Badge>
+                )}
+              </Button>
+            ))}
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {TEMPLATE_OPTIONS.map(option => (
+              <Button
+                key={option.type}
+                variant={selectedType === option.type ? "default" : "outline"}
+                onClick={() => selectType(option.type)}
+              >
+                {option.label}
+                {overrides[selectedLocale]?.[option.type] && <Badge variant="secondary" className="ml-2">Edited</Badge>}
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-muted-foreground">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Loading templates...
+          </div>
+        ) : (
+          <div className="grid gap-6 lg:grid-cols-2">
+            <Card>
+              <CardHeader>
+                <CardTitle>
+                  {TEMPLATE_OPTIONS.find(option => option.type === selectedType)?.label} email ({EMAIL_LOCALE_NAMES[selectedLocale]})
+                </CardTitle>
+                <CardDescription>
+                  {TEMPLATE_OPTIONS.find(option => option.type === selectedType)?.description}.
+                  {override
+                    ? ` Last changed ${new Date(override.updated_at).toLocaleString()}${override.updated_by ? ` by ${override.updated_by}` : ""}.`
+                    : selectedLocale !== DEFAULT_EMAIL_LOCALE && overrides[DEFAULT_EMAIL_LOCALE]?.[selectedType]
+                      ? " Using the default copy with your English edits."
+                      : " Using the default copy."}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {EMAIL_TEMPLATE_FIELDS[selectedType].map(field => (
+                  <div key={field.key} className="space-y-2">
+                    <Label htmlFor={`field_${field.key}`}>{field.label}</Label>
+                    {field.multiline ? (
+                      <textarea
+                        id={`field_${field.key}`}
+                        value={draft[field.key] ?? ""}
+                        onChange={(e) => updateField(field.key, e.target.value)}
+                        disabled={!canEdit || isSaving}
+                        className="w-full min-h-[90px] rounded-md border border-input bg-background px-3 py-2 text-sm"
+                      />
+                    ) : (
+                      <Input
+                        id={`field_${field.key}`}
+                        value={draft[field.key] ?? ""}
+                        onChange={(e) => updateField(field.key, e.target.value)}
+                        disabled={!canEdit || isSaving}
+                      />
+                    )}
+                  </div>
+                ))}
+
+                {canEdit ? (
+                  <div className="flex flex-wrap gap-2">
+                    <Button onClick={handleSave} disabled={isSaving || !isDirty}>
+                      {isSaving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Save className="w-4 h-4 mr-2" />}
+                      Save
+                    </Button>
+                    <Button variant="outline" onClick={handleSendTest} disabled={isSendingTest}>
+                      {isSendingTest ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Send className="w-4 h-4 mr-2" />}
+                      Send test to me
+                    </Button>
+                    <Button variant="ghost" onClick={handleReset} disabled={isSaving || !override}>
+                      <RotateCcw className="w-4 h-4 mr-2" />
+                      Reset to default
+                    </Button>
+                  </div>
+                ) : (
+                  <p className="text-sm text-muted-foreground">Only the label owner can change this.</p>
+                )}
+
+                {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+                {notice && <p className="text-sm text-green-700 dark:text-green-400">{notice}</p>}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Preview</CardTitle>
+                <CardDescription>
+                  As {EMAIL_PREVIEW_VALUES.artist_name} would receive it for &quot;{EMAIL_PREVIEW_VALUES.track_title}&quot;
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <p className="text-sm">
+                  <span className="text-muted-foreground">Subject:</span>{" "}
+                  <span className="font-medium text-foreground">{preview.subject}</span>
+                </p>
+                {/* Sandboxed so the email's markup and styles cannot affect the dashboard */}
+                <iframe
+                  title="HTML preview"
+                  sandbox=""
+                  srcDoc={preview.htmlBody}
+                  className="w-full h-[480px] rounded-md border bg-white"
+                />
+                <div>
+                  <p className="text-sm text-muted-foreground mb-1">Plain text version</p>
+                  <pre className="whitespace-pre-wrap rounded-md border bg-muted/50 p-3 text-xs text-foreground max-h-[320px] overflow-auto">
+                    {preview.textBody}
+                  </pre>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </div>
+    </DashboardLayout>
+  )
+}
@@ -1,14 +1,19 @@
 "use client"
 
 import { useEffect, useState } from "react"
+import Link from "next/link"
 import { DashboardLayout } from "../../components/dashboard-layout"
+import { EmailDeliverySettings } from "../../components/email-delivery-settings"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
-import { Loader2 } from "lucide-react"
+import { Loader2, Mail } from "lucide-react"
+import { useRole } from "@/lib/providers/role-provider"
 
 const UNAVAILABLE_MESSAGE = "We're currently under high load and will be accepting demos again soon."
 
 export default function SettingsPage() {
+  const { can } = useRole()
+  const canEdit = can("settings:write")
   const [enabled, setEnabled] = useState<boolean>(true)
   const [isLoading, setIsLoading] = useState(true)
   const [isSaving, setIsSaving] = useState(false)
@@ -97,18 +102,22 @@ export default function SettingsPage() {
                       <p className="text-sm text-muted-foreground mt-1">{UNAVAILABLE_MESSAGE}</p>
                     )}
                   </div>
-                  <Button onClick={handleToggle} disabled={isSaving} variant={enabled ? "destructive" : "default"}>
-                    {isSaving ? (
-                      <>
-                        <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                        Saving...
-                      </>
-                    ) : enabled ? (
-                      "Disable"
-                    ) : (
-                      "Enable"
-                    )}
-                  </Button>
+                  {canEdit ? (
+                    <Button onClick={handleToggle} disabled={isSaving} variant={enabled ? "destructive" : "default"}>
+                      {isSaving ? (
+                        <>
+                          <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                          Saving...
+                        </>
+                      ) : enabled ? (
+                        "Disable"
+                      ) : (
+                        "Enable"
+                      )}
+                    </Button>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">Only the label owner can change this.</p>
+                  )}
                 </div>
 
                 {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
@@ -116,6 +125,25 @@ export default function SettingsPage() {
             )}
           </CardContent>
         </Card>
+
+        <EmailDeliverySettings canEdit={canEdit} />
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Artist Emails</CardTitle>
+            <CardDescription>
+              Wording of the liked, rejected and approved emails sent to artists.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button asChild variant="outline">
+              <Link href="/dashboard/settings/emails">
+                <Mail className="w-4 h-4 mr-2" />
+                {canEdit ? "Edit email templates" : "View email templates"}
+              </Link>
+            </Button>
+          </CardContent>
+        </Card>
       </div>
     </DashboardLayout>
   )
@@ -0,0 +1,333 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { DashboardLayout } from "../../components/dashboard-layout"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { ConfirmationDialog } from "@/components/ui/confirmation-dialog"
+import { Loader2, UserPlus, Trash2 } from "lucide-react"
+
+type TeamRole = "owner" | "assistant" | "viewer"
+
+interface TeamMember {
+  member_id: string
+  email: string
+  roles: TeamRole[]
+  status: "invited" | "active"
+  user_id: string | null
+  invited_by: string | null
+  invited_at: string
+  joined_at: string | null
+  name: string | null
+  last_active_at: string | null
+  is_current_user: boolean
+  from_clerk: boolean // roles set in Clerk metadata only, not on the allowlist
+}
+
+const ROLE_OPTIONS: { role: TeamRole; label: string; description: string }[] = [
+  { role: "owner", label: "Label Owner", description: "Final decision on demos, settings and the team" },
+  { role: "assistant", label: "Assistant", description: "First-pass review of submitted demos" },
+  { role: "viewer", label: "Viewer", description: "Read-only access" },
+]
+
+function formatDateTime(value: string | null): string {
+  if (!value) return "Never"
+  return new Date(value).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" })
+}
+
+export default function TeamPage() {
+  const [members, setMembers] = useState<TeamMember[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+
+  const [inviteEmail, setInviteEmail] = useState("")
+  const [inviteRoles, setInviteRoles] = useState<TeamRole[]>(["assistant"])
+  const [isInviting, setIsInviting] = useState(false)
+
+  const [savingId, setSavingId] = useState<string | null>(null)
+  const [revokeId, setRevokeId] = useState<string | null>(null)
+  const [isRevoking, setIsRevoking] = useState(false)
+
+  const memberToRevoke = members.find(member => member.member_id === revokeId)
+
+  useEffect(() => {
+    const fetchTeam = async () => {
+      try {
+        setIsLoading(true)
+        setError(null)
+
+        const response = await fetch("/api/team")
+        const data = await response.json()
+
+        if (!response.ok) {
+          throw new Error(data?.error || "Failed to load the team")
+        }
+
+        setMembers(data.members || [])
+      } catch (fetchError) {
+        console.error("Error fetching team:", fetchError)
+        setError(fetchError instanceof Error ? fetchError.message : "Failed to load the team")
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    fetchTeam()
+  }, [])
+
+  const toggleInviteRole = (role: TeamRole) => {
+    setInviteRoles(prev => (prev.includes(role) ? prev.filter(r => r !== role) : [...prev, role]))
+  }
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault()
+    try {
+      setIsInviting(true)
+      setError(null)
+      setNotice(null)
+
+      const response = await fetch("/api/team", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email: inviteEmail, roles: inviteRoles }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data?.error || "Failed to invite")
+      }
+
+      setMembers(prev => [...prev, data.member])
+      setInviteEmail("")
+      setInviteRoles(["assistant"])
+      setNotice(
+        data.member.status === "active"
+          ? `${data.member.email} already has an account and can sign in now.`
+          : data.invitation_sent
+            ? `Invitation sent to ${data.member.email}.`
+            : `${data.member.email} was added, but the invitation email could not be sent. They can still sign up with this address.`
+      )
+    } catch (inviteError) {
+      console.error("Error inviting team member:", inviteError)
+      setError(inviteError instanceof Error ? inviteError.message : "Failed to invite")
+    } finally {
+      setIsInviting(false)
+    }
+  }
+
+  const handleRoleToggle = async (member: TeamMember, role: TeamRole) => {
+    const roles = member.roles.includes(role)
+      ? member.roles.filter(r => r !== role)
+      : [...member.roles, role]
+    if (roles.length === 0) {
+      setError("A member needs at least one role. Revoke access to remove them.")
+      return
+    }
+
+    try {
+      setSavingId(member.member_id)
+      setError(null)
+      setNotice(null)
+
+      const response = await fetch(`/api/team/${member.member_id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ roles }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data?.error || "Failed to update roles")
+      }
+
+      setMembers(prev => prev.map(m => (m.member_id === member.member_id ? data.member : m)))
+    } catch (updateError) {
+      console.error("Error updating roles:", updateError)
+      setError(updateError instanceof Error ? updateError.message : "Failed to update roles")
+    } finally {
+      setSavingId(null)
+    }
+  }
+
+  const handleRevokeConfirm = async () => {
+    if (!revokeId) return
+    try {
+      setIsRevoking(true)
+      setError(null)
+      setNotice(null)
+
+      const response = await fetch(`/api/team/${revokeId}`, { method: "DELETE" })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data?.error || "Failed to revoke access")
+      }
+
+      setMembers(prev => prev.filter(m => m.member_id !== revokeId))
+      setRevokeId(null)
+    } catch (revokeError) {
+      console.error("Error revoking access:", revokeError)
+      setError(revokeError instanceof Error ? revokeError.message : "Failed to revoke access")
+      setRevokeId(null)
+    } finally {
+      setIsRevoking(false)
+    }
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Team</h1>
+          <p className="text-muted-foreground mt-1">Invite people to the dashboard and choose what they can do</p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Invite</CardTitle>
+            <CardDescription>
+              Only addresses on this list can use the dashboard. People without an account get an invitation email.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleInvite} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="invite_email">Email address</Label>
+                <Input
+                  id="invite_email"
+                  type="email"
+                  value={inviteEmail}
+                  onChange={(e) => setInviteEmail(e.target.value)}
+                  placeholder="name@example.com"
+                  required
+                  disabled={isInviting}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Roles</Label>
+                <div className="flex flex-wrap gap-4">
+                  {ROLE_OPTIONS.map(option => (
+                    <label key={option.role} className="flex items-start gap-2 text-sm cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={inviteRoles.includes(option.role)}
+                        onChange={() => toggleInviteRole(option.role)}
+                        disabled={isInviting}
+                        className="mt-0.5 h-4 w-4 accent-primary"
+                      />
+                      <span>
+                        <span className="font-medium text-foreground">{option.label}</span>
+                        <span className="block text-xs text-muted-foreground">{option.description}</span>
+                      </span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <Button type="submit" disabled={isInviting || inviteRoles.length === 0}>
+                {isInviting ? (
+                  <>
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    Inviting...
+                  </>
+                ) : (
+                  <>
+                    <UserPlus className="w-4 h-4 mr-2" />
+                    Invite
+                  </>
+                )}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+        {notice && <p className="text-sm text-green-700 dark:text-green-400">{notice}</p>}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Members</CardTitle>
+            <CardDescription>Role changes apply within a few minutes, revoking is immediate.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex items-center gap-2 text-muted-foreground">
+                <Loader2 className="w-4 h-4 animate-spin" />
+                Loading team...
+              </div>
+            ) : members.length === 0 ? (
+              <p className="text-muted-foreground">Nobody has been invited yet.</p>
+            ) : (
+              <div className="space-y-3">
+                {members.map(member => (
+                  <div key={member.member_id} className="flex flex-col gap-3 rounded-lg border p-4 md:flex-row md:items-center md:justify-between">
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <p className="font-medium text-foreground truncate">{member.name || member.email}</p>
+                        <Badge variant={member.status === "active" ? "secondary" : "outline"}>
+                          {member.status === "active" ? "Active" : "Invited"}
+                        </Badge>
+                        {member.is_current_user && <Badge variant="outline">You</Badge>}
+                        {member.from_clerk && (
+                          <Badge variant="outline" title="Roles set in Clerk, changing them adds this person to the list">
+                            Set in Clerk
+                          </Badge>
+                        )}
+                      </div>
+                      {member.name && <p className="text-sm text-muted-foreground truncate">{member.email}</p>}
+                      <p className="text-xs text-muted-foreground mt-1">
+                        {member.status === "active"
+                          ? `Last active: ${formatDateTime(member.last_active_at)}`
+                          : `Invited ${formatDateTime(member.invited_at)}${member.invited_by ? ` by ${member.invited_by}` : ""}`}
+                      </p>
+                    </div>
+
+                    <div className="flex flex-wrap items-center gap-4">
+                      {ROLE_OPTIONS.map(option => (
+                        <label key={option.role} className="flex items-center gap-1.5 text-sm cursor-pointer">
+                          <input
+                            type="checkbox"
+                            checked={member.roles.includes(option.role)}
+                            onChange={() => handleRoleToggle(member, option.role)}
+                            disabled={savingId === member.member_id || (member.is_current_user && option.role === "owner")}
+                            className="h-4 w-4 accent-primary"
+                          />
+                          {option.label}
+                        </label>
+                      ))}
+                      {savingId === member.member_id && <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />}
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setRevokeId(member.member_id)}
+                        disabled={member.is_current_user}
+                        className="text-red-600 hover:text-red-700"
+                      >
+                        <Trash2 className="w-4 h-4 mr-1" />
+                        Revoke
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <ConfirmationDialog
+          isOpen={revokeId !== null}
+          onClose={() => setRevokeId(null)}
+          onConfirm={handleRevokeConfirm}
+          title="Revoke Access"
+          description={`${memberToRevoke?.email} will no longer be able to use the dashboard.${memberToRevoke?.status === "invited" ? " The pending invitation is cancelled." : ""}${memberToRevoke?.from_clerk ? " Their roles are removed from Clerk." : ""}`}
+          confirmText="Revoke"
+          type="destructive"
+          isLoading={isRevoking}
+        />
+      </div>
+    </DashboardLayout>
+  )
+}
@@ -24,7 +24,7 @@ export default function RootLayout({
       <html lang="en" suppressHydrationWarning>
         <body className={inter.className}>
           <ThemeProvider defaultTheme="system" storageKey="dashboard-theme">
-            <RoleProvider defaultRole="assistant">
+            <RoleProvider>
               <ClerkApiProvider>
                 {children}
               </ClerkApiProvider>
@@ -1,6 +1,74 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
 import { SignOutButton } from "@clerk/nextjs";
 
+interface AccessCheck {
+  authorized: boolean;
+  email?: string;
+  roles?: string[];
+  invited?: boolean;
+}
+
 export default function UnauthorizedPage() {
+  const [access, setAccess] = useState<AccessCheck | null>(null);
+  const [accepting, setAccepting] = useState(false);
+  const [acceptError, setAcceptError] = useState<string | null>(null);
+
+  // Check against the team allowlist again: the owner may have invited this address since
+  useEffect(() => {
+    fetch("/api/validate-email")
+      .then(response => response.json())
+      .then((data: AccessCheck) => setAccess(data))
+      .catch(error => console.error("Failed to check access:", error));
+  }, []);
+
+  const acceptInvitation = async () => {
+    setAccepting(true);
+    setAcceptError(null);
+    try {
+      const response = await fetch("/api/auth/accept-invite", { method: "POST" });
+      const data = await response.json();
+      if (!response.ok) {
+        setAcceptError(data.error || "Failed to accept the invitation");
+        return;
+      }
+      setAccess(current => ({ ...current, authorized: true, roles: data.roles, invited: false }));
+    } catch (error) {
+      console.error("Failed to accept invitation:", error);
+      setAcceptError("Failed to accept the invitation");
+    } finally {
+      setAccepting(false);
+    }
+  };
+
+  // Access was granted in the meantime
+  if (access?.authorized) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="max-w-md w-full space-y-8 text-center">
+          <div>
+            <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
+              You have access
+            </h2>
+            <p className="mt-2 text-center text-sm text-gray-600">
+              {access.email} is now on the team.
+            </p>
+          </div>
+          <div className="mt-8">
+            <Link
+              href="/dashboard"
+              className="w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-gray-900 hover:bg-gray-800"
+            >
+              Go to the dashboard
+            </Link>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-gray-50">
       <div className="max-w-md w-full space-y-8 text-center">
@@ -14,12 +82,29 @@ export default function UnauthorizedPage() {
             Access Denied
           </h2>
           <p className="mt-2 text-center text-sm text-gray-600">
-            Your email address is not authorized to access this dashboard.
+            {access?.email
+              ? <>{access.email} is not on the team for this dashboard, or your access was revoked.</>
+              : "Your email address is not authorized to access this dashboard."}
           </p>
           <p className="mt-4 text-center text-xs text-gray-500">
-            Please contact your administrator if you believe this is an error.
+            Ask the label owner to invite this address from the Team page, or sign in with the address you were invited with.
           </p>
         </div>
+        {access?.invited && (
+          <div className="mt-8 space-y-2">
+            <p className="text-sm text-gray-700">
+              You have been invited to the team.
+            </p>
+            <button
+              onClick={acceptInvitation}
+              disabled={accepting}
+              className="w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-gray-900 hover:bg-gray-800 disabled:opacity-50"
+            >
+              {accepting ? "Accepting..." : "Accept invitation"}
+            </button>
+            {acceptError && <p className="text-sm text-red-600">{acceptError}</p>}
+          </div>
+        )}
         <div className="mt-8">
           <SignOutButton>
             <button className="w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-red-600 hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500">
@@ -30,4 +115,4 @@ export default function UnauthorizedPage() {
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -3,7 +3,7 @@
 import * as React from "react"
 import { useRole, type UserRole } from "@/lib/providers/role-provider"
 import { cn } from "@/lib/utils"
-import { Crown, Users, ChevronDown, Check } from "lucide-react"
+import { Crown, Users, Eye, ChevronDown, Check } from "lucide-react"
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -39,10 +39,21 @@ const roleConfig: Record<UserRole, {
     borderColor: "border-blue-200 dark:border-blue-800",
     hoverBg: "hover:bg-blue-100 dark:hover:bg-blue-900/30",
   },
+  viewer: {
+    label: "Viewer",
+    icon: Eye,
+    color: "text-gray-600 dark:text-gray-400",
+    bgColor: "bg-gray-50 dark:bg-gray-900/20",
+    borderColor: "border-gray-200 dark:border-gray-800",
+    hoverBg: "hover:bg-gray-100 dark:hover:bg-gray-900/30",
+  },
 }
 
+/**
+ * Switch between the roles the user holds; hidden for users with a single role
+ */
 export function RoleSwitcher({ className }: RoleSwitcherProps) {
-  const { currentRole, setRole } = useRole()
+  const { currentRole, availableRoles, setRole } = useRole()
   const config = roleConfig[currentRole]
   const Icon = config.icon
 
@@ -52,7 +63,9 @@ export function RoleSwitcher({ className }: RoleSwitcherProps) {
     }
   }
 
-  const availableRoles: UserRole[] = ['admin', 'assistant']
+  if (availableRoles.length < 2) {
+    return null
+  }
 
   return (
     <DropdownMenu>
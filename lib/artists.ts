@@ -0,0 +1,214 @@
+import { NextResponse } from 'next/server'
+import { getStorage, StorageConflictError } from '@/lib/storage'
+
+/**
+ * Artist roster stored in /artists/artist_urls.json
+ * Shared by /api/artists and /api/artists/[artist_id]; every write is made against
+ * the revision that was read, so concurrent edits surface as a 409 instead of
+ * overwriting each other
+ */
+
+export const ARTISTS_FILE_PATH = '/artists/artist_urls.json'
+
+export interface Artist {
+  artist_id: string
+  artist_name: string
+  artist_instagram_username: string
+  artist_soundcloud: string
+  artist_spotify: string
+  artist_beatport: string
+}
+
+export type ArtistInput = Omit<Artist, 'artist_id'>
+
+interface ArtistsData {
+  artists: Artist[]
+}
+
+// Attempts at saving generated IDs when the file keeps changing underneath
+const MIGRATION_ATTEMPTS = 3
+
+/**
+ * Validate SoundCloud URL
+ */
+function validateSoundCloudURL(url: string): { valid: boolean; error?: string } {
+  try {
+    const urlObj = new URL(url.trim())
+    if (!['http:', 'https:'].includes(urlObj.protocol)) {
+      return { valid: false, error: 'URL must start with http:// or https://' }
+    }
+    if (!urlObj.hostname.includes('soundcloud.com')) {
+      return { valid: false, error: 'Must be a SoundCloud URL (soundcloud.com)' }
+    }
+    return { valid: true }
+  } catch {
+    return { valid: false, error: 'Please enter a valid SoundCloud URL' }
+  }
+}
+
+/**
+ * Validate Spotify URL
+ */
+function validateSpotifyURL(url: string): { valid: boolean; error?: string } {
+  try {
+    const urlObj = new URL(url.trim())
+    if (!['http:', 'https:'].includes(urlObj.protocol)) {
+      return { valid: false, error: 'URL must start with http:// or https://' }
+    }
+    if (!urlObj.hostname.includes('spotify.com')) {
+      return { valid: false, error: 'Must be a Spotify URL (spotify.com)' }
+    }
+    return { valid: true }
+  } catch {
+    return { valid: false, error: 'Please enter a valid Spotify URL' }
+  }
+}
+
+/**
+ * Validate Beatport URL
+ */
+function validateBeatportURL(url: string): { valid: boolean; error?: string } {
+  try {
+    const urlObj = new URL(url.trim())
+    if (!['http:', 'https:'].includes(urlObj.protocol)) {
+      return { valid: false, error: 'URL must start with http:// or https://' }
+    }
+    if (!urlObj.hostname.includes('beatport.com')) {
+      return { valid: false, error: 'Must be a Beatport URL (beatport.com)' }
+    }
+    return { valid: true }
+  } catch {
+    return { valid: false, error: 'Please enter a valid Beatport URL' }
+  }
+}
+
+const ARTIST_INPUT_FIELDS = [
+  'artist_name',
+  'artist_instagram_username',
+  'artist_soundcloud',
+  'artist_spotify',
+  'artist_beatport',
+] as const
+
+/**
+ * Validate and trim the artist fields of a request body
+ */
+export function parseArtistInput(body: unknown): { artist: ArtistInput } | { error: string } {
+  const fields = (body && typeof body === 'object' ? body : {}) as Record<string, unknown>
+  for (const field of ARTIST_INPUT_FIELDS) {
+    if (fields[field] !== undefined && fields[field] !== null && typeof fields[field] !== 'string') {
+      return { error: `${field} must be a string` }
+    }
+  }
+  const {
+    artist_name,
+    artist_instagram_username,
+    artist_soundcloud,
+    artist_spotify,
+    artist_beatport,
+  } = fields as Partial<Record<typeof ARTIST_INPUT_FIELDS[number], string>>
+
+  // Validate required fields
+  if (!artist_name || !artist_instagram_username || !artist_soundcloud || !artist_spotify || !artist_beatport) {
+    return { error: 'All fields are required' }
+  }
+
+  // Validate that fields are not just whitespace
+  if (
+    artist_name.trim().length === 0 ||
+    artist_instagram_username.trim().length === 0 ||
+    artist_soundcloud.trim().length === 0 ||
+    artist_spotify.trim().length === 0 ||
+    artist_beatport.trim().length === 0
+  ) {
+    return { error: 'All fields must contain actual text' }
+  }
+
+  const soundcloudValidation = validateSoundCloudURL(artist_soundcloud)
+  if (!soundcloudValidation.valid) {
+    return { error: `SoundCloud URL: ${soundcloudValidation.error}` }
+  }
+
+  const spotifyValidation = validateSpotifyURL(artist_spotify)
+  if (!spotifyValidation.valid) {
+    return { error: `Spotify URL: ${spotifyValidation.error}` }
+  }
+
+  const beatportValidation = validateBeatportURL(artist_beatport)
+  if (!beatportValidation.valid) {
+    return { error: `Beatport URL: ${beatportValidation.error}` }
+  }
+
+  return {
+    artist: {
+      artist_name: artist_name.trim(),
+      artist_instagram_username: artist_instagram_username.trim(),
+      artist_soundcloud: artist_soundcloud.trim(),
+      artist_spotify: artist_spotify.trim(),
+      artist_beatport: artist_beatport.trim(),
+    },
+  }
+}
+
+/**
+ * Read every artist with the file revision; rev is null when the file does not exist yet
+ * Artists saved before IDs existed get one assigned and written back the first time the
+ * file is read after upgrading (one-time migration)
+ */
+export async function readArtists(): Promise<{ artists: Artist[]; rev: string | null }> {
+  const storage = getStorage()
+
+  for (let attempt = 1; ; attempt++) {
+    const stored = await storage.readJson<ArtistsData>(ARTISTS_FILE_PATH)
+    if (!stored) {
+      return { artists: [], rev: null }
+    }
+
+    const artists = stored.data.artists || []
+    const missing = artists.filter(artist => !artist.artist_id).length
+    if (missing === 0) {
+      return { artists, rev: stored.rev }
+    }
+
+    const migrated = artists.map(artist => (
+      artist.artist_id ? artist : { ...artist, artist_id: crypto.randomUUID() }
+    ))
+
+    try {
+      const { rev } = await storage.writeJson(ARTISTS_FILE_PATH, { artists: migrated }, { rev: stored.rev })
+      console.log(`✓ Assigned IDs to ${missing} artist(s)`)
+      return { artists: migrated, rev }
+    } catch (error) {
+      // Someone saved in the meantime (or migrated first), read their version instead
+      if (!(error instanceof StorageConflictError) || attempt >= MIGRATION_ATTEMPTS) {
+        throw error
+      }
+    }
+  }
+}
+
+/**
+ * Save the artists, only if the file is still at rev (null: must not exist yet)
+ * Throws StorageConflictError otherwise; returns the new revision
+ */
+export async function writeArtists(artists: Artist[], rev: string | null): Promise<string> {
+  const result = await getStorage().writeJson(ARTISTS_FILE_PATH, { artists }, { rev })
+  return result.rev
+}
+
+/**
+ * 409 response for an edit made against an outdated artist_urls.json
+ * Carries the current artists and revision so the client can reload or re-apply its change
+ */
+export async function artistsConflictResponse() {
+  const current = await readArtists()
+  return NextResponse.json(
+    {
+      error: 'The artists were changed by someone else',
+      conflict: true,
+      artists: current.artists,
+      rev: current.rev,
+    },
+    { status: 409 }
+  )
+}
@@ -0,0 +1,768 @@
+import { NextRequest, NextResponse, after } from 'next/server'
+import { currentUser } from '@clerk/nextjs/server'
+import { requirePermission } from '@/lib/roles'
+import { WORKFLOW_PERMISSIONS } from '@/lib/permissions'
+import { getStorage, type StorageEntry, type StorageProvider } from '@/lib/storage'
+import { cancelDemoEmail, deliverEmail, getScheduledSendTime, queueDemoEmail } from '@/lib/services/email-outbox-service'
+import { getEmailDeliverySettings } from '@/lib/services/settings-service'
+import { appendDemoHistory } from '@/lib/services/demo-history-service'
+import { addDemoNote, MAX_NOTE_LENGTH } from '@/lib/services/demo-notes-service'
+import type { ApprovalCompose } from '@/lib/services/demo-service'
+import { updateDemoStatusInCache, updateDemoStatusesInCache, getDemoStatusFromCache } from '@/lib/demo-index'
+import {
+  DEMO_STATES,
+  STATUS_FOLDERS,
+  findTransition,
+  getAllowedActions,
+  getRoleActions,
+  getSourceStates,
+  isDemoState,
+  type DemoState,
+  type NotificationType,
+  type WorkflowRole,
+  type WorkflowTransition,
+} from '@/lib/demo-workflow'
+
+// Demo metadata interface
+export interface DemoMetadata {
+  artist_name: string
+  track_title: string
+  email: string
+  full_name: string
+  instagram_username: string | null
+  beatport: string | null
+  facebook: string | null
+  x_twitter: string | null
+  submitted_at: string
+  demo_id: string
+  locale?: string | null // artist's locale from the submission form, e.g. "de-DE"
+}
+
+// Limits of the owner's compose step when approving
+const MAX_PERSONAL_MESSAGE_LENGTH = 5000
+const MAX_COMPOSE_FIELD_LENGTH = 200
+
+// A single plain address, nothing that could add another header or recipient
+const REPLY_TO_PATTERN = /^[^\s@<>,;:"()[\]\\]+@[^\s@<>,;:"()[\]\\]+\.[^\s@<>,;:"()[\]\\]+$/
+
+/**
+ * Validate the compose step sent with an approval, returns an error message when it is invalid
+ */
+export function parseApprovalCompose(value: unknown): { compose: ApprovalCompose | null } | { error: string } {
+  if (value === undefined || value === null) {
+    return { compose: null }
+  }
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    return { error: '"compose" must be an object' }
+  }
+
+  const fields = value as Record<string, unknown>
+  const compose: ApprovalCompose = {}
+  const limits: Record<keyof ApprovalCompose, number> = {
+    personal_message: MAX_PERSONAL_MESSAGE_LENGTH,
+    release_window: MAX_COMPOSE_FIELD_LENGTH,
+    contact_person: MAX_COMPOSE_FIELD_LENGTH,
+    reply_to: MAX_COMPOSE_FIELD_LENGTH,
+  }
+  for (const [key, limit] of Object.entries(limits) as Array<[keyof ApprovalCompose, number]>) {
+    const field = fields[key]
+    if (field === undefined || field === null) continue
+    if (typeof field !== 'string') {
+      return { error: `"compose.${key}" must be a string` }
+    }
+    if (field.length > limit) {
+      return { error: `"compose.${key}" must be at most ${limit} characters` }
+    }
+    if (field.trim()) {
+      compose[key] = field.trim()
+    }
+  }
+
+  if (compose.reply_to && !REPLY_TO_PATTERN.test(compose.reply_to)) {
+    return { error: '"compose.reply_to" must be a single email address' }
+  }
+
+  return { compose }
+}
+
+/**
+ * Find demo file in a specific storage folder by demo_id
+ */
+export async function findDemoInFolder(
+  storage: StorageProvider,
+  folderPath: string,
+  demoId: string
+): Promise<{ mp3File: StorageEntry; metadataFile: StorageEntry } | null> {
+  try {
+    const { entries: files } = await storage.list(folderPath)
+
+    // Look for supported audio file that matches the demo_id pattern
+    const audioFile = files.find(file =>
+      file.type === 'file' &&
+      (file.name.toLowerCase().endsWith('.mp3') || file.name.toLowerCase().endsWith('.wav')) &&
+      file.name.includes(demoId)
+    )
+
+    if (!audioFile) {
+      return null
+    }
+
+    // Find corresponding metadata file
+    const metadataFileName = `${audioFile.name}.metadata.json`
+    const metadataFile = files.find(file => file.name === metadataFileName)
+
+    if (!metadataFile) {
+      return null
+    }
+
+    return { mp3File: audioFile, metadataFile }
+  } catch (error) {
+    console.error(`Error searching folder ${folderPath}:`, error)
+    return null
+  }
+}
+
+/**
+ * Find the workflow state a demo is currently in
+ * Uses the demos cache first, then searches the folders of the preferred states
+ * before falling back to every other workflow folder
+ */
+export async function locateDemo(
+  storage: StorageProvider,
+  demoId: string,
+  preferredStates: DemoState[] = []
+): Promise<DemoState | null> {
+  const cachedStatus = await getDemoStatusFromCache(demoId)
+  if (isDemoState(cachedStatus)) {
+    return cachedStatus
+  }
+
+  console.log(`⚠️  Cache miss - falling back to storage search`)
+  const searchOrder = [
+    ...preferredStates,
+    ...DEMO_STATES.filter(state => !preferredStates.includes(state)),
+  ]
+
+  for (const state of searchOrder) {
+    if (await findDemoInFolder(storage, STATUS_FOLDERS[state], demoId)) {
+      return state
+    }
+  }
+
+  return null
+}
+
+/**
+ * Move demo files between folders
+ */
+export async function moveDemoFiles(
+  storage: StorageProvider,
+  sourceFolderPath: string,
+  destinationFolderPath: string,
+  mp3FileName: string,
+  metadataFileName: string
+): Promise<void> {
+  const mp3SourcePath = `${sourceFolderPath}/${mp3FileName}`
+  const mp3DestPath = `${destinationFolderPath}/${mp3FileName}`
+  const metadataSourcePath = `${sourceFolderPath}/${metadataFileName}`
+  const metadataDestPath = `${destinationFolderPath}/${metadataFileName}`
+
+  // Move mp3 file
+  await storage.move(mp3SourcePath, mp3DestPath)
+
+  // Move metadata file
+  await storage.move(metadataSourcePath, metadataDestPath)
+}
+
+/**
+ * Fetch demo metadata from storage
+ */
+export async function fetchDemoMetadata(
+  folderPath: string,
+  metadataFileName: string
+): Promise<DemoMetadata | null> {
+  try {
+    const metadata = await getStorage().readJson<DemoMetadata>(`${folderPath}/${metadataFileName}`)
+    if (!metadata) {
+      console.error(`Metadata file not found: ${folderPath}/${metadataFileName}`)
+      return null
+    }
+
+    return metadata.data
+  } catch (error) {
+    console.error('Error fetching demo metadata:', error)
+    return null
+  }
+}
+
+interface ActionEmailStatus {
+  sent: boolean
+  error?: string
+  // The demo already had this email, nothing was queued or sent this time
+  duplicate?: boolean
+  emailId?: string
+  scheduledFor?: string
+  cancelled?: boolean
+  // Set once the email went out
+  messageId?: string
+  gmailMessageId?: string
+  gmailThreadId?: string
+}
+
+/**
+ * Queue the notification email configured for a workflow transition
+ * With immediate delivery the first attempt is made right away, otherwise the email waits in
+ * the outbox until its scheduled time (and undoing the action cancels it); failed attempts
+ * are retried from the outbox
+ * A demo that already got this notification (undo, then redo) is not emailed again
+ * deliverNow false leaves even an immediate email for the caller (or the outbox cron) to send
+ */
+export async function sendActionEmail(
+  notification: NotificationType,
+  metadata: DemoMetadata,
+  demoId: string,
+  compose?: ApprovalCompose | null,
+  deliverNow = true
+): Promise<ActionEmailStatus> {
+  try {
+    const delivery = await getEmailDeliverySettings()
+    const { email, duplicate } = await queueDemoEmail({
+      demoId,
+      notification,
+      to: metadata.email,
+      artistName: metadata.artist_name,
+      trackTitle: metadata.track_title,
+      sendAt: getScheduledSendTime(delivery),
+      compose,
+      locale: metadata.locale,
+    })
+
+    if (duplicate) {
+      console.log(`ℹ️  ${notification} email already queued for ${demoId}, not sending again`)
+      // Report the existing email as it is, this action did not send anything
+      return {
+        sent: false,
+        duplicate: true,
+        error: email.status === 'failed' ? email.last_error || undefined : undefined,
+        emailId: email.email_id,
+        scheduledFor: email.status === 'pending' ? email.next_attempt_at || undefined : undefined,
+      }
+    }
+
+    if (delivery.mode !== 'immediate' || !deliverNow) {
+      return { sent: false, emailId: email.email_id, scheduledFor: email.next_attempt_at || undefined }
+    }
+
+    const delivered = (await deliverEmail(email.email_id)) || email
+    const sent = delivered.status === 'sent'
+    return {
+      sent,
+      error: sent ? undefined : delivered.last_error || 'Email queued for retry',
+      emailId: delivered.email_id,
+      messageId: delivered.message_id || undefined,
+      gmailMessageId: delivered.gmail_message_id || undefined,
+      gmailThreadId: delivered.gmail_thread_id || undefined,
+    }
+  } catch (error) {
+    console.error('Error sending action email:', error)
+    return { sent: false, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+}
+
+/**
+ * Display name of the signed-in user for the review history
+ */
+export async function getActorName(): Promise<string | null> {
+  try {
+    const user = await currentUser()
+    if (!user) return null
+    return user.fullName || user.emailAddresses[0]?.emailAddress || null
+  } catch (error) {
+    console.error('Failed to load current user for history:', error)
+    return null
+  }
+}
+
+/**
+ * Side effects of a completed transition (files already moved):
+ * queue the notification email (or cancel the one being undone), save the reviewer note
+ * and append to the review history
+ */
+export async function runTransitionSideEffects({
+  demoId,
+  userId,
+  role,
+  transition,
+  fromStatus,
+  metadataFileName,
+  note,
+  compose,
+  actorName: knownActorName,
+  deliverNow = true,
+}: {
+  demoId: string
+  userId: string
+  role: WorkflowRole
+  transition: WorkflowTransition
+  fromStatus: DemoState
+  metadataFileName: string
+  note?: string
+  // Owner's compose step, for approvals
+  compose?: ApprovalCompose | null
+  actorName?: string | null
+  // false: only queue the email, see sendActionEmail
+  deliverNow?: boolean
+}): Promise<ActionEmailStatus> {
+  const destinationFolderPath = STATUS_FOLDERS[transition.to]
+  const actorName = knownActorName !== undefined ? knownActorName : await getActorName()
+
+  // Send email notification (non-blocking)
+  let emailStatus: ActionEmailStatus = { sent: false, error: 'Email not attempted' }
+
+  if (transition.notification) {
+    const emailStart = Date.now()
+    // Fetch metadata from the destination folder (files have been moved)
+    const metadata = await fetchDemoMetadata(destinationFolderPath, metadataFileName)
+
+    if (metadata) {
+      emailStatus = await sendActionEmail(transition.notification, metadata, demoId, compose, deliverNow)
+      console.log(`✓ Email notification ${emailStatus.sent ? 'sent' : emailStatus.duplicate ? 'not repeated' : emailStatus.scheduledFor ? 'scheduled' : 'failed'} in ${Date.now() - emailStart}ms`)
+    } else {
+      emailStatus = { sent: false, error: 'Could not fetch demo metadata' }
+      console.log(`⚠️  Could not fetch metadata for email notification`)
+    }
+  }
+
+  // Undoing an action takes back its email if it is still waiting to be sent
+  let cancelledEmailId: string | null = null
+  if (transition.cancelsNotification) {
+    try {
+      const cancelled = await cancelDemoEmail(demoId, transition.cancelsNotification, actorName)
+      cancelledEmailId = cancelled?.email_id || null
+      if (cancelled) {
+        console.log(`✓ Pending ${transition.cancelsNotification} email cancelled`)
+      }
+    } catch (error) {
+      console.error('Failed to cancel pending email:', error)
+    }
+  }
+
+  // Attach the reviewer note, if any, to the demo's internal notes
+  let noteId: string | null = null
+  if (note) {
+    try {
+      noteId = (await addDemoNote(demoId, userId, actorName, note)).note_id
+    } catch (error) {
+      console.error('Failed to save note passed with action:', error)
+    }
+  }
+
+  // Record the action in the demo's review history
+  const historyStart = Date.now()
+  try {
+    await appendDemoHistory({
+      demo_id: demoId,
+      actor_id: userId,
+      actor_name: actorName,
+      role,
+      action: transition.action,
+      from_status: fromStatus,
+      to_status: transition.to,
+      timestamp: new Date().toISOString(),
+      email_status: transition.notification
+        ? {
+            notification_sent: emailStatus.sent,
+            error: emailStatus.error || null,
+            email_id: emailStatus.emailId || null,
+            scheduled_for: emailStatus.scheduledFor || null,
+            ...(emailStatus.duplicate && { duplicate: true }),
+            ...(emailStatus.sent && {
+              message_id: emailStatus.messageId || null,
+              gmail_message_id: emailStatus.gmailMessageId || null,
+              gmail_thread_id: emailStatus.gmailThreadId || null,
+            }),
+          }
+        : cancelledEmailId
+          ? { notification_sent: false, error: null, email_id: cancelledEmailId, cancelled: true }
+          : null,
+      note_id: noteId,
+    })
+    console.log(`✓ History recorded in ${Date.now() - historyStart}ms`)
+  } catch (error) {
+    // Don't fail the action - the files have already been moved
+    console.error('Failed to record demo history:', error)
+  }
+
+  return emailStatus
+}
+
+/**
+ * Shared POST handler for the assistant-action and owner-action routes
+ * Validates the action against the demo workflow for the given role, moves the demo
+ * files to the destination folder and sends the transition's notification email
+ */
+export async function handleDemoAction(
+  request: NextRequest,
+  params: Promise<{ demo_id: string }>,
+  role: WorkflowRole
+) {
+  const startTime = Date.now()
+  console.log(`\n🚀 [${new Date().toISOString()}] ${role === 'owner' ? 'Owner' : 'Assistant'} action started`)
+
+  try {
+    // Verify authentication and that the user may act on demos as this role
+    const authStart = Date.now()
+    const session = await requirePermission(WORKFLOW_PERMISSIONS[role])
+    console.log(`✓ Auth completed in ${Date.now() - authStart}ms`)
+
+    if (session instanceof NextResponse) {
+      return session
+    }
+    const { userId } = session
+
+    const paramsStart = Date.now()
+    const { demo_id } = await params
+    const body = await request.json()
+    const { action } = body
+    // Optional reviewer note passed along with the action (e.g. why the assistant liked it)
+    const note = typeof body.note === 'string' ? body.note.trim() : ''
+    if (note.length > MAX_NOTE_LENGTH) {
+      return NextResponse.json(
+        { error: `Note must be at most ${MAX_NOTE_LENGTH} characters` },
+        { status: 400 }
+      )
+    }
+    // Optional personal message and next steps for the approval email
+    const parsedCompose = parseApprovalCompose(body.compose)
+    if ('error' in parsedCompose) {
+      return NextResponse.json({ error: parsedCompose.error }, { status: 400 })
+    }
+    const { compose } = parsedCompose
+    console.log(`✓ Params parsed in ${Date.now() - paramsStart}ms`)
+
+    // Validate action against the actions this role can perform
+    const validActions: string[] = getRoleActions(role)
+    if (!action || !validActions.includes(action)) {
+      return NextResponse.json(
+        { error: `Invalid action. Must be one of: ${validActions.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const storage = getStorage()
+
+    // Determine the demo's current state and the transition to apply
+    const locateStart = Date.now()
+    const currentStatus = await locateDemo(storage, demo_id, getSourceStates(action, role))
+    console.log(`✓ Demo located in ${Date.now() - locateStart}ms (status: ${currentStatus})`)
+
+    if (!currentStatus) {
+      console.log(`❌ Demo not found - total time: ${Date.now() - startTime}ms`)
+      return NextResponse.json(
+        { error: 'Demo not found' },
+        { status: 404 }
+      )
+    }
+
+    const transition = findTransition(action, currentStatus, role)
+    if (!transition) {
+      return NextResponse.json(
+        {
+          error: `Cannot ${action} a demo in status ${currentStatus}`,
+          current_status: currentStatus,
+          allowed_actions: getAllowedActions(currentStatus, role),
+        },
+        { status: 409 }
+      )
+    }
+
+    const sourceFolderPath = STATUS_FOLDERS[currentStatus]
+    const destinationFolderPath = STATUS_FOLDERS[transition.to]
+
+    // Find demo in source folder
+    const findStart = Date.now()
+    const demoFiles = await findDemoInFolder(storage, sourceFolderPath, demo_id)
+    console.log(`✓ findDemoInFolder completed in ${Date.now() - findStart}ms`)
+
+    if (!demoFiles) {
+      console.log(`❌ Demo not found - total time: ${Date.now() - startTime}ms`)
+      return NextResponse.json(
+        { error: `Demo not found in expected folder: ${sourceFolderPath}` },
+        { status: 404 }
+      )
+    }
+
+    // Move files to destination folder
+    const moveStart = Date.now()
+    await moveDemoFiles(
+      storage,
+      sourceFolderPath,
+      destinationFolderPath,
+      demoFiles.mp3File.name,
+      demoFiles.metadataFile.name
+    )
+    console.log(`✓ moveDemoFiles completed in ${Date.now() - moveStart}ms`)
+
+    // Update cache in-place (fast!) instead of invalidating
+    const cacheUpdateStart = Date.now()
+    await updateDemoStatusInCache(demo_id, transition.to)
+    console.log(`✓ Cache update completed in ${Date.now() - cacheUpdateStart}ms`)
+
+    // Email the artist, attach the note and record the review history
+    const emailStatus = await runTransitionSideEffects({
+      demoId: demo_id,
+      userId,
+      role,
+      transition,
+      fromStatus: currentStatus,
+      metadataFileName: demoFiles.metadataFile.name,
+      note,
+      compose: transition.notification === 'approved' ? compose : null,
+    })
+
+    console.log(`✅ Total request time: ${Date.now() - startTime}ms\n`)
+
+    return NextResponse.json({
+      message: `Successfully performed ${action} on demo`,
+      demo_id,
+      action,
+      previous_status: currentStatus,
+      status: transition.to,
+      allowed_actions: getAllowedActions(transition.to, role),
+      email_status: {
+        notification_sent: emailStatus.sent,
+        error: emailStatus.error || null,
+        email_id: emailStatus.emailId || null,
+        scheduled_for: emailStatus.scheduledFor || null,
+      },
+    })
+  } catch (error) {
+    console.error(`❌ Error after ${Date.now() - startTime}ms:`, error)
+
+    return NextResponse.json(
+      {
+        error: 'Failed to perform action on demo',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+// Upper bound on demos per batch request (each demo is two entries in the batch move)
+export const MAX_BATCH_SIZE = 200
+
+// Demos of a batch whose emails and history are handled at the same time
+const BATCH_CONCURRENCY = 8
+
+/**
+ * Run fn for every item, at most limit at a time
+ */
+async function forEachConcurrently<T>(items: T[], limit: number, fn: (item: T) => Promise<void>): Promise<void> {
+  let next = 0
+  const worker = async () => {
+    while (next < items.length) {
+      await fn(items[next++])
+    }
+  }
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker))
+}
+
+export interface BatchActionResult {
+  demo_id: string
+  success: boolean
+  data?: {
+    previous_status: DemoState
+    status: DemoState
+    allowed_actions: string[]
+    email_status: {
+      notification_sent: boolean
+      error: string | null
+      email_id: string | null
+      scheduled_for: string | null
+    }
+  }
+  error?: {
+    message: string
+    statusCode: number
+    details?: unknown
+  }
+}
+
+/**
+ * Apply one workflow action to many demos
+ * Each workflow folder is listed once, every valid demo is moved in a single
+ * storage batch move and the cache is updated once; returns a result per demo
+ * Emails and history are handled a few demos at a time, emails are sent after responding
+ */
+export async function performBatchDemoAction(
+  userId: string,
+  role: WorkflowRole,
+  action: string,
+  demoIds: string[]
+): Promise<BatchActionResult[]> {
+  const storage = getStorage()
+
+  // List every workflow folder once instead of searching per demo
+  const folderEntries = await Promise.all(
+    DEMO_STATES.map(async state => {
+      try {
+        const { entries } = await storage.list(STATUS_FOLDERS[state])
+        return { state, files: entries }
+      } catch (error) {
+        console.error(`Error listing folder ${STATUS_FOLDERS[state]}:`, error)
+        return { state, files: [] as StorageEntry[] }
+      }
+    })
+  )
+
+  const results = new Map<string, BatchActionResult>()
+  const pending: Array<{
+    demoId: string
+    fromStatus: DemoState
+    transition: WorkflowTransition
+    mp3FileName: string
+    metadataFileName: string
+  }> = []
+
+  for (const demoId of demoIds) {
+    let located: { state: DemoState; mp3FileName: string; metadataFileName: string } | null = null
+
+    for (const { state, files } of folderEntries) {
+      const audioFile = files.find(file =>
+        file.type === 'file' &&
+        (file.name.toLowerCase().endsWith('.mp3') || file.name.toLowerCase().endsWith('.wav')) &&
+        file.name.includes(demoId)
+      )
+      const metadataFileName = audioFile ? `${audioFile.name}.metadata.json` : null
+      if (audioFile && files.some(file => file.name === metadataFileName)) {
+        located = { state, mp3FileName: audioFile.name, metadataFileName: metadataFileName! }
+        break
+      }
+    }
+
+    if (!located) {
+      results.set(demoId, {
+        demo_id: demoId,
+        success: false,
+        error: { message: 'Demo not found', statusCode: 404 },
+      })
+      continue
+    }
+
+    const transition = findTransition(action, located.state, role)
+    if (!transition) {
+      results.set(demoId, {
+        demo_id: demoId,
+        success: false,
+        error: {
+          message: `Cannot ${action} a demo in status ${located.state}`,
+          statusCode: 409,
+          details: {
+            current_status: located.state,
+            allowed_actions: getAllowedActions(located.state, role),
+          },
+        },
+      })
+      continue
+    }
+
+    pending.push({
+      demoId,
+      fromStatus: located.state,
+      transition,
+      mp3FileName: located.mp3FileName,
+      metadataFileName: located.metadataFileName,
+    })
+  }
+
+  // Two entries per demo: audio file followed by its metadata file
+  const moveStart = Date.now()
+  const moveResults = await storage.moveBatch(
+    pending.flatMap(item => {
+      const source = STATUS_FOLDERS[item.fromStatus]
+      const destination = STATUS_FOLDERS[item.transition.to]
+      return [
+        { from: `${source}/${item.mp3FileName}`, to: `${destination}/${item.mp3FileName}` },
+        { from: `${source}/${item.metadataFileName}`, to: `${destination}/${item.metadataFileName}` },
+      ]
+    })
+  )
+  console.log(`✓ Batch move of ${pending.length} demo(s) completed in ${Date.now() - moveStart}ms`)
+
+  const moved = pending.filter((item, index) => {
+    const mp3Result = moveResults[index * 2]
+    const metadataResult = moveResults[index * 2 + 1]
+    if (mp3Result?.success && metadataResult?.success) {
+      return true
+    }
+
+    // The move may still complete, the index picks the demo up in its new folder then
+    const stillMoving = !!(mp3Result?.pending || metadataResult?.pending)
+    results.set(item.demoId, {
+      demo_id: item.demoId,
+      success: false,
+      error: {
+        message: stillMoving
+          ? 'Dropbox is still moving the demo files, check the demo again in a moment'
+          : 'Failed to move demo files',
+        statusCode: stillMoving ? 202 : 500,
+        details: {
+          audio: mp3Result?.error || null,
+          metadata: metadataResult?.error || null,
+        },
+      },
+    })
+    return false
+  })
+
+  await updateDemoStatusesInCache(
+    moved.map(item => ({ demoId: item.demoId, status: item.transition.to }))
+  )
+
+  // Emails and history entries are per demo; resolve the actor name once.
+  // Emails are only queued here, immediate ones are sent after responding (see below)
+  const actorName = await getActorName()
+  const queuedEmailIds: string[] = []
+  await forEachConcurrently(moved, BATCH_CONCURRENCY, async item => {
+    const emailStatus = await runTransitionSideEffects({
+      demoId: item.demoId,
+      userId,
+      role,
+      transition: item.transition,
+      fromStatus: item.fromStatus,
+      metadataFileName: item.metadataFileName,
+      actorName,
+      deliverNow: false,
+    })
+    if (emailStatus.emailId && !emailStatus.duplicate) {
+      queuedEmailIds.push(emailStatus.emailId)
+    }
+
+    results.set(item.demoId, {
+      demo_id: item.demoId,
+      success: true,
+      data: {
+        previous_status: item.fromStatus,
+        status: item.transition.to,
+        allowed_actions: getAllowedActions(item.transition.to, role),
+        email_status: {
+          notification_sent: emailStatus.sent,
+          error: emailStatus.error || null,
+          email_id: emailStatus.emailId || null,
+          scheduled_for: emailStatus.scheduledFor || null,
+        },
+      },
+    })
+  })
+
+  // With immediate delivery, send the emails once the response is out; whatever does not
+  // finish in time is due in the outbox and sent by its cron
+  if (queuedEmailIds.length > 0 && (await getEmailDeliverySettings()).mode === 'immediate') {
+    after(() => forEachConcurrently(queuedEmailIds, BATCH_CONCURRENCY, async emailId => {
+      await deliverEmail(emailId).catch(error => console.error(`Failed to deliver email ${emailId}:`, error))
+    }))
+  }
+
+  return demoIds.map(demoId => results.get(demoId)!)
+}
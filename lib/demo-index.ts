@@ -0,0 +1,540 @@
+import { redis, CACHE_KEYS, CACHE_TTL } from '@/lib/redis'
+import { getStorage, type StorageEntry, type StorageListing, type StorageProvider } from '@/lib/storage'
+import { DEMO_STATES, STATUS_FOLDERS, type DemoState } from '@/lib/demo-workflow'
+import type { DemoScoreSummary } from '@/lib/demo-scoring'
+import { getAllScoreSummaries } from '@/lib/services/demo-scores-service'
+import { getAllDemoLocaleOverrides, resolveDemoEmailLocale } from '@/lib/services/demo-locale-service'
+import type { EmailLocale } from '@/lib/services/email-templates'
+
+/**
+ * Demo index
+ * Every demo across the workflow folders, cached in Redis together with a storage
+ * listing cursor per folder. Each load asks storage only for what changed since
+ * those cursors (list_folder/continue on Dropbox) and applies the delta to the
+ * index: moves between workflow folders are re-pointed without any download, and
+ * only new or edited demos have their metadata downloaded and shared link resolved.
+ */
+
+// Type definitions
+interface DemoMetadata {
+  artist_name: string
+  track_title: string
+  email: string
+  full_name: string
+  instagram_username: string | null
+  beatport: string | null
+  facebook: string | null
+  x_twitter: string | null
+  submitted_at: string
+  demo_id: string
+  locale?: string | null // artist's locale from the submission form, e.g. "de-DE"
+}
+
+export interface Demo {
+  demo_id: string
+  track_title: string
+  artist_name: string
+  shared_link: string
+  submitted_at: string
+  status: string
+  email: string
+  locale: string | null
+  score?: DemoScoreSummary | null
+  email_locale?: EmailLocale // language the artist's emails are sent in
+}
+
+// Where a demo's audio file lives, used to apply storage deltas to the index
+interface DemoFileEntry {
+  path_lower: string
+  submitted_at: string // original YYYYMMDD_HHMMSS timestamp, used for sorting
+}
+
+// Cache for demos with storage sync state
+interface DemoCache {
+  demos: Demo[]
+  files: Record<string, DemoFileEntry> // demo_id -> audio file
+  cursors: Record<string, string> // folder path -> listing cursor
+  timestamp: number // time of the last full rescan
+  version?: number
+  provider?: string // storage provider the index was built from
+}
+
+const DEMOS_CACHE_VERSION = 4
+
+// Full rescan interval, also refreshes temporary fallback links (valid for 4 hours)
+const FULL_SYNC_INTERVAL = 3 * 60 * 60 * 1000
+
+// While Dropbox webhook notifications keep arriving, page loads trust the index
+// and skip Dropbox entirely (the webhook applies the deltas instead)
+const WEBHOOK_TRUST_WINDOW = 24 * 60 * 60 * 1000
+
+const METADATA_SUFFIX = '.metadata.json'
+
+function isAudioFileName(name: string): boolean {
+  const lowerName = name.toLowerCase()
+  return lowerName.endsWith('.mp3') || lowerName.endsWith('.wav')
+}
+
+function baseName(path: string): string {
+  return path.substring(path.lastIndexOf('/') + 1)
+}
+
+/**
+ * Invalidate the demos cache (forces a full rescan on the next load)
+ */
+export async function invalidateDemosCache() {
+  await redis.del(CACHE_KEYS.DEMOS)
+}
+
+/**
+ * Get the current status of a demo from cache (fast lookup)
+ */
+export async function getDemoStatusFromCache(demoId: string): Promise<string | null> {
+  try {
+    const cache = await redis.get<DemoCache>(CACHE_KEYS.DEMOS)
+    if (!cache) return null
+
+    const demo = cache.demos.find(d => d.demo_id === demoId)
+    return demo?.status || null
+  } catch (error) {
+    console.error('Failed to get demo status from cache:', error)
+    return null
+  }
+}
+
+/**
+ * Update a single demo's status in the cache without refetching from Dropbox
+ * This provides instant cache updates after demo actions
+ */
+export async function updateDemoStatusInCache(demoId: string, newStatus: string) {
+  await updateDemoStatusesInCache([{ demoId, status: newStatus }])
+}
+
+/**
+ * Update the status of several demos in cache at once
+ * The file moves behind the change arrive with the next delta sync and are
+ * recognised as moves, so nothing is downloaded again
+ */
+export async function updateDemoStatusesInCache(updates: Array<{ demoId: string; status: string }>) {
+  try {
+    const cache = await redis.get<DemoCache>(CACHE_KEYS.DEMOS)
+
+    if (!cache) {
+      // No cache exists, nothing to update
+      return
+    }
+
+    // Find and update each demo's status
+    let updatedCount = 0
+    for (const { demoId, status } of updates) {
+      const demoIndex = cache.demos.findIndex(demo => demo.demo_id === demoId)
+      if (demoIndex !== -1) {
+        cache.demos[demoIndex].status = status
+        updatedCount++
+      }
+    }
+
+    if (updatedCount > 0) {
+      await saveCache(cache)
+      console.log(`✓ Updated status of ${updatedCount} demo(s) in cache`)
+    }
+  } catch (error) {
+    console.error('Failed to update demo status in cache:', error)
+    // Don't throw - cache update is optional optimization
+  }
+}
+
+async function saveCache(cache: DemoCache) {
+  await redis.set(CACHE_KEYS.DEMOS, cache, { ex: CACHE_TTL.DEMOS })
+}
+
+/**
+ * Attach reviewer score aggregates to demos
+ * Scores live outside the demos cache so rating a demo never invalidates it
+ */
+async function attachScoreSummaries(demos: Demo[]): Promise<Demo[]> {
+  try {
+    const summaries = await getAllScoreSummaries()
+    return demos.map(demo => ({ ...demo, score: summaries[demo.demo_id] || null }))
+  } catch (error) {
+    console.error('Failed to load demo scores:', error)
+    return demos
+  }
+}
+
+/**
+ * Attach the language each demo's emails are sent in
+ * Languages set on the dashboard live outside the demos cache, like scores
+ */
+async function attachEmailLocales(demos: Demo[]): Promise<Demo[]> {
+  try {
+    const overrides = await getAllDemoLocaleOverrides()
+    return demos.map(demo => ({
+      ...demo,
+      email_locale: resolveDemoEmailLocale(overrides[demo.demo_id], demo.locale),
+    }))
+  } catch (error) {
+    console.error('Failed to load demo email languages:', error)
+    return demos
+  }
+}
+
+/**
+ * Parse submitted_at timestamp from YYYYMMDD_HHMMSS to DD/MM/YYYY
+ */
+function formatSubmittedAt(timestamp: string): string {
+  try {
+    // Format: "20251103_204041" -> "03/11/2025"
+    if (timestamp.length === 15 && timestamp.includes('_')) {
+      const [datePart] = timestamp.split('_')
+      const year = datePart.substring(0, 4)
+      const month = datePart.substring(4, 6)
+      const day = datePart.substring(6, 8)
+
+      return `${day}/${month}/${year}`
+    }
+
+    // Fallback to original if format is unexpected
+    return timestamp
+  } catch (error) {
+    console.error('Error formatting submitted_at:', error)
+    return timestamp
+  }
+}
+
+/**
+ * Parse submitted_at timestamp to sortable date
+ */
+function parseSubmittedAtForSort(timestamp: string): Date {
+  try {
+    // Format: "20251103_204041" -> Date object
+    if (timestamp.length === 15 && timestamp.includes('_')) {
+      const [datePart, timePart] = timestamp.split('_')
+      const year = datePart.substring(0, 4)
+      const month = datePart.substring(4, 6)
+      const day = datePart.substring(6, 8)
+      const hour = timePart.substring(0, 2)
+      const minute = timePart.substring(2, 4)
+      const second = timePart.substring(4, 6)
+
+      return new Date(`${year}-${month}-${day}T${hour}:${minute}:${second}`)
+    }
+
+    // Fallback to standard date parsing
+    return new Date(timestamp)
+  } catch (error) {
+    console.error('Error parsing submitted_at for sort:', error)
+    return new Date() // Return current date as fallback
+  }
+}
+
+/**
+ * Sort by submission date (newest first) using original timestamp
+ */
+function sortDemos(cache: DemoCache) {
+  cache.demos.sort((a, b) => {
+    const dateA = parseSubmittedAtForSort(cache.files[a.demo_id]?.submitted_at || a.submitted_at)
+    const dateB = parseSubmittedAtForSort(cache.files[b.demo_id]?.submitted_at || b.submitted_at)
+    return dateB.getTime() - dateA.getTime()
+  })
+}
+
+/**
+ * Download and parse a demo's .metadata.json file
+ */
+async function downloadMetadata(
+  storage: StorageProvider,
+  folderPath: string,
+  metadataFileName: string
+): Promise<DemoMetadata | null> {
+  try {
+    const metadata = await storage.readJson<DemoMetadata>(`${folderPath}/${metadataFileName}`)
+    if (!metadata) {
+      console.error(`Metadata file ${metadataFileName} not found`)
+      return null
+    }
+
+    return metadata.data
+  } catch (error) {
+    console.error(`Error processing metadata ${metadataFileName}:`, error)
+    return null
+  }
+}
+
+/**
+ * Create demo object with formatted date for display
+ */
+function demoFromMetadata(metadata: DemoMetadata, status: string, sharedLink: string): Demo {
+  return {
+    demo_id: metadata.demo_id,
+    track_title: metadata.track_title,
+    artist_name: metadata.artist_name,
+    email: metadata.email,
+    locale: metadata.locale || null,
+    submitted_at: formatSubmittedAt(metadata.submitted_at), // Format for display
+    status,
+    shared_link: sharedLink,
+  }
+}
+
+/**
+ * Fetch demos from a specific storage folder
+ */
+async function fetchDemosFromFolder(
+  storage: StorageProvider,
+  folderPath: string,
+  status: string
+): Promise<{ demos: Demo[]; files: Record<string, DemoFileEntry>; cursor: string }> {
+  try {
+    // List all files in the folder
+    const { entries: files, cursor } = await storage.list(folderPath)
+
+    // Separate supported audio files (.mp3/.wav) and .metadata.json files
+    const audioFiles = files.filter(file => file.type === 'file' && isAudioFileName(file.name))
+
+    const pending: Array<{ metadata: DemoMetadata; audioFile: StorageEntry }> = []
+
+    // Process each supported audio file
+    for (const audioFile of audioFiles) {
+      // Metadata file naming: "trackname.mp3.metadata.json" or "trackname.wav.metadata.json"
+      const metadataFileName = `${audioFile.name}${METADATA_SUFFIX}`
+      const metadataFile = files.find(file => file.name === metadataFileName)
+
+      if (!metadataFile || metadataFile.type !== 'file') {
+        console.warn(`Metadata file not found for ${audioFile.name}`)
+        continue
+      }
+
+      const metadata = await downloadMetadata(storage, folderPath, metadataFileName)
+      if (metadata) {
+        pending.push({ metadata, audioFile })
+      }
+    }
+
+    // Generate shared links in parallel for all demos (much faster!)
+    const demos = await Promise.all(
+      pending.map(async ({ metadata, audioFile }) =>
+        demoFromMetadata(metadata, status, await storage.getPlayableLink(`${folderPath}/${audioFile.name}`))
+      )
+    )
+
+    const fileEntries: Record<string, DemoFileEntry> = {}
+    pending.forEach(({ metadata, audioFile }) => {
+      fileEntries[metadata.demo_id] = {
+        path_lower: audioFile.path_lower,
+        submitted_at: metadata.submitted_at,
+      }
+    })
+
+    return { demos, files: fileEntries, cursor }
+  } catch (error) {
+    console.error(`Error fetching demos from ${folderPath}:`, error)
+    throw error
+  }
+}
+
+/**
+ * Rebuild the whole index from storage
+ */
+async function fullSync(storage: StorageProvider): Promise<DemoCache> {
+  // Fetch demos from all workflow folders in parallel
+  const folderResults = await Promise.allSettled(
+    DEMO_STATES.map(state => fetchDemosFromFolder(storage, STATUS_FOLDERS[state], state))
+  )
+
+  // Combine all demos, handling any errors
+  const cache: DemoCache = {
+    demos: [],
+    files: {},
+    cursors: {},
+    timestamp: Date.now(),
+    version: DEMOS_CACHE_VERSION,
+    provider: storage.name,
+  }
+
+  folderResults.forEach((result, index) => {
+    if (result.status === 'fulfilled') {
+      cache.demos.push(...result.value.demos)
+      Object.assign(cache.files, result.value.files)
+      cache.cursors[STATUS_FOLDERS[DEMO_STATES[index]]] = result.value.cursor
+    } else {
+      console.error(`Error fetching ${DEMO_STATES[index]} demos:`, result.reason)
+    }
+  })
+
+  sortDemos(cache)
+  return cache
+}
+
+/**
+ * Apply the changes since the stored cursors to the index
+ * Returns whether anything changed, or null when a full rescan is needed
+ */
+async function applyDeltas(storage: StorageProvider, cache: DemoCache): Promise<boolean | null> {
+  // Gather the deltas of every folder first: a move shows up as a delete in one
+  // folder and an add in another
+  const deltas: Array<{ state: DemoState; folderPath: string } & StorageListing> = []
+  try {
+    await Promise.all(
+      DEMO_STATES.map(async state => {
+        const folderPath = STATUS_FOLDERS[state]
+        const delta = await storage.listChanges(cache.cursors[folderPath])
+        deltas.push({ state, folderPath, ...delta })
+      })
+    )
+  } catch (error) {
+    console.error('Could not continue from stored cursors, falling back to a full rescan:', error)
+    return null
+  }
+
+  const changeCount = deltas.reduce((count, delta) => count + delta.entries.length, 0)
+  deltas.forEach(delta => { cache.cursors[delta.folderPath] = delta.cursor })
+
+  if (changeCount === 0) {
+    return false
+  }
+
+  const demoIdByPath = new Map(
+    Object.entries(cache.files).map(([demoId, file]) => [file.path_lower, demoId])
+  )
+  const removedIds = new Set<string>()
+  // Audio files to (re)index, keyed by lowercased audio path
+  const candidates = new Map<string, { state: DemoState; folderPath: string; audioName: string }>()
+
+  for (const { state, folderPath, entries } of deltas) {
+    for (const entry of entries) {
+      const isMetadata = entry.name.toLowerCase().endsWith(METADATA_SUFFIX)
+      const audioName = isMetadata ? entry.name.slice(0, -METADATA_SUFFIX.length) : entry.name
+      if (!isAudioFileName(audioName)) continue
+
+      const audioPathLower = `${folderPath}/${audioName}`.toLowerCase()
+
+      if (entry.type === 'deleted') {
+        const demoId = demoIdByPath.get(audioPathLower)
+        if (demoId) removedIds.add(demoId)
+      } else if (entry.type === 'file') {
+        candidates.set(audioPathLower, { state, folderPath, audioName })
+      }
+    }
+  }
+
+  for (const [audioPathLower, { state, folderPath, audioName }] of candidates) {
+    const existingId = demoIdByPath.get(audioPathLower)
+    const movedId = existingId
+      ? null
+      : Array.from(removedIds).find(demoId => baseName(cache.files[demoId].path_lower) === baseName(audioPathLower))
+
+    if (movedId) {
+      // Moved between workflow folders: re-point it, the shared link follows the file
+      removedIds.delete(movedId)
+      cache.files[movedId].path_lower = audioPathLower
+      const demo = cache.demos.find(d => d.demo_id === movedId)
+      if (demo) demo.status = state
+      continue
+    }
+
+    // New demo, or metadata/audio changed in place: (re)read the metadata
+    const metadata = await downloadMetadata(storage, folderPath, `${audioName}${METADATA_SUFFIX}`)
+    if (!metadata) {
+      // Metadata not uploaded yet; it will be indexed when the metadata file arrives
+      continue
+    }
+
+    const previous = cache.demos.find(d => d.demo_id === metadata.demo_id)
+    const sharedLink = previous?.shared_link || await storage.getPlayableLink(`${folderPath}/${audioName}`)
+    const demo = demoFromMetadata(metadata, state, sharedLink)
+
+    if (previous) {
+      Object.assign(previous, demo)
+    } else {
+      cache.demos.push(demo)
+    }
+    removedIds.delete(metadata.demo_id)
+    cache.files[metadata.demo_id] = { path_lower: audioPathLower, submitted_at: metadata.submitted_at }
+  }
+
+  // Deleted (e.g. by the rejected cleanup cron) and not re-added elsewhere
+  if (removedIds.size > 0) {
+    cache.demos = cache.demos.filter(demo => !removedIds.has(demo.demo_id))
+    removedIds.forEach(demoId => delete cache.files[demoId])
+  }
+
+  sortDemos(cache)
+  console.log(`✓ Applied ${changeCount} storage change(s) to the demo index`)
+  return true
+}
+
+/**
+ * Whether deltas can be applied to the cache instead of doing a full rescan
+ */
+function isCacheUsable(cache: DemoCache): boolean {
+  return cache.version === DEMOS_CACHE_VERSION &&
+    cache.provider === getStorage().name &&
+    Date.now() - cache.timestamp < FULL_SYNC_INTERVAL &&
+    DEMO_STATES.every(state => !!cache.cursors?.[STATUS_FOLDERS[state]])
+}
+
+/**
+ * Record that a verified Dropbox webhook notification arrived and its changes are in the index
+ */
+export async function markDropboxWebhookReceived() {
+  await redis.set(CACHE_KEYS.DROPBOX_WEBHOOK_LAST_SEEN, Date.now())
+}
+
+/**
+ * Stop trusting the index after a webhook whose changes could not be applied,
+ * so page loads ask Dropbox for the deltas again
+ */
+export async function clearDropboxWebhookReceived() {
+  await redis.del(CACHE_KEYS.DROPBOX_WEBHOOK_LAST_SEEN)
+}
+
+/**
+ * Bring the cached index up to date with storage
+ * Applies deltas since the stored cursors; does a full rescan when there is no usable
+ * cache, a cursor was reset, or the last full rescan is older than FULL_SYNC_INTERVAL
+ */
+export async function syncDemosIndex(): Promise<{ cache: DemoCache; mode: 'cached' | 'incremental' | 'full' }> {
+  const storage = getStorage()
+  const demosCache = await redis.get<DemoCache>(CACHE_KEYS.DEMOS)
+
+  if (demosCache && isCacheUsable(demosCache)) {
+    const previousCursors = JSON.stringify(demosCache.cursors)
+    const changed = await applyDeltas(storage, demosCache)
+
+    if (changed !== null) {
+      if (changed || JSON.stringify(demosCache.cursors) !== previousCursors) {
+        await saveCache(demosCache)
+      }
+      return { cache: demosCache, mode: changed ? 'incremental' : 'cached' }
+    }
+  }
+
+  const cache = await fullSync(storage)
+  await saveCache(cache)
+  return { cache, mode: 'full' }
+}
+
+/**
+ * Load every demo with score aggregates and email languages from the synced index
+ * Shared by GET /api/demos, /api/demos/counts and /api/demos/dashboard
+ * Dropbox is only asked for deltas when no webhook notification arrived recently
+ */
+export async function loadDemos(): Promise<{ demos: Demo[]; cached: boolean }> {
+  // Webhooks keep the index fresh, so serve it without asking Dropbox
+  const [demosCache, webhookLastSeen] = await Promise.all([
+    redis.get<DemoCache>(CACHE_KEYS.DEMOS),
+    redis.get<number>(CACHE_KEYS.DROPBOX_WEBHOOK_LAST_SEEN),
+  ])
+  if (
+    demosCache &&
+    isCacheUsable(demosCache) &&
+    webhookLastSeen &&
+    Date.now() - webhookLastSeen < WEBHOOK_TRUST_WINDOW
+  ) {
+    return { demos: await attachEmailLocales(await attachScoreSummaries(demosCache.demos)), cached: true }
+  }
+
+  const { cache, mode } = await syncDemosIndex()
+  return { demos: await attachEmailLocales(await attachScoreSummaries(cache.demos)), cached: mode !== 'full' }
+}
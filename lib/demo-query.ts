@@ -0,0 +1,280 @@
+/**
+ * Demo list query parsing, filtering and sorting
+ * Applied by GET /api/demos against the cached demo list so the dashboard
+ * no longer downloads every demo to filter and sort in the browser.
+ */
+
+import { DEMO_STATES, getAllowedActions, isDemoState, type DemoState, type WorkflowRole } from '@/lib/demo-workflow'
+import type { DemoScoreSummary } from '@/lib/demo-scoring'
+
+export const DEMO_SORT_FIELDS = ['submitted_at', 'score', 'artist_name', 'track_title'] as const
+
+export type DemoSortField = typeof DEMO_SORT_FIELDS[number]
+
+export const DEFAULT_PER_PAGE = 50
+export const MAX_PER_PAGE = 500
+
+// Legacy status names still used by older clients, mapped to workflow states
+const STATUS_ALIASES: Record<string, DemoState> = {
+  liked: 'assistant_liked',
+  rejected_by_assistant: 'rejected',
+  rejected_by_admin: 'rejected',
+  approved: 'owner_liked',
+}
+
+export interface DemoQuery {
+  statuses: DemoState[] | null
+  q: string | null
+  artistName: string | null
+  trackTitle: string | null
+  from: Date | null
+  to: Date | null
+  minScore: number | null
+  sort: DemoSortField
+  order: 'asc' | 'desc'
+  page: number
+  perPage: number
+}
+
+interface QueryableDemo {
+  demo_id: string
+  track_title: string
+  artist_name: string
+  email: string
+  submitted_at: string
+  status: string
+  score?: DemoScoreSummary | null
+}
+
+/**
+ * Parse a date-only (YYYY-MM-DD) or ISO query value, returns null when invalid
+ */
+function parseQueryDate(value: string, endOfDay: boolean): Date | null {
+  const dateOnly = /^\d{4}-\d{2}-\d{2}$/.test(value)
+  const date = new Date(dateOnly ? `${value}T${endOfDay ? '23:59:59.999' : '00:00:00'}` : value)
+  return isNaN(date.getTime()) ? null : date
+}
+
+/**
+ * Parse submitted_at as stored in the demos cache (DD/MM/YYYY, or the raw YYYYMMDD_HHMMSS)
+ */
+export function parseDemoSubmittedAt(value: string): Date | null {
+  if (!value) return null
+
+  const display = value.match(/^(\d{2})\/(\d{2})\/(\d{4})$/)
+  if (display) {
+    return new Date(`${display[3]}-${display[2]}-${display[1]}T00:00:00`)
+  }
+
+  const raw = value.match(/^(\d{4})(\d{2})(\d{2})_(\d{2})(\d{2})(\d{2})$/)
+  if (raw) {
+    return new Date(`${raw[1]}-${raw[2]}-${raw[3]}T${raw[4]}:${raw[5]}:${raw[6]}`)
+  }
+
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? null : date
+}
+
+/**
+ * Parse the demo list query string, returns an error message for invalid values
+ * Accepts both the short names (q, from, to, per_page) and the names sent by
+ * DemoService (search, dateFrom, dateTo, limit)
+ */
+export function parseDemoQuery(searchParams: URLSearchParams): { query: DemoQuery } | { error: string } {
+  // status may be repeated and/or comma separated; "all" means no status filter
+  const rawStatuses = searchParams
+    .getAll('status')
+    .flatMap(value => value.split(','))
+    .map(value => value.trim())
+    .filter(Boolean)
+
+  let statuses: DemoState[] | null = null
+  if (rawStatuses.length > 0 && !rawStatuses.includes('all')) {
+    const resolved = new Set<DemoState>()
+    for (const value of rawStatuses) {
+      const state = isDemoState(value)
+        ? value
+        : Object.hasOwn(STATUS_ALIASES, value) ? STATUS_ALIASES[value] : null
+      if (!state) {
+        return { error: `Invalid status "${value}". Must be one of: all, ${DEMO_STATES.join(', ')}` }
+      }
+      resolved.add(state)
+    }
+    statuses = Array.from(resolved)
+  }
+
+  const fromValue = searchParams.get('from') || searchParams.get('dateFrom')
+  const toValue = searchParams.get('to') || searchParams.get('dateTo')
+  const from = fromValue ? parseQueryDate(fromValue, false) : null
+  const to = toValue ? parseQueryDate(toValue, true) : null
+  if (fromValue && !from) {
+    return { error: `Invalid from date "${fromValue}"` }
+  }
+  if (toValue && !to) {
+    return { error: `Invalid to date "${toValue}"` }
+  }
+
+  const sort = (searchParams.get('sort') || 'submitted_at') as DemoSortField
+  if (!DEMO_SORT_FIELDS.includes(sort)) {
+    return { error: `Invalid sort "${sort}". Must be one of: ${DEMO_SORT_FIELDS.join(', ')}` }
+  }
+
+  const orderValue = searchParams.get('order')
+  if (orderValue && orderValue !== 'asc' && orderValue !== 'desc') {
+    return { error: 'Invalid order. Must be one of: asc, desc' }
+  }
+  // Dates and scores default to highest first, names to alphabetical
+  const order = (orderValue || (sort === 'submitted_at' || sort === 'score' ? 'desc' : 'asc')) as 'asc' | 'desc'
+
+  const minScoreValue = searchParams.get('min_score')
+  const minScore = minScoreValue ? Number(minScoreValue) : null
+  if (minScore !== null && isNaN(minScore)) {
+    return { error: 'Invalid min_score' }
+  }
+
+  const page = Math.max(1, parseInt(searchParams.get('page') || '1') || 1)
+  const perPage = Math.min(
+    MAX_PER_PAGE,
+    Math.max(1, parseInt(searchParams.get('per_page') || searchParams.get('limit') || `${DEFAULT_PER_PAGE}`) || DEFAULT_PER_PAGE)
+  )
+
+  return {
+    query: {
+      statuses,
+      q: (searchParams.get('q') || searchParams.get('search') || '').trim().toLowerCase() || null,
+      artistName: searchParams.get('artist_name')?.trim().toLowerCase() || null,
+      trackTitle: searchParams.get('track_title')?.trim().toLowerCase() || null,
+      from,
+      to,
+      minScore,
+      sort,
+      order,
+      page,
+      perPage,
+    },
+  }
+}
+
+/**
+ * Filter and sort demos according to a parsed query (pagination is left to the caller)
+ */
+export function applyDemoQuery<T extends QueryableDemo>(demos: T[], query: DemoQuery): T[] {
+  // Every whitespace separated term must match the artist, track or email
+  const terms = query.q ? query.q.split(/\s+/) : []
+
+  const filtered = demos.filter(demo => {
+    if (query.statuses && !query.statuses.includes(demo.status as DemoState)) {
+      return false
+    }
+
+    if (terms.length > 0) {
+      const haystack = `${demo.artist_name} ${demo.track_title} ${demo.email}`.toLowerCase()
+      if (!terms.every(term => haystack.includes(term))) {
+        return false
+      }
+    }
+
+    if (query.artistName && !demo.artist_name.toLowerCase().includes(query.artistName)) {
+      return false
+    }
+
+    if (query.trackTitle && !demo.track_title.toLowerCase().includes(query.trackTitle)) {
+      return false
+    }
+
+    if (query.from || query.to) {
+      const submittedAt = parseDemoSubmittedAt(demo.submitted_at)
+      if (!submittedAt) return false
+      if (query.from && submittedAt < query.from) return false
+      if (query.to && submittedAt > query.to) return false
+    }
+
+    if (query.minScore !== null && query.minScore > 0) {
+      const average = demo.score?.average
+      if (average == null || average < query.minScore) {
+        return false
+      }
+    }
+
+    return true
+  })
+
+  // The cached list is already ordered newest first by full submission timestamp,
+  // which is more precise than the day-level submitted_at the demos carry
+  if (query.sort === 'submitted_at') {
+    return query.order === 'asc' ? filtered.reverse() : filtered
+  }
+
+  const direction = query.order === 'asc' ? 1 : -1
+
+  // Array sort is stable, so ties keep the newest-first order
+  return filtered.sort((a, b) => {
+    if (query.sort === 'score') {
+      // Unscored demos always go last
+      const scoreA = a.score?.average ?? null
+      const scoreB = b.score?.average ?? null
+      if (scoreA === null || scoreB === null) {
+        return scoreA === scoreB ? 0 : scoreA === null ? 1 : -1
+      }
+      return (scoreA - scoreB) * direction
+    }
+
+    const field = query.sort as 'artist_name' | 'track_title'
+    return a[field].localeCompare(b[field], undefined, { sensitivity: 'base' }) * direction
+  })
+}
+
+/**
+ * Slice one page out of the matching demos, with the pagination block the list endpoints return
+ */
+export function paginateDemos<T>(demos: T[], query: DemoQuery) {
+  const startIndex = (query.page - 1) * query.perPage
+  const endIndex = startIndex + query.perPage
+
+  return {
+    demos: demos.slice(startIndex, endIndex),
+    pagination: {
+      page: query.page,
+      per_page: query.perPage,
+      total: demos.length,
+      total_pages: Math.ceil(demos.length / query.perPage),
+      has_next: endIndex < demos.length,
+      has_prev: query.page > 1,
+    },
+  }
+}
+
+export type DemoStatusCounts = Record<DemoState, number> & {
+  total: number
+  // Demos the requested role can act on (only present when a role is given)
+  actionable?: number
+}
+
+/**
+ * Count demos per workflow state, plus how many the given role can act on
+ */
+export function countDemos(demos: QueryableDemo[], role?: WorkflowRole): DemoStatusCounts {
+  const counts = Object.fromEntries(DEMO_STATES.map(state => [state, 0])) as DemoStatusCounts
+  counts.total = demos.length
+
+  demos.forEach(demo => {
+    if (isDemoState(demo.status)) {
+      counts[demo.status]++
+    }
+  })
+
+  if (role) {
+    counts.actionable = demos.filter(demo => getAllowedActions(demo.status, role).length > 0).length
+  }
+
+  return counts
+}
+
+/**
+ * Map the role query param (dashboard roles or workflow roles) to a workflow role
+ */
+export function parseWorkflowRole(value: string | null): WorkflowRole | null {
+  if (value === 'admin' || value === 'owner') return 'owner'
+  if (value === 'assistant') return 'assistant'
+  return null
+}
@@ -0,0 +1,82 @@
+/**
+ * Demo scoring definition
+ * Each reviewer scores a demo once per criterion (1-5); shared by the scores API,
+ * the demos list aggregation and the dashboard UI.
+ */
+
+export const SCORE_CRITERIA = [
+  { key: 'production', label: 'Production' },
+  { key: 'mixdown', label: 'Mixdown' },
+  { key: 'label_fit', label: 'Label Fit' },
+] as const
+
+export type ScoreCriterion = typeof SCORE_CRITERIA[number]['key']
+
+export const MIN_SCORE = 1
+export const MAX_SCORE = 5
+
+/**
+ * One reviewer's scores for a demo
+ */
+export interface DemoScore {
+  demo_id: string
+  reviewer_id: string
+  reviewer_name: string | null
+  scores: Record<ScoreCriterion, number>
+  updated_at: string
+}
+
+/**
+ * Aggregate of all reviewers' scores for a demo
+ */
+export interface DemoScoreSummary {
+  average: number | null
+  count: number
+  criteria: Record<ScoreCriterion, number | null>
+}
+
+function roundScore(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+/**
+ * Validate a scores payload, returns an error message or null when valid
+ */
+export function validateScores(scores: unknown): string | null {
+  if (!scores || typeof scores !== 'object' || Array.isArray(scores)) {
+    return 'Scores are required'
+  }
+
+  for (const { key, label } of SCORE_CRITERIA) {
+    const value = (scores as Record<string, unknown>)[key]
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < MIN_SCORE || value > MAX_SCORE) {
+      return `${label} must be a whole number from ${MIN_SCORE} to ${MAX_SCORE}`
+    }
+  }
+
+  return null
+}
+
+/**
+ * Compute per-criterion and overall averages across reviewers
+ */
+export function summarizeScores(scores: DemoScore[]): DemoScoreSummary {
+  const criteria = {} as Record<ScoreCriterion, number | null>
+
+  for (const { key } of SCORE_CRITERIA) {
+    const values = scores.map(score => score.scores[key]).filter(value => typeof value === 'number')
+    criteria[key] = values.length
+      ? roundScore(values.reduce((sum, value) => sum + value, 0) / values.length)
+      : null
+  }
+
+  const criteriaAverages = Object.values(criteria).filter((value): value is number => value !== null)
+
+  return {
+    average: criteriaAverages.length
+      ? roundScore(criteriaAverages.reduce((sum, value) => sum + value, 0) / criteriaAverages.length)
+      : null,
+    count: scores.length,
+    criteria,
+  }
+}
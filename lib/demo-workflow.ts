@@ -0,0 +1,155 @@
+/**
+ * Demo review workflow definition
+ * Single source of truth for demo states, the Dropbox folder backing each state,
+ * which role may perform which action, and which notification an action sends.
+ * Shared by the action API routes and the dashboard UI.
+ */
+
+export type WorkflowRole = 'assistant' | 'owner'
+
+export type DemoState = 'submitted' | 'assistant_liked' | 'rejected' | 'owner_liked'
+
+export type DemoAction = 'like' | 'reject' | 'undo_reject' | 'approve'
+
+export type NotificationType = 'liked' | 'rejected' | 'approved'
+
+export interface WorkflowState {
+  label: string
+  folder: string
+}
+
+export interface WorkflowTransition {
+  action: DemoAction
+  label: string
+  from: DemoState[]
+  to: DemoState
+  roles: WorkflowRole[]
+  notification?: NotificationType
+  // Notification of the action being undone; cancelled if it has not been sent yet
+  cancelsNotification?: NotificationType
+}
+
+export const DEMO_WORKFLOW: {
+  states: Record<DemoState, WorkflowState>
+  transitions: WorkflowTransition[]
+} = {
+  states: {
+    submitted: { label: 'Submitted', folder: '/demos/submitted' },
+    assistant_liked: { label: 'Liked by Assistant', folder: '/demos/assistant_liked' },
+    rejected: { label: 'Rejected', folder: '/demos/rejected' },
+    owner_liked: { label: 'Approved by Owner', folder: '/demos/owner_liked' },
+  },
+  transitions: [
+    {
+      action: 'like',
+      label: 'Like',
+      from: ['submitted'],
+      to: 'assistant_liked',
+      roles: ['assistant', 'owner'],
+      notification: 'liked',
+    },
+    {
+      action: 'approve',
+      label: 'Approve',
+      from: ['assistant_liked'],
+      to: 'owner_liked',
+      roles: ['owner'],
+      notification: 'approved',
+    },
+    {
+      action: 'reject',
+      label: 'Reject',
+      from: ['submitted', 'assistant_liked'],
+      to: 'rejected',
+      roles: ['assistant', 'owner'],
+      notification: 'rejected',
+    },
+    {
+      action: 'undo_reject',
+      label: 'Undo Reject',
+      from: ['rejected'],
+      to: 'assistant_liked',
+      roles: ['assistant', 'owner'],
+      cancelsNotification: 'rejected',
+    },
+  ],
+}
+
+/**
+ * Dropbox folder for each workflow state
+ */
+export const STATUS_FOLDERS = Object.fromEntries(
+  Object.entries(DEMO_WORKFLOW.states).map(([state, config]) => [state, config.folder])
+) as Record<DemoState, string>
+
+/**
+ * All workflow states in definition order
+ */
+export const DEMO_STATES = Object.keys(DEMO_WORKFLOW.states) as DemoState[]
+
+export function isDemoState(value: string | null | undefined): value is DemoState {
+  return !!value && Object.hasOwn(DEMO_WORKFLOW.states, value)
+}
+
+/**
+ * Whether a notification still describes a demo in this state: an action sending it leads
+ * there. Once the action is undone (and its email cancelled), it no longer does
+ */
+export function isNotificationCurrent(notification: NotificationType, state: string | null | undefined): boolean {
+  return DEMO_WORKFLOW.transitions.some(
+    transition => transition.notification === notification && transition.to === state
+  )
+}
+
+/**
+ * Actions a role can ever perform, regardless of demo state
+ */
+export function getRoleActions(role: WorkflowRole): DemoAction[] {
+  const actions = DEMO_WORKFLOW.transitions
+    .filter(transition => transition.roles.includes(role))
+    .map(transition => transition.action)
+
+  return Array.from(new Set(actions))
+}
+
+/**
+ * Transitions a role may perform on a demo in the given state
+ */
+export function getAllowedTransitions(state: string, role: WorkflowRole): WorkflowTransition[] {
+  if (!isDemoState(state)) return []
+
+  return DEMO_WORKFLOW.transitions.filter(
+    transition => transition.roles.includes(role) && transition.from.includes(state)
+  )
+}
+
+/**
+ * Actions a role may perform on a demo in the given state
+ */
+export function getAllowedActions(state: string, role: WorkflowRole): DemoAction[] {
+  return getAllowedTransitions(state, role).map(transition => transition.action)
+}
+
+/**
+ * Find the transition for an action from the given state, or null if it is not allowed
+ */
+export function findTransition(
+  action: string,
+  state: string,
+  role: WorkflowRole
+): WorkflowTransition | null {
+  return getAllowedTransitions(state, role).find(transition => transition.action === action) || null
+}
+
+/**
+ * States an action can be performed from by the given role
+ */
+export function getSourceStates(action: string, role: WorkflowRole): DemoState[] {
+  const states = new Set<DemoState>()
+
+  DEMO_WORKFLOW.transitions
+    .filter(transition => transition.action === action && transition.roles.includes(role))
+    .forEach(transition => transition.from.forEach(state => states.add(state)))
+
+  return Array.from(states)
+}
@@ -1,3 +1,4 @@
+import { createHmac, timingSafeEqual } from 'crypto'
 import { Dropbox } from 'dropbox'
 import { redis, CACHE_KEYS, CACHE_TTL } from './redis'
 
@@ -64,3 +65,60 @@ export async function getDropboxClient(): Promise<Dropbox> {
     fetch: fetch,
   })
 }
+
+/**
+ * Get a link to a Dropbox file that plays directly in an audio element
+ * Reuses (or creates) a public shared link converted to a direct download URL,
+ * falling back to a temporary link; returns an empty string if both fail
+ */
+export async function getPlayableLink(dbx: Dropbox, filePath: string): Promise<string> {
+  try {
+    // Try to get existing shared link first (faster)
+    const existingLinks = await dbx.sharingListSharedLinks({ path: filePath })
+
+    const url = existingLinks.result.links.length > 0
+      ? existingLinks.result.links[0].url
+      // Create new shared link if none exists
+      : (await dbx.sharingCreateSharedLinkWithSettings({
+          path: filePath,
+          settings: { requested_visibility: { '.tag': 'public' } }
+        })).result.url
+
+    // Change www.dropbox.com to dl.dropboxusercontent.com and remove ?dl=0
+    return url
+      .replace('www.dropbox.com', 'dl.dropboxusercontent.com')
+      .replace('?dl=0', '')
+      .replace('?dl=1', '')
+  } catch (error) {
+    // Fallback: use temporary link (these work directly in audio players)
+    try {
+      const tempLink = await dbx.filesGetTemporaryLink({ path: filePath })
+      return tempLink.result.link
+    } catch (tempError) {
+      console.error(`Failed to create temp link for ${filePath}:`, tempError)
+      return ''
+    }
+  }
+}
+
+/**
+ * Sign a webhook request body the way Dropbox does: hex HMAC-SHA256 keyed with the app secret
+ */
+export function signDropboxWebhookBody(body: string, appSecret: string): string {
+  return createHmac('sha256', appSecret).update(body, 'utf8').digest('hex')
+}
+
+/**
+ * Verify the X-Dropbox-Signature header of a webhook request against the raw body
+ */
+export function verifyDropboxWebhookSignature(body: string, signature: string | null): boolean {
+  const appSecret = process.env.DROPBOX_APP_SECRET
+  if (!appSecret || !signature) {
+    return false
+  }
+
+  const expected = Buffer.from(signDropboxWebhookBody(body, appSecret), 'utf8')
+  const received = Buffer.from(signature.trim().toLowerCase(), 'utf8')
+
+  return expected.length === received.length && timingSafeEqual(expected, received)
+}
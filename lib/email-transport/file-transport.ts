@@ -0,0 +1,33 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import type { EmailTransport, OutgoingEmail, SentEmail } from './types'
+
+/**
+ * Development transport: every message is written to a folder as an .eml file instead of
+ * being sent, so the review flow can run locally and outgoing mail can be inspected
+ * (or opened in a mail client) without any email credentials
+ */
+export class FileTransport implements EmailTransport {
+  readonly name = 'file' as const
+
+  constructor(private readonly directory: string) {}
+
+  isConfigured(): boolean {
+    return true
+  }
+
+  /**
+   * Write the message to <directory>/<timestamp>-<message id>.eml, returns the Message-ID
+   */
+  async send(email: OutgoingEmail): Promise<SentEmail> {
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-')
+    const safeId = email.messageId.replace(/[^\w.-]+/g, '_')
+    const filePath = path.join(this.directory, `${timestamp}-${safeId}.eml`)
+
+    await fs.mkdir(this.directory, { recursive: true })
+    await fs.writeFile(filePath, email.raw, 'utf8')
+
+    console.log(`📧 Email to ${email.to.join(', ')} written to ${filePath}`)
+    return { id: email.messageId, threadId: null }
+  }
+}
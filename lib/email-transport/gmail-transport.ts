@@ -0,0 +1,120 @@
+import { PermanentDeliveryError, type EmailTransport, type OutgoingEmail, type SentEmail } from './types'
+
+/**
+ * Gmail REST API, authenticated with an OAuth 2.0 refresh token
+ * The access token is refreshed automatically when it is missing or expired
+ */
+export class GmailTransport implements EmailTransport {
+  readonly name = 'gmail' as const
+
+  private clientId: string
+  private clientSecret: string
+  private refreshToken: string
+  private accessToken: string | null
+
+  constructor() {
+    this.clientId = process.env.GMAIL_CLIENT_ID || ''
+    this.clientSecret = process.env.GMAIL_CLIENT_SECRET || ''
+    this.refreshToken = process.env.GMAIL_REFRESH_TOKEN || ''
+    this.accessToken = process.env.GMAIL_ACCESS_TOKEN || null
+
+    if (!this.isConfigured()) {
+      console.warn('Gmail API credentials not fully configured in environment variables')
+    }
+  }
+
+  isConfigured(): boolean {
+    return !!(this.clientId && this.clientSecret && this.refreshToken)
+  }
+
+  /**
+   * Get a valid access token, refreshing if necessary
+   */
+  private async getAccessToken(): Promise<string> {
+    // If we have an access token, try to use it first
+    if (this.accessToken) {
+      return this.accessToken
+    }
+
+    try {
+      const response = await fetch('https://oauth2.googleapis.com/token', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          client_id: this.clientId,
+          client_secret: this.clientSecret,
+          refresh_token: this.refreshToken,
+          grant_type: 'refresh_token',
+        }),
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(`Token refresh failed: ${JSON.stringify(errorData)}`)
+      }
+
+      const data = await response.json()
+      this.accessToken = data.access_token
+
+      if (!this.accessToken) {
+        throw new Error('Failed to obtain access token')
+      }
+
+      return this.accessToken
+    } catch (error) {
+      console.error('Failed to refresh access token:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Send via the Gmail API, returns the Gmail message and thread ids
+   * Gmail only adds the message to threadId when its References header and subject match
+   * the thread as well; otherwise it starts a new thread
+   */
+  async send(email: OutgoingEmail): Promise<SentEmail> {
+    if (!this.isConfigured()) {
+      throw new Error('Email service not configured')
+    }
+
+    let accessToken = await this.getAccessToken()
+
+    // Gmail expects the raw message URL-safe base64 encoded
+    const encodedMessage = Buffer.from(email.raw).toString('base64url')
+
+    const sendMessage = async (token: string): Promise<Response> => {
+      return await fetch('https://gmail.googleapis.com/gmail/v1/users/me/messages/send', {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          raw: encodedMessage,
+          ...(email.threadId ? { threadId: email.threadId } : {}),
+        }),
+      })
+    }
+
+    let response = await sendMessage(accessToken)
+
+    // If token expired, refresh and retry once
+    if (response.status === 401) {
+      console.log('Access token expired, refreshing...')
+      this.accessToken = null
+      accessToken = await this.getAccessToken()
+      response = await sendMessage(accessToken)
+    }
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => null)
+      console.error('Failed to send email:', errorData)
+      const message = `Gmail API responded ${response.status}: ${errorData?.error?.message || response.statusText}`
+      // 400: Gmail refused the message itself (e.g. an invalid recipient), sending it again fails the same way
+      throw response.status === 400 ? new PermanentDeliveryError(message) : new Error(message)
+    }
+
+    const result = await response.json()
+    return { id: result.id, threadId: result.threadId || null }
+  }
+}
@@ -0,0 +1,41 @@
+import path from 'path'
+import { FileTransport } from './file-transport'
+import { GmailTransport } from './gmail-transport'
+import { SmtpTransport } from './smtp-transport'
+import type { EmailTransport } from './types'
+
+export * from './types'
+export * from './mime'
+export { FileTransport, GmailTransport, SmtpTransport }
+
+let transportInstance: EmailTransport | null = null
+
+/**
+ * Get the configured email transport
+ * EMAIL_TRANSPORT=smtp sends through SMTP_HOST / SMTP_PORT (default 587, SMTP_SECURE=true
+ * for implicit TLS) with optional SMTP_USER / SMTP_PASSWORD, EMAIL_TRANSPORT=file writes
+ * .eml files to EMAIL_FILE_DIR (default ./mail), anything else uses the Gmail API
+ */
+export function getEmailTransport(): EmailTransport {
+  if (!transportInstance) {
+    switch (process.env.EMAIL_TRANSPORT) {
+      case 'smtp': {
+        const port = parseInt(process.env.SMTP_PORT || '587', 10)
+        transportInstance = new SmtpTransport({
+          host: process.env.SMTP_HOST || '',
+          port,
+          secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+          user: process.env.SMTP_USER || undefined,
+          password: process.env.SMTP_PASSWORD || undefined,
+        })
+        break
+      }
+      case 'file':
+        transportInstance = new FileTransport(path.resolve(process.env.EMAIL_FILE_DIR || 'mail'))
+        break
+      default:
+        transportInstance = new GmailTransport()
+    }
+  }
+  return transportInstance
+}
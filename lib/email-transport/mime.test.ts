@@ -0,0 +1,181 @@
+import { describe, expect, it } from 'vitest'
+import {
+  buildMimeMessage,
+  encodeHeaderText,
+  encodeQuotedPrintable,
+  MimeHeaderError,
+  type MimeMessage,
+} from './mime'
+
+const MESSAGE: MimeMessage = {
+  from: { name: 'Collecting Dots Records', address: 'demos@collectingdots.com' },
+  to: [{ address: 'artist@example.com' }],
+  subject: 'Your demo',
+  messageId: 'demo-1.liked@collectingdots.com',
+  date: new Date('2026-01-01T12:00:00Z'),
+  text: 'Hello',
+}
+
+// Header block of a message, continuation lines joined back onto their header
+function unfoldedHeaders(raw: string): string[] {
+  return raw.split('\r\n\r\n')[0].replace(/\r\n[ \t]/g, ' ').split('\r\n')
+}
+
+function decodeEncodedWords(value: string): string {
+  return value
+    .split('\r\n ')
+    .map(word => {
+      const match = /^=\?UTF-8\?B\?([A-Za-z0-9+/=]*)\?=$/.exec(word)
+      if (!match) throw new Error(`Not an encoded word: ${word}`)
+      return Buffer.from(match[1], 'base64').toString('utf8')
+    })
+    .join('')
+}
+
+function decodeQuotedPrintable(value: string): string {
+  const bytes: number[] = []
+  const unwrapped = value.replace(/=\r\n/g, '')
+  for (let index = 0; index < unwrapped.length; index++) {
+    if (unwrapped[index] === '=') {
+      bytes.push(parseInt(unwrapped.slice(index + 1, index + 3), 16))
+      index += 2
+    } else {
+      bytes.push(unwrapped.charCodeAt(index))
+    }
+  }
+  return Buffer.from(bytes).toString('utf8').replace(/\r\n/g, '\n')
+}
+
+describe('header injection', () => {
+  it('rejects addresses with line breaks', () => {
+    for (const address of ['artist@example.com\r\nBcc: victim@example.com', 'artist@example.com\nBcc: victim@example.com']) {
+      expect(() => buildMimeMessage({ ...MESSAGE, to: [{ address }] })).toThrow(MimeHeaderError)
+      expect(() => buildMimeMessage({ ...MESSAGE, replyTo: { address } })).toThrow(MimeHeaderError)
+    }
+  })
+
+  it('rejects Message-IDs with line breaks', () => {
+    expect(() => buildMimeMessage({ ...MESSAGE, messageId: 'a@b.com\r\nBcc: victim@example.com' })).toThrow(MimeHeaderError)
+    expect(() => buildMimeMessage({ ...MESSAGE, references: ['a@b.com\r\nBcc: victim@example.com'] })).toThrow(MimeHeaderError)
+  })
+
+  it('names the offending header', () => {
+    expect(() => buildMimeMessage({ ...MESSAGE, replyTo: { address: 'not an address' } }))
+      .toThrow('Invalid Reply-To header')
+  })
+
+  it('rejects a message without recipients', () => {
+    expect(() => buildMimeMessage({ ...MESSAGE, to: [] })).toThrow(MimeHeaderError)
+  })
+
+  it('folds line breaks in the subject and display names into spaces', () => {
+    const raw = buildMimeMessage({
+      ...MESSAGE,
+      subject: 'Your demo\r\nBcc: victim@example.com',
+      to: [{ name: 'Artist\r\nBcc: victim@example.com', address: 'artist@example.com' }],
+    })
+    const headers = unfoldedHeaders(raw)
+
+    expect(headers.some(header => header.startsWith('Bcc:'))).toBe(false)
+    expect(headers).toContain('Subject: Your demo Bcc: victim@example.com')
+    expect(headers).toContain('To: "Artist Bcc: victim@example.com" <artist@example.com>')
+  })
+})
+
+describe('encodeHeaderText', () => {
+  it('leaves plain ASCII as it is', () => {
+    expect(encodeHeaderText('Your demo "Night Drive"')).toBe('Your demo "Night Drive"')
+  })
+
+  it('sends non-ASCII text as encoded words that decode to the original', () => {
+    const subject = 'Ta démo « Nuit blanche » — 東京 🎧'
+    const encoded = encodeHeaderText(subject)
+
+    expect(encoded).toMatch(/^[\x20-\x7e\r\n]*$/)
+    expect(decodeEncodedWords(encoded)).toBe(subject)
+  })
+
+  it('keeps every encoded word within 75 characters and whole characters within one word', () => {
+    const encoded = encodeHeaderText('Über '.repeat(20) + '🎧'.repeat(20))
+    const words = encoded.split('\r\n ')
+
+    expect(words.length).toBeGreaterThan(1)
+    for (const word of words) {
+      expect(word.length).toBeLessThanOrEqual(75)
+      // Each word decodes on its own, so no character was split between two words
+      expect(decodeEncodedWords(word)).not.toContain('�')
+    }
+  })
+
+  it('encodes text that only looks like an encoded word', () => {
+    const encoded = encodeHeaderText('=?UTF-8?B?SGk=?=')
+    expect(encoded).not.toBe('=?UTF-8?B?SGk=?=')
+    expect(decodeEncodedWords(encoded)).toBe('=?UTF-8?B?SGk=?=')
+  })
+
+  it('folds long subjects so no header line exceeds 76 characters', () => {
+    const raw = buildMimeMessage({ ...MESSAGE, subject: 'A very long subject line '.repeat(10) })
+    const subjectLines = raw.split('\r\n\r\n')[0].split('\r\n').filter(line => line.startsWith('Subject:') || line.startsWith(' '))
+
+    expect(subjectLines.length).toBeGreaterThan(1)
+    for (const line of subjectLines) {
+      expect(line.length).toBeLessThanOrEqual(76)
+    }
+  })
+})
+
+describe('encodeQuotedPrintable', () => {
+  it('wraps long lines with soft line breaks within 76 characters', () => {
+    const text = 'x'.repeat(200)
+    const lines = encodeQuotedPrintable(text).split('\r\n')
+
+    expect(lines.length).toBe(3)
+    for (const line of lines) {
+      expect(line.length).toBeLessThanOrEqual(76)
+    }
+    expect(lines.slice(0, -1).every(line => line.endsWith('='))).toBe(true)
+    expect(decodeQuotedPrintable(lines.join('\r\n'))).toBe(text)
+  })
+
+  it('never splits an escape sequence across a soft line break', () => {
+    const text = 'é'.repeat(100)
+    const encoded = encodeQuotedPrintable(text)
+
+    for (const line of encoded.split('\r\n')) {
+      expect(line.length).toBeLessThanOrEqual(76)
+      expect(line).toMatch(/^(=[0-9A-F]{2})*=?$/)
+    }
+    expect(decodeQuotedPrintable(encoded)).toBe(text)
+  })
+
+  it('escapes "=", trailing whitespace and non-ASCII characters', () => {
+    expect(encodeQuotedPrintable('a=b')).toBe('a=3Db')
+    expect(encodeQuotedPrintable('end \nnext\t')).toBe('end=20\r\nnext=09')
+    expect(encodeQuotedPrintable('ü')).toBe('=C3=BC')
+  })
+
+  it('keeps hard line breaks as CRLF', () => {
+    const text = 'one\ntwo\r\nthree\rfour'
+    expect(encodeQuotedPrintable(text)).toBe('one\r\ntwo\r\nthree\r\nfour')
+  })
+})
+
+describe('multipart boundary', () => {
+  it('cannot collide with body text, even text that copies the boundary format', () => {
+    const lookalike = '--=_Part_0123456789abcdef0123456789abcdef'
+    const raw = buildMimeMessage({ ...MESSAGE, text: `${lookalike}\n${lookalike}--`, html: `<p>${lookalike}</p>` })
+    const boundary = /boundary="([^"]+)"/.exec(raw)![1]
+
+    // Opening delimiter, the one between the parts and the closing one, nothing else
+    const parts = raw.split(`--${boundary}`)
+    expect(parts.length - 1).toBe(3)
+    // "=" is always escaped in quoted-printable, so "=_" cannot appear inside a part
+    expect(parts.slice(1, -1).some(part => part.includes('=_'))).toBe(false)
+    expect(raw).toContain(`\r\n--${boundary}--\r\n`)
+  })
+
+  it('is different for every message', () => {
+    const boundaries = [1, 2, 3].map(() => /boundary="([^"]+)"/.exec(buildMimeMessage({ ...MESSAGE, html: '<p>Hi</p>' }))![1])
+    expect(new Set(boundaries).size).toBe(3)
+  })
+})
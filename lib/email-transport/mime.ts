@@ -0,0 +1,229 @@
+import { randomBytes } from 'crypto'
+
+/**
+ * MIME message builder for outgoing email
+ * Artist and track names come straight from submissions, so every header value is checked:
+ * addresses and Message-IDs containing anything unexpected are rejected, free text such as the
+ * subject has line breaks folded away and non-ASCII text is sent as RFC 2047 encoded words.
+ * Bodies are UTF-8 quoted-printable, so no line is too long and any character survives transit
+ */
+
+export interface MimeAddress {
+  address: string
+  name?: string
+}
+
+export interface MimeMessage {
+  from: MimeAddress
+  to: MimeAddress[]
+  replyTo?: MimeAddress | null
+  subject: string
+  // Message-ID without angle brackets
+  messageId: string
+  // Earlier messages of the conversation, oldest first; the last one is the In-Reply-To
+  references?: string[]
+  date?: Date
+  text: string
+  html?: string
+}
+
+/**
+ * A header value that cannot be sent safely, e.g. an address with a line break in it
+ */
+export class MimeHeaderError extends Error {
+  constructor(public readonly header: string, reason: string) {
+    super(`Invalid ${header} header: ${reason}`)
+    this.name = 'MimeHeaderError'
+  }
+}
+
+// Longest line allowed by RFC 5322 and RFC 2045, without the CRLF
+const MAX_LINE_LENGTH = 76
+
+// 39 bytes make a 64 character encoded word, short enough to follow "Subject: " on a 76 character line
+const MAX_ENCODED_WORD_BYTES = 39
+
+// Plain addresses only: no spaces, brackets, quotes, commas or line breaks that could end the header
+const ADDRESS_PATTERN = /^[A-Za-z0-9.!#$%&'*+/=?^_`{|}~-]+@[A-Za-z0-9](?:[A-Za-z0-9.-]*[A-Za-z0-9])?$/
+
+const MESSAGE_ID_PATTERN = /^[A-Za-z0-9.!#$%&'*+/=?^_`{|}~-]+@[A-Za-z0-9.-]+$/
+
+// Display names made of these characters need no quoting
+const ATOM_PHRASE_PATTERN = /^[A-Za-z0-9!#$%&'*+/=?^_`{|}~ -]+$/
+
+function isPrintableAscii(value: string): boolean {
+  return /^[\x20-\x7e]*$/.test(value)
+}
+
+/**
+ * Free text for a header: line breaks and other control characters become spaces
+ */
+function toSingleLine(value: string): string {
+  return value.replace(/[\x00-\x1f\x7f]+/g, ' ').replace(/ {2,}/g, ' ').trim()
+}
+
+/**
+ * RFC 2047 "B" encoded words, each at most 75 characters and never splitting a character
+ */
+function encodeWords(value: string): string[] {
+  const words: string[] = []
+  let chunk = ''
+  for (const character of value) {
+    if (Buffer.byteLength(chunk + character, 'utf8') > MAX_ENCODED_WORD_BYTES) {
+      words.push(chunk)
+      chunk = ''
+    }
+    chunk += character
+  }
+  if (chunk) words.push(chunk)
+  return words.map(word => `=?UTF-8?B?${Buffer.from(word, 'utf8').toString('base64')}?=`)
+}
+
+/**
+ * Unstructured header text (the subject), encoded when it is not plain ASCII
+ * Long values are folded onto continuation lines
+ */
+export function encodeHeaderText(value: string): string {
+  const text = toSingleLine(value)
+  // Text that merely looks like an encoded word is encoded too, so it is shown as typed
+  if (isPrintableAscii(text) && !text.includes('=?')) {
+    return foldWords(text.split(' '))
+  }
+  return encodeWords(text).join('\r\n ')
+}
+
+function foldWords(words: string[]): string {
+  const lines: string[] = []
+  let line = ''
+  for (const word of words) {
+    if (line && line.length + 1 + word.length > MAX_LINE_LENGTH - 10) {
+      lines.push(line)
+      line = word
+    } else {
+      line = line ? `${line} ${word}` : word
+    }
+  }
+  lines.push(line)
+  return lines.join('\r\n ')
+}
+
+function encodeDisplayName(name: string): string {
+  const text = toSingleLine(name)
+  if (ATOM_PHRASE_PATTERN.test(text)) {
+    return text
+  }
+  if (isPrintableAscii(text) && !text.includes('=?')) {
+    return `"${text.replace(/(["\\])/g, '\\$1')}"`
+  }
+  return encodeWords(text).join('\r\n ')
+}
+
+function formatAddress(header: string, mailbox: MimeAddress): string {
+  const address = mailbox.address.trim()
+  if (!ADDRESS_PATTERN.test(address)) {
+    throw new MimeHeaderError(header, `"${address}" is not a plain email address`)
+  }
+  const name = mailbox.name ? encodeDisplayName(mailbox.name) : ''
+  return name ? `${name} <${address}>` : address
+}
+
+function formatMessageId(header: string, messageId: string): string {
+  if (!MESSAGE_ID_PATTERN.test(messageId)) {
+    throw new MimeHeaderError(header, `"${messageId}" is not a valid Message-ID`)
+  }
+  return `<${messageId}>`
+}
+
+/**
+ * Quoted-printable (RFC 2045) encoding of UTF-8 text with CRLF line endings
+ */
+export function encodeQuotedPrintable(value: string): string {
+  const lines = value.replace(/\r\n|\r|\n/g, '\n').split('\n')
+
+  return lines.map(line => {
+    const bytes = Buffer.from(line, 'utf8')
+    const encoded: string[] = []
+    bytes.forEach((byte, index) => {
+      const isLast = index === bytes.length - 1
+      // Trailing spaces and tabs would be stripped in transit, so they are encoded as well
+      const literal =
+        (byte >= 33 && byte <= 126 && byte !== 61) || ((byte === 32 || byte === 9) && !isLast)
+      encoded.push(literal ? String.fromCharCode(byte) : `=${byte.toString(16).toUpperCase().padStart(2, '0')}`)
+    })
+
+    // Soft line breaks ("=" at the end) keep every line within the limit without splitting an escape
+    const output: string[] = []
+    let current = ''
+    for (const token of encoded) {
+      if (current.length + token.length > MAX_LINE_LENGTH - 1) {
+        output.push(`${current}=`)
+        current = ''
+      }
+      current += token
+    }
+    output.push(current)
+    return output.join('\r\n')
+  }).join('\r\n')
+}
+
+/**
+ * Random multipart boundary
+ * "=_" cannot occur in quoted-printable output, so it can never collide with a body line
+ */
+function createBoundary(): string {
+  return `=_Part_${randomBytes(16).toString('hex')}`
+}
+
+function bodyPart(contentType: string, content: string): string[] {
+  return [
+    `Content-Type: ${contentType}; charset=UTF-8`,
+    'Content-Transfer-Encoding: quoted-printable',
+    '',
+    encodeQuotedPrintable(content),
+  ]
+}
+
+/**
+ * Build a complete message (headers and body) with CRLF line endings
+ * A plain text part is always included; with html the message is multipart/alternative.
+ * Throws a MimeHeaderError when an address or Message-ID is not safe to send
+ */
+export function buildMimeMessage(message: MimeMessage): string {
+  if (message.to.length === 0) {
+    throw new MimeHeaderError('To', 'no recipients')
+  }
+
+  const references = message.references || []
+  const headers = [
+    'MIME-Version: 1.0',
+    `Date: ${(message.date || new Date()).toUTCString()}`,
+    `Message-ID: ${formatMessageId('Message-ID', message.messageId)}`,
+    `From: ${formatAddress('From', message.from)}`,
+    `To: ${message.to.map(recipient => formatAddress('To', recipient)).join(',\r\n ')}`,
+    ...(message.replyTo ? [`Reply-To: ${formatAddress('Reply-To', message.replyTo)}`] : []),
+    ...(references.length > 0
+      ? [
+          `In-Reply-To: ${formatMessageId('In-Reply-To', references[references.length - 1])}`,
+          `References: ${references.map(reference => formatMessageId('References', reference)).join('\r\n ')}`,
+        ]
+      : []),
+    `Subject: ${encodeHeaderText(message.subject)}`,
+  ]
+
+  if (message.html === undefined) {
+    return [...headers, ...bodyPart('text/plain', message.text)].join('\r\n')
+  }
+
+  const boundary = createBoundary()
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    ...bodyPart('text/plain', message.text),
+    `--${boundary}`,
+    ...bodyPart('text/html', message.html),
+    `--${boundary}--`,
+    '',
+  ].join('\r\n')
+}
@@ -0,0 +1,234 @@
+import net from 'net'
+import os from 'os'
+import tls from 'tls'
+import { PermanentDeliveryError, type EmailTransport, type OutgoingEmail, type SentEmail } from './types'
+
+// Give up on a server that stops answering
+const SOCKET_TIMEOUT_MS = 30 * 1000
+
+export interface SmtpOptions {
+  host: string
+  port: number
+  // Implicit TLS from the first byte (usually port 465); otherwise STARTTLS is used when offered
+  secure: boolean
+  user?: string
+  password?: string
+}
+
+interface SmtpReply {
+  code: number
+  lines: string[]
+}
+
+function openSocket(options: { host: string; port: number; secure: boolean }): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = options.secure
+      ? tls.connect({ host: options.host, port: options.port, servername: options.host })
+      : net.connect({ host: options.host, port: options.port })
+    socket.once(options.secure ? 'secureConnect' : 'connect', () => {
+      socket.removeListener('error', reject)
+      resolve(socket)
+    })
+    socket.once('error', reject)
+  })
+}
+
+function upgradeSocket(socket: net.Socket, host: string): Promise<tls.TLSSocket> {
+  return new Promise((resolve, reject) => {
+    const secureSocket = tls.connect({ socket, servername: host })
+    secureSocket.once('secureConnect', () => {
+      secureSocket.removeListener('error', reject)
+      resolve(secureSocket)
+    })
+    secureSocket.once('error', reject)
+  })
+}
+
+/**
+ * One SMTP session: sends commands and reads the (possibly multi-line) replies
+ */
+class SmtpConnection {
+  private socket: net.Socket
+  private buffer = ''
+  private replyLines: string[] = []
+  private replies: SmtpReply[] = []
+  private waiters: Array<{ resolve: (reply: SmtpReply) => void; reject: (error: Error) => void }> = []
+  private error: Error | null = null
+
+  constructor(socket: net.Socket, public encrypted: boolean) {
+    this.socket = socket
+    this.attach(socket)
+  }
+
+  private attach(socket: net.Socket) {
+    socket.setTimeout(SOCKET_TIMEOUT_MS)
+    socket.on('data', (chunk: Buffer) => this.receive(chunk.toString('utf8')))
+    socket.on('timeout', () => socket.destroy(new Error('SMTP server did not respond in time')))
+    socket.on('error', (error: Error) => this.fail(error))
+    socket.on('close', () => this.fail(new Error('SMTP connection closed')))
+  }
+
+  private detach(socket: net.Socket) {
+    socket.setTimeout(0)
+    for (const event of ['data', 'timeout', 'error', 'close']) {
+      socket.removeAllListeners(event)
+    }
+  }
+
+  private receive(data: string) {
+    this.buffer += data
+    const lines = this.buffer.split(/\r?\n/)
+    this.buffer = lines.pop() || ''
+
+    for (const line of lines) {
+      this.replyLines.push(line.slice(4))
+      // "250-..." continues a reply, "250 ..." (or a bare "250") ends it
+      if (/^\d{3}(?: |$)/.test(line)) {
+        const reply = { code: parseInt(line.slice(0, 3), 10), lines: this.replyLines }
+        this.replyLines = []
+        const waiter = this.waiters.shift()
+        if (waiter) waiter.resolve(reply)
+        else this.replies.push(reply)
+      }
+    }
+  }
+
+  private fail(error: Error) {
+    if (this.error) return
+    this.error = error
+    for (const waiter of this.waiters.splice(0)) {
+      waiter.reject(error)
+    }
+  }
+
+  read(): Promise<SmtpReply> {
+    const reply = this.replies.shift()
+    if (reply) return Promise.resolve(reply)
+    if (this.error) return Promise.reject(this.error)
+    return new Promise((resolve, reject) => this.waiters.push({ resolve, reject }))
+  }
+
+  /**
+   * Read a reply and check its code; label names the step in the error (never the command
+   * itself, which may contain credentials)
+   * With permanent set, a 5xx reply throws a PermanentDeliveryError
+   */
+  async expect(expected: number[], label: string, permanent = false): Promise<SmtpReply> {
+    const reply = await this.read()
+    if (!expected.includes(reply.code)) {
+      const message = `SMTP ${label} failed: ${reply.code} ${reply.lines.join(' ')}`.trim()
+      throw permanent && reply.code >= 500 ? new PermanentDeliveryError(message) : new Error(message)
+    }
+    return reply
+  }
+
+  async command(line: string, expected: number[], label = line.split(' ')[0], permanent = false): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`)
+    return this.expect(expected, label, permanent)
+  }
+
+  /**
+   * EHLO, returns the extensions the server supports (upper case, e.g. "STARTTLS", "AUTH PLAIN LOGIN")
+   */
+  async hello(): Promise<string[]> {
+    const reply = await this.command(`EHLO ${os.hostname() || 'localhost'}`, [250])
+    return reply.lines.slice(1).map(line => line.toUpperCase())
+  }
+
+  async startTls(host: string): Promise<void> {
+    await this.command('STARTTLS', [220])
+    this.detach(this.socket)
+    this.buffer = ''
+    this.socket = await upgradeSocket(this.socket, host)
+    this.attach(this.socket)
+    this.encrypted = true
+  }
+
+  async authenticate(user: string, password: string, extensions: string[]): Promise<void> {
+    const methods = extensions.find(extension => extension.startsWith('AUTH'))?.split(/\s+/).slice(1) || []
+
+    if (methods.includes('LOGIN') && !methods.includes('PLAIN')) {
+      await this.command('AUTH LOGIN', [334])
+      await this.command(Buffer.from(user).toString('base64'), [334], 'AUTH LOGIN')
+      await this.command(Buffer.from(password).toString('base64'), [235], 'AUTH LOGIN')
+      return
+    }
+
+    const credentials = Buffer.from(`\0${user}\0${password}`).toString('base64')
+    await this.command(`AUTH PLAIN ${credentials}`, [235], 'AUTH PLAIN')
+  }
+
+  close() {
+    this.detach(this.socket)
+    this.socket.on('error', () => undefined)
+    this.socket.end()
+  }
+}
+
+/**
+ * Escape lines starting with a dot, which would otherwise end the DATA section early
+ */
+function dotStuff(raw: string): string {
+  return raw
+    .replace(/\r?\n/g, '\r\n')
+    .replace(/\r\n$/, '')
+    .replace(/^\./gm, '..')
+}
+
+/**
+ * Any SMTP server (a mail provider, a relay, or a local catcher such as Mailpit)
+ * Connections use TLS when the server offers it; credentials are never sent unencrypted
+ */
+export class SmtpTransport implements EmailTransport {
+  readonly name = 'smtp' as const
+
+  constructor(private readonly options: SmtpOptions) {}
+
+  isConfigured(): boolean {
+    return !!this.options.host
+  }
+
+  /**
+   * Deliver the message in one SMTP session, returns its Message-ID
+   */
+  async send(email: OutgoingEmail): Promise<SentEmail> {
+    if (!this.isConfigured()) {
+      throw new Error('Email service not configured')
+    }
+
+    const { host, port, secure, user, password } = this.options
+    const connection = new SmtpConnection(await openSocket({ host, port, secure }), secure)
+
+    try {
+      await connection.expect([220], 'greeting')
+      let extensions = await connection.hello()
+
+      if (!connection.encrypted && extensions.includes('STARTTLS')) {
+        await connection.startTls(host)
+        extensions = await connection.hello()
+      }
+
+      if (user) {
+        if (!connection.encrypted) {
+          throw new Error('SMTP server does not offer TLS, refusing to send credentials unencrypted')
+        }
+        await connection.authenticate(user, password || '', extensions)
+      }
+
+      await connection.command(`MAIL FROM:<${email.from}>`, [250], 'MAIL FROM')
+      for (const recipient of email.to) {
+        // A rejected recipient (unknown mailbox, refused domain) will not be accepted on a retry either
+        await connection.command(`RCPT TO:<${recipient}>`, [250, 251], 'RCPT TO', true)
+      }
+      await connection.command('DATA', [354])
+      await connection.command(`${dotStuff(email.raw)}\r\n.`, [250], 'DATA')
+
+      // The message is accepted at this point, a failing QUIT does not matter
+      await connection.command('QUIT', [221]).catch(() => undefined)
+    } finally {
+      connection.close()
+    }
+
+    return { id: email.messageId, threadId: null }
+  }
+}
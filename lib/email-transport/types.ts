@@ -0,0 +1,46 @@
+/**
+ * Email transport contract
+ * EmailService builds complete messages and hands them to an EmailTransport for delivery,
+ * so Gmail can be swapped for any SMTP server or for .eml files on disk during development
+ */
+
+export interface OutgoingEmail {
+  // Envelope sender, a bare address
+  from: string
+  // Envelope recipients, bare addresses
+  to: string[]
+  // Message-ID header of the message, without the angle brackets
+  messageId: string
+  // Complete RFC 5322 message (headers and body) with CRLF line endings
+  raw: string
+  // Provider conversation to add the message to (Gmail thread id), ignored by other transports
+  threadId?: string | null
+}
+
+export interface SentEmail {
+  // Provider's id for the message (Gmail message id, otherwise the Message-ID)
+  id: string
+  // Provider's conversation id (Gmail thread id), null when the transport has none
+  threadId: string | null
+}
+
+export interface EmailTransport {
+  readonly name: 'gmail' | 'smtp' | 'file'
+
+  /** Whether the credentials or settings the transport needs are present */
+  isConfigured(): boolean
+
+  /** Deliver a message, returns the provider's ids for it; throws when it could not be sent */
+  send(email: OutgoingEmail): Promise<SentEmail>
+}
+
+/**
+ * The message can never be delivered as it is, e.g. the server rejected the recipient;
+ * trying again does not help
+ */
+export class PermanentDeliveryError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PermanentDeliveryError'
+  }
+}
@@ -0,0 +1,209 @@
+import { NextResponse } from 'next/server'
+import { getStorage, StorageConflictError } from '@/lib/storage'
+
+/**
+ * Events list stored in /events/events.json
+ * Shared by /api/events and /api/events/[event_id]; every write is made against
+ * the revision that was read, so concurrent edits surface as a 409 instead of
+ * overwriting each other
+ */
+
+export const EVENTS_FILE_PATH = '/events/events.json'
+
+export interface Event {
+  event_id: string
+  event_title: string
+  location: string
+  date: string
+  times: string
+  artists: string
+  event_external_url?: string
+  event_instagram_post?: string
+}
+
+export type EventInput = Omit<Event, 'event_id'>
+
+interface EventsData {
+  events: Event[]
+}
+
+// Attempts at saving generated IDs when the file keeps changing underneath
+const MIGRATION_ATTEMPTS = 3
+
+/**
+ * Validate date format: DD/MM/YYYY
+ */
+function validateDateFormat(date: string): { valid: boolean; error?: string } {
+  const dateRegex = /^(\d{2})\/(\d{2})\/(\d{4})$/
+  if (!dateRegex.test(date.trim())) {
+    return { valid: false, error: 'Date must be in format DD/MM/YYYY (15/11/2025)' }
+  }
+
+  const [, day, month, year] = date.trim().match(dateRegex) || []
+  const dayNum = parseInt(day, 10)
+  const monthNum = parseInt(month, 10)
+  const yearNum = parseInt(year, 10)
+
+  if (dayNum < 1 || dayNum > 31 || monthNum < 1 || monthNum > 12 || yearNum < 1900 || yearNum > 2100) {
+    return { valid: false, error: 'Please enter a valid date' }
+  }
+
+  return { valid: true }
+}
+
+/**
+ * Validate URL format
+ */
+function validateURL(url: string): { valid: boolean; error?: string } {
+  try {
+    const urlObj = new URL(url.trim())
+    if (!['http:', 'https:'].includes(urlObj.protocol)) {
+      return { valid: false, error: 'URL must start with http:// or https://' }
+    }
+    return { valid: true }
+  } catch {
+    return { valid: false, error: 'Please enter a valid URL' }
+  }
+}
+
+const EVENT_INPUT_FIELDS = [
+  'event_title',
+  'location',
+  'date',
+  'times',
+  'artists',
+  'event_external_url',
+  'event_instagram_post',
+] as const
+
+/**
+ * Validate and trim the event fields of a request body
+ * Optional fields are only included if they have values (empty strings clear the field)
+ */
+export function parseEventInput(body: unknown): { event: EventInput } | { error: string } {
+  const fields = (body && typeof body === 'object' ? body : {}) as Record<string, unknown>
+  for (const field of EVENT_INPUT_FIELDS) {
+    if (fields[field] !== undefined && fields[field] !== null && typeof fields[field] !== 'string') {
+      return { error: `${field} must be a string` }
+    }
+  }
+  const {
+    event_title,
+    location,
+    date,
+    times,
+    artists,
+    event_external_url,
+    event_instagram_post,
+  } = fields as Partial<Record<typeof EVENT_INPUT_FIELDS[number], string>>
+
+  // Validate required fields
+  if (!event_title || !location || !date || !times || !artists) {
+    return { error: 'All fields are required' }
+  }
+
+  // Validate that fields are not just whitespace
+  if (
+    event_title.trim().length === 0 ||
+    location.trim().length === 0 ||
+    date.trim().length === 0 ||
+    times.trim().length === 0 ||
+    artists.trim().length === 0
+  ) {
+    return { error: 'All fields must contain actual text' }
+  }
+
+  const dateValidation = validateDateFormat(date)
+  if (!dateValidation.valid) {
+    return { error: dateValidation.error! }
+  }
+
+  if (event_external_url && event_external_url.trim()) {
+    const urlValidation = validateURL(event_external_url)
+    if (!urlValidation.valid) {
+      return { error: `Event External URL: ${urlValidation.error}` }
+    }
+  }
+
+  if (event_instagram_post && event_instagram_post.trim()) {
+    const urlValidation = validateURL(event_instagram_post)
+    if (!urlValidation.valid) {
+      return { error: `Event Instagram Post URL: ${urlValidation.error}` }
+    }
+  }
+
+  return {
+    event: {
+      event_title: event_title.trim(),
+      location: location.trim(),
+      date: date.trim(),
+      times: times.trim(),
+      artists: artists.trim(),
+      ...(event_external_url && event_external_url.trim() && { event_external_url: event_external_url.trim() }),
+      ...(event_instagram_post && event_instagram_post.trim() && { event_instagram_post: event_instagram_post.trim() }),
+    },
+  }
+}
+
+/**
+ * Read every event with the file revision; rev is null when the file does not exist yet
+ * Events saved before IDs existed get one assigned and written back the first time the
+ * file is read after upgrading (one-time migration)
+ */
+export async function readEvents(): Promise<{ events: Event[]; rev: string | null }> {
+  const storage = getStorage()
+
+  for (let attempt = 1; ; attempt++) {
+    const stored = await storage.readJson<EventsData>(EVENTS_FILE_PATH)
+    if (!stored) {
+      return { events: [], rev: null }
+    }
+
+    const events = stored.data.events || []
+    const missing = events.filter(event => !event.event_id).length
+    if (missing === 0) {
+      return { events, rev: stored.rev }
+    }
+
+    const migrated = events.map(event => (
+      event.event_id ? event : { ...event, event_id: crypto.randomUUID() }
+    ))
+
+    try {
+      const { rev } = await storage.writeJson(EVENTS_FILE_PATH, { events: migrated }, { rev: stored.rev })
+      console.log(`✓ Assigned IDs to ${missing} event(s)`)
+      return { events: migrated, rev }
+    } catch (error) {
+      // Someone saved in the meantime (or migrated first), read their version instead
+      if (!(error instanceof StorageConflictError) || attempt >= MIGRATION_ATTEMPTS) {
+        throw error
+      }
+    }
+  }
+}
+
+/**
+ * Save the events, only if the file is still at rev (null: must not exist yet)
+ * Throws StorageConflictError otherwise; returns the new revision
+ */
+export async function writeEvents(events: Event[], rev: string | null): Promise<string> {
+  const result = await getStorage().writeJson(EVENTS_FILE_PATH, { events }, { rev })
+  return result.rev
+}
+
+/**
+ * 409 response for an edit made against an outdated events.json
+ * Carries the current events and revision so the client can reload or re-apply its change
+ */
+export async function eventsConflictResponse() {
+  const current = await readEvents()
+  return NextResponse.json(
+    {
+      error: 'The events were changed by someone else',
+      conflict: true,
+      events: current.events,
+      rev: current.rev,
+    },
+    { status: 409 }
+  )
+}
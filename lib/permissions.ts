@@ -0,0 +1,46 @@
+import type { TeamRole } from '@/lib/roles'
+import type { WorkflowRole } from '@/lib/demo-workflow'
+
+/**
+ * What each team role may do
+ * The only place roles are turned into permissions: API handlers check them through
+ * requirePermission (lib/roles.ts) and the dashboard hides controls with useRole().can
+ */
+
+export const PERMISSIONS = [
+  'demos:review', // first-pass review of submitted demos (assistant actions)
+  'demos:approve', // final decision on liked demos (owner actions)
+  'artists:write',
+  'events:write',
+  'settings:write',
+  'team:manage',
+  'emails:resend', // send an artist email again from the dashboard
+] as const
+
+export type Permission = typeof PERMISSIONS[number]
+
+export const ROLE_PERMISSIONS: Record<TeamRole, readonly Permission[]> = {
+  owner: ['demos:approve', 'artists:write', 'events:write', 'settings:write', 'team:manage', 'emails:resend'],
+  assistant: ['demos:review', 'artists:write', 'events:write', 'emails:resend'],
+  viewer: [],
+}
+
+// Permission needed to act on demos as each workflow role
+export const WORKFLOW_PERMISSIONS: Record<WorkflowRole, Permission> = {
+  owner: 'demos:approve',
+  assistant: 'demos:review',
+}
+
+// Notes and scores are part of reviewing, at either stage
+export const DEMO_FEEDBACK_PERMISSIONS: readonly Permission[] = ['demos:review', 'demos:approve']
+
+export function isPermission(value: unknown): value is Permission {
+  return typeof value === 'string' && (PERMISSIONS as readonly string[]).includes(value)
+}
+
+/**
+ * Every permission granted by any of the roles, in PERMISSIONS order
+ */
+export function getPermissionsForRoles(roles: readonly TeamRole[]): Permission[] {
+  return PERMISSIONS.filter(permission => roles.some(role => ROLE_PERMISSIONS[role].includes(permission)))
+}
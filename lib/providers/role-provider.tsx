@@ -2,15 +2,38 @@
 
 import * as React from "react"
 import { createContext, useContext, useState, useEffect, ReactNode } from "react"
+import { useAuth } from "@clerk/nextjs"
+import type { TeamRole } from "@/lib/roles"
+import type { Permission } from "@/lib/permissions"
 
-export type UserRole = "admin" | "assistant"
+// The owner view is called "admin" throughout the dashboard
+export type UserRole = "admin" | "assistant" | "viewer"
+
+const TEAM_ROLE_VIEWS: Record<TeamRole, UserRole> = {
+  owner: "admin",
+  assistant: "assistant",
+  viewer: "viewer",
+}
+
+const ROLE_DISPLAY_NAMES: Record<UserRole, string> = {
+  admin: "Label Owner",
+  assistant: "Assistant",
+  viewer: "Viewer",
+}
 
 interface RoleContextType {
   currentRole: UserRole
+  // Roles the signed-in user actually holds, as granted on the server
+  availableRoles: UserRole[]
+  // What the user may do, whatever view is active (see lib/permissions.ts)
+  permissions: Permission[]
+  can: (permission: Permission) => boolean
   setRole: (role: UserRole) => void
   isAdmin: boolean
   isAssistant: boolean
+  isViewer: boolean
   roleDisplayName: string
+  // True once the user's roles have been loaded
   isHydrated: boolean
 }
 
@@ -20,34 +43,75 @@ const ROLE_STORAGE_KEY = "dashboard-current-role"
 
 interface RoleProviderProps {
   children: ReactNode
-  defaultRole?: UserRole
 }
 
-export function RoleProvider({ children, defaultRole = "assistant" }: RoleProviderProps) {
-  const [currentRole, setCurrentRole] = useState<UserRole>(defaultRole)
+/**
+ * Active dashboard role of the signed-in user
+ * Roles come from /api/auth/me; the last chosen role is remembered in localStorage
+ * but only applied while the user still holds it. The server checks roles on every request,
+ * this only decides which view to show
+ */
+export function RoleProvider({ children }: RoleProviderProps) {
+  const { isLoaded, isSignedIn } = useAuth()
+  const [availableRoles, setAvailableRoles] = useState<UserRole[]>([])
+  const [permissions, setPermissions] = useState<Permission[]>([])
+  // Least privileged view until the roles are known
+  const [currentRole, setCurrentRole] = useState<UserRole>("viewer")
   const [isHydrated, setIsHydrated] = useState(false)
 
-  // Load role from localStorage on mount
+  // Load the user's roles whenever the signed-in user changes
   useEffect(() => {
-    const savedRole = localStorage.getItem(ROLE_STORAGE_KEY) as UserRole | null
-    if (savedRole && (savedRole === "admin" || savedRole === "assistant")) {
-      setCurrentRole(savedRole)
+    if (!isLoaded) return
+
+    if (!isSignedIn) {
+      setAvailableRoles([])
+      setPermissions([])
+      setCurrentRole("viewer")
+      setIsHydrated(true)
+      return
     }
-    setIsHydrated(true)
-  }, [])
 
-  // Persist role changes to localStorage
+    let cancelled = false
+    setIsHydrated(false)
+
+    fetch("/api/auth/me")
+      .then(response => (response.ok ? response.json() : { roles: [], permissions: [] }))
+      .then((data: { roles?: TeamRole[]; permissions?: Permission[] }) => {
+        if (cancelled) return
+        const roles = (data.roles || []).map(role => TEAM_ROLE_VIEWS[role]).filter(Boolean)
+        const savedRole = localStorage.getItem(ROLE_STORAGE_KEY) as UserRole | null
+
+        setAvailableRoles(roles)
+        setPermissions(data.permissions || [])
+        setCurrentRole(savedRole && roles.includes(savedRole) ? savedRole : roles[0] || "viewer")
+      })
+      .catch(error => console.error("Failed to load roles:", error))
+      .finally(() => {
+        if (!cancelled) setIsHydrated(true)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [isLoaded, isSignedIn])
+
+  // Persist role changes to localStorage; roles the user does not hold are ignored
   const setRole = (role: UserRole) => {
+    if (!availableRoles.includes(role)) return
     setCurrentRole(role)
     localStorage.setItem(ROLE_STORAGE_KEY, role)
   }
 
   const value: RoleContextType = {
     currentRole,
+    availableRoles,
+    permissions,
+    can: (permission: Permission) => permissions.includes(permission),
     setRole,
     isAdmin: currentRole === "admin",
     isAssistant: currentRole === "assistant",
-    roleDisplayName: currentRole === "admin" ? "Label Owner" : "Assistant",
+    isViewer: currentRole === "viewer",
+    roleDisplayName: ROLE_DISPLAY_NAMES[currentRole],
     isHydrated,
   }
 
@@ -65,4 +129,3 @@ export function useRole() {
   }
   return context
 }
-
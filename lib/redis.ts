@@ -25,13 +25,61 @@ function getRedisClient(): Redis {
 
 export const redis = {
   get: <T = any>(key: string) => getRedisClient().get<T>(key),
-  set: (key: string, value: any, opts?: { ex?: number }) => {
+  set: (key: string, value: any, opts?: { ex?: number; nx?: boolean }) => {
+    // nx: only set if the key does not exist yet (returns null otherwise), used for locks
+    if (opts?.nx) {
+      return opts.ex
+        ? getRedisClient().set(key, value, { nx: true, ex: opts.ex })
+        : getRedisClient().set(key, value, { nx: true })
+    }
     if (opts?.ex) {
       return getRedisClient().set(key, value, { ex: opts.ex })
     }
     return getRedisClient().set(key, value)
   },
   del: (key: string) => getRedisClient().del(key),
+  // Delete the key only while it still holds this value, so a lock is released by its holder only
+  delIfEquals: (key: string, value: string) =>
+    getRedisClient().eval<[string], number>(
+      "if redis.call('get', KEYS[1]) == ARGV[1] then return redis.call('del', KEYS[1]) else return 0 end",
+      [key],
+      [value]
+    ),
+  rpush: (key: string, ...values: any[]) => getRedisClient().rpush(key, ...values),
+  lrange: <T = any>(key: string, start: number, end: number) => getRedisClient().lrange<T>(key, start, end),
+  lset: (key: string, index: number, value: any) => getRedisClient().lset(key, index, value),
+  hget: <T = any>(key: string, field: string) => getRedisClient().hget<T>(key, field),
+  hset: (key: string, values: Record<string, any>) => getRedisClient().hset(key, values),
+  // Set the field only if it does not exist yet, returns 1 when it was set
+  hsetnx: (key: string, field: string, value: unknown) => getRedisClient().hsetnx(key, field, value),
+  // Values of several fields, keyed by field (null for missing fields)
+  hmget: async <T = unknown>(key: string, fields: string[]) => {
+    if (fields.length === 0) return {} as Record<string, T | null>
+    return (await getRedisClient().hmget<Record<string, T | null>>(key, ...fields)) || {}
+  },
+  hdel: (key: string, ...fields: string[]) => getRedisClient().hdel(key, ...fields),
+  // Delete the field only while it still holds this value
+  hdelIfEquals: (key: string, field: string, value: string) =>
+    getRedisClient().eval<[string, string], number>(
+      "if redis.call('hget', KEYS[1], ARGV[1]) == ARGV[2] then return redis.call('hdel', KEYS[1], ARGV[1]) else return 0 end",
+      [key],
+      [field, value]
+    ),
+  hgetall: <T extends Record<string, unknown> = Record<string, any>>(key: string) => getRedisClient().hgetall<T>(key),
+  // hgetall of several hashes in one request, results in the order of the keys
+  hgetallMany: async <T extends Record<string, unknown> = Record<string, any>>(keys: string[]) => {
+    if (keys.length === 0) return [] as (T | null)[]
+    const pipeline = getRedisClient().pipeline()
+    keys.forEach(key => pipeline.hgetall<T>(key))
+    return pipeline.exec<(T | null)[]>()
+  },
+  sadd: (key: string, member: string, ...members: string[]) => getRedisClient().sadd(key, member, ...members),
+  smembers: (key: string) => getRedisClient().smembers<string[]>(key),
+  zadd: (key: string, score: number, member: string) => getRedisClient().zadd(key, { score, member }),
+  zrem: (key: string, ...members: string[]) => getRedisClient().zrem(key, ...members),
+  // Members scored between min and max, lowest score first
+  zrangeByScore: (key: string, min: number, max: number, limit: number) =>
+    getRedisClient().zrange<string[]>(key, min, max, { byScore: true, offset: 0, count: limit }),
 }
 
 /**
@@ -40,13 +88,31 @@ export const redis = {
 export const CACHE_KEYS = {
   DEMOS: 'demos:cache',
   DROPBOX_TOKEN: 'dropbox:access_token',
+  DROPBOX_WEBHOOK_LAST_SEEN: 'dropbox:webhook_last_seen', // timestamp of the last verified webhook notification
   SETTINGS_DEMO_SUBMISSION_ENABLED: 'settings:demo_submission_enabled',
+  SETTINGS_EMAIL_DELIVERY: 'settings:email_delivery', // when artist notifications are sent
+  DEMO_HISTORY_PREFIX: 'demos:history:', // + demo_id, list of review history entries
+  DEMO_NOTES_PREFIX: 'demos:notes:', // + demo_id, hash: note_id -> internal reviewer note (never emailed)
+  DEMO_SCORES_PREFIX: 'demos:scores:', // + demo_id, hash: reviewer_id -> scores
+  DEMO_SCORED: 'demos:scored', // set of demo_ids that have scores
+  DEMO_LOCALES: 'demos:locales', // hash: demo_id -> email language set on the dashboard (overrides the submitted one)
+  USER_ROLES_PREFIX: 'users:roles:', // + Clerk user id, roles resolved from the team and Clerk metadata
+  TEAM_MEMBERS: 'team:members', // hash: member_id -> team member (the dashboard allowlist)
+  EMAIL_OUTBOX: 'email:outbox', // hash: email_id -> queued or delivered notification email
+  EMAIL_OUTBOX_KEYS: 'email:outbox:keys', // hash: demo_id:notification -> email_id (idempotency)
+  EMAIL_OUTBOX_DEMO_PREFIX: 'email:outbox:demo:', // + demo_id, set of the demo's email_ids
+  EMAIL_OUTBOX_LATEST: 'email:outbox:latest', // hash: demo_id -> email_id of the demo's most recently updated email
+  EMAIL_OUTBOX_DUE: 'email:outbox:due', // sorted set: email_id scored by when the cron should next attempt it (ms)
+  EMAIL_OUTBOX_LOCK_PREFIX: 'email:outbox:lock:', // + email_id, token of the delivery attempt holding it
+  EMAIL_LOG_PREFIX: 'email:log:', // + demo_id, list of delivery log entries
+  EMAIL_TEMPLATES: 'email:templates', // hash: "type:locale" -> owner's template override
 } as const
 
 /**
  * Cache TTL durations in seconds
  */
 export const CACHE_TTL = {
-  DEMOS: 15 * 60, // 15 minutes
+  DEMOS: 3 * 60 * 60, // 3 hours (kept fresh by incremental Dropbox sync)
   DROPBOX_TOKEN: 3.5 * 60 * 60, // 3.5 hours
+  USER_ROLES: 5 * 60, // 5 minutes (dropped immediately when roles are changed here)
 } as const
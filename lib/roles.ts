@@ -0,0 +1,159 @@
+import { NextResponse } from 'next/server'
+import { auth, clerkClient, type User } from '@clerk/nextjs/server'
+import { CACHE_KEYS, CACHE_TTL, redis } from '@/lib/redis'
+import { findTeamMemberByUserId, normalizeEmail } from '@/lib/services/team-service'
+import { getPermissionsForRoles, type Permission } from '@/lib/permissions'
+
+/**
+ * Team roles, granted on the team page (see lib/services/team-service.ts) and mirrored
+ * per user in Clerk public metadata as { roles: [...] }
+ * - owner: label owner, makes the final call on demos and manages settings
+ * - assistant: first-pass review of incoming demos
+ * - viewer: read-only access to the dashboard
+ * A signed-in user without any role has no access. Addresses listed in OWNER_EMAILS
+ * (comma separated) always hold the owner role once verified, so the first owner can get in
+ * What each role may do is defined in lib/permissions.ts
+ */
+
+export const TEAM_ROLES = ['owner', 'assistant', 'viewer'] as const
+
+export type TeamRole = typeof TEAM_ROLES[number]
+
+export interface RoleSession {
+  userId: string
+  roles: TeamRole[]
+  permissions: Permission[]
+}
+
+export function isTeamRole(value: unknown): value is TeamRole {
+  return typeof value === 'string' && (TEAM_ROLES as readonly string[]).includes(value)
+}
+
+/**
+ * Keep the known roles only, without duplicates, in TEAM_ROLES order
+ */
+export function normalizeRoles(value: unknown): TeamRole[] {
+  if (!Array.isArray(value)) return []
+  return TEAM_ROLES.filter(role => value.includes(role))
+}
+
+function getOwnerEmails(): string[] {
+  return (process.env.OWNER_EMAILS || '')
+    .split(',')
+    .map(email => email.trim().toLowerCase())
+    .filter(Boolean)
+}
+
+export function isOwnerEmail(email: string): boolean {
+  return getOwnerEmails().includes(email.trim().toLowerCase())
+}
+
+function rolesCacheKey(userId: string): string {
+  return `${CACHE_KEYS.USER_ROLES_PREFIX}${userId}`
+}
+
+/**
+ * Addresses on a Clerk account that the user proved they own
+ * Anyone can add an address to their account, so only these may grant roles
+ */
+export function getVerifiedEmails(user: User): string[] {
+  return user.emailAddresses
+    .filter(address => address.verification?.status === 'verified')
+    .map(address => normalizeEmail(address.emailAddress))
+}
+
+/**
+ * Roles held by a Clerk user (empty: no access)
+ * The team allowlist wins over Clerk metadata once the user has joined it; until then the
+ * roles set in Clerk metadata (e.g. in the Clerk dashboard) apply. Invited members get
+ * their roles by accepting the invitation (POST /api/auth/accept-invite)
+ * Read-only: middleware resolves this on every request, so it is cached in Redis for a few minutes
+ */
+export async function getUserRoles(userId: string): Promise<TeamRole[]> {
+  try {
+    const cached = await redis.get<TeamRole[]>(rolesCacheKey(userId))
+    if (Array.isArray(cached)) {
+      return normalizeRoles(cached)
+    }
+  } catch (error) {
+    console.warn('⚠️ Failed to read cached roles, asking Clerk:', error)
+  }
+
+  const client = await clerkClient()
+  const user = await client.users.getUser(userId)
+
+  const member = await findTeamMemberByUserId(userId)
+  let roles = member ? member.roles : normalizeRoles(user.publicMetadata?.roles)
+  if (getVerifiedEmails(user).some(isOwnerEmail)) {
+    roles = normalizeRoles(['owner', ...roles])
+  }
+
+  try {
+    await redis.set(rolesCacheKey(userId), roles, { ex: CACHE_TTL.USER_ROLES })
+  } catch (error) {
+    console.warn('⚠️ Failed to cache roles:', error)
+  }
+
+  return roles
+}
+
+/**
+ * Replace the roles stored in a user's Clerk metadata
+ */
+export async function setUserRoles(userId: string, roles: TeamRole[]): Promise<TeamRole[]> {
+  const normalized = normalizeRoles(roles)
+  const client = await clerkClient()
+  await client.users.updateUserMetadata(userId, { publicMetadata: { roles: normalized } })
+  await redis.del(rolesCacheKey(userId))
+  return normalized
+}
+
+/**
+ * Check that the signed-in user holds one of the allowed roles (any role by default)
+ * Returns the session, or the 401/403 response the route handler should return as is
+ */
+export async function requireRole(allowed: readonly TeamRole[] = TEAM_ROLES): Promise<RoleSession | NextResponse> {
+  const { userId } = await auth()
+  if (!userId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const roles = await getUserRoles(userId)
+  if (!roles.some(role => allowed.includes(role))) {
+    return NextResponse.json(
+      {
+        error: 'Forbidden',
+        details: `Requires one of the roles: ${allowed.join(', ')}`
+      },
+      { status: 403 }
+    )
+  }
+
+  return { userId, roles, permissions: getPermissionsForRoles(roles) }
+}
+
+/**
+ * Check that the signed-in user has the permission (or one of the permissions)
+ * Returns the session, or the 401/403 response the route handler should return as is
+ */
+export async function requirePermission(
+  required: Permission | readonly Permission[]
+): Promise<RoleSession | NextResponse> {
+  const session = await requireRole()
+  if (session instanceof NextResponse) {
+    return session
+  }
+
+  const wanted: readonly Permission[] = typeof required === 'string' ? [required] : required
+  if (!wanted.some(permission => session.permissions.includes(permission))) {
+    return NextResponse.json(
+      {
+        error: 'Forbidden',
+        details: `Requires the ${wanted.join(' or ')} permission`
+      },
+      { status: 403 }
+    )
+  }
+
+  return session
+}
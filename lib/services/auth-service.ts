@@ -1,5 +1,7 @@
 import { apiClient } from './api-client'
 import { ApiResponse } from './types'
+import type { TeamRole } from '@/lib/roles'
+import type { Permission } from '@/lib/permissions'
 
 /**
  * User and authentication related types
@@ -9,12 +11,13 @@ export interface User {
   email: string
   firstName?: string
   lastName?: string
-  role: 'admin' | 'assistant'
+  // Team roles held by the user; empty means no access to the dashboard
+  roles: TeamRole[]
   isActive: boolean
   createdAt: string
   updatedAt: string
   lastLoginAt?: string
-  permissions?: string[]
+  permissions: Permission[]
 }
 
 export interface AuthTokens {
@@ -112,10 +115,11 @@ export class AuthService {
   }
 
   /**
-   * Validate email for whitelist
+   * Validate email against the team allowlist
+   * Only owners can check addresses other than their own
    */
-  async validateEmail(email: string): Promise<ApiResponse<{ isAllowed: boolean; role?: 'admin' | 'assistant' }>> {
-    return apiClient.post<{ isAllowed: boolean; role?: 'admin' | 'assistant' }>(`${this.endpoint}/validate-email`, {
+  async validateEmail(email: string): Promise<ApiResponse<{ isAllowed: boolean; role?: TeamRole; roles: TeamRole[] }>> {
+    return apiClient.post<{ isAllowed: boolean; role?: TeamRole; roles: TeamRole[] }>('/validate-email', {
       email
     })
   }
@@ -123,14 +127,14 @@ export class AuthService {
   /**
    * Get user permissions
    */
-  async getUserPermissions(): Promise<ApiResponse<string[]>> {
-    return apiClient.get<string[]>(`${this.endpoint}/permissions`)
+  async getUserPermissions(): Promise<ApiResponse<Permission[]>> {
+    return apiClient.get<Permission[]>(`${this.endpoint}/permissions`)
   }
 
   /**
    * Check if user has specific permission
    */
-  async hasPermission(permission: string): Promise<ApiResponse<{ hasPermission: boolean }>> {
+  async hasPermission(permission: Permission): Promise<ApiResponse<{ hasPermission: boolean }>> {
     return apiClient.get<{ hasPermission: boolean }>(`${this.endpoint}/permissions/${permission}`)
   }
 }
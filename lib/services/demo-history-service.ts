@@ -0,0 +1,44 @@
+import { CACHE_KEYS, redis } from '@/lib/redis'
+import type { DemoHistoryEntry } from './demo-service'
+
+function historyKey(demoId: string): string {
+  return `${CACHE_KEYS.DEMO_HISTORY_PREFIX}${demoId}`
+}
+
+/**
+ * Append an entry to a demo's review history
+ * History is stored as a Redis list without TTL so it survives cache resets
+ */
+export async function appendDemoHistory(entry: DemoHistoryEntry): Promise<void> {
+  await redis.rpush(historyKey(entry.demo_id), entry)
+}
+
+/**
+ * Update the email status of the history entry that queued this email, e.g. once it was delivered
+ */
+export async function updateHistoryEmailStatus(
+  demoId: string,
+  emailId: string,
+  update: Partial<NonNullable<DemoHistoryEntry['email_status']>>
+): Promise<void> {
+  const entries = await getDemoHistory(demoId)
+  // The latest action that queued it (redoing an undone action queues the same email again)
+  for (let index = entries.length - 1; index >= 0; index--) {
+    const emailStatus = entries[index].email_status
+    if (emailStatus?.email_id === emailId && !emailStatus.cancelled && !emailStatus.duplicate) {
+      await redis.lset(historyKey(demoId), index, {
+        ...entries[index],
+        email_status: { ...emailStatus, ...update },
+      })
+      return
+    }
+  }
+}
+
+/**
+ * Get a demo's full review history, oldest first
+ */
+export async function getDemoHistory(demoId: string): Promise<DemoHistoryEntry[]> {
+  const entries = await redis.lrange<DemoHistoryEntry>(historyKey(demoId), 0, -1)
+  return entries || []
+}
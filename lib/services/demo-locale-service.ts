@@ -0,0 +1,40 @@
+import { CACHE_KEYS, redis } from '@/lib/redis'
+import { resolveEmailLocale, type EmailLocale } from './email-templates'
+
+/**
+ * Language a demo's artist emails are sent in
+ * The submission form records the artist's locale in the metadata; a reviewer can set
+ * another language on the demo page, which takes precedence. Both fall back to English
+ */
+
+/**
+ * Language set on the dashboard for a demo, null when it follows the submission
+ */
+export async function getDemoLocaleOverride(demoId: string): Promise<EmailLocale | null> {
+  return (await redis.hget<EmailLocale>(CACHE_KEYS.DEMO_LOCALES, demoId)) || null
+}
+
+/**
+ * Set the language of a demo's emails; null goes back to the submitted locale
+ */
+export async function setDemoLocaleOverride(demoId: string, locale: EmailLocale | null): Promise<void> {
+  if (locale) {
+    await redis.hset(CACHE_KEYS.DEMO_LOCALES, { [demoId]: locale })
+  } else {
+    await redis.hdel(CACHE_KEYS.DEMO_LOCALES, demoId)
+  }
+}
+
+/**
+ * Languages set on the dashboard for all demos in a single call (used by the demo index)
+ */
+export async function getAllDemoLocaleOverrides(): Promise<Record<string, EmailLocale>> {
+  return (await redis.hgetall<Record<string, EmailLocale>>(CACHE_KEYS.DEMO_LOCALES)) || {}
+}
+
+export function resolveDemoEmailLocale(
+  override: EmailLocale | null | undefined,
+  submittedLocale: string | null | undefined
+): EmailLocale {
+  return override || resolveEmailLocale(submittedLocale)
+}
@@ -0,0 +1,90 @@
+import { CACHE_KEYS, redis } from '@/lib/redis'
+import type { DemoNote } from './demo-service'
+
+/**
+ * Internal reviewer notes are stored in Redis only, separate from the demo's
+ * .metadata.json, so they can never end up in the artist emails built from metadata
+ * Each demo has a hash of its notes keyed by note_id, so reviewers writing at the same
+ * time never overwrite each other's notes
+ */
+
+// Longest note accepted, from the notes routes and with an action
+export const MAX_NOTE_LENGTH = 2000
+
+function notesKey(demoId: string): string {
+  return `${CACHE_KEYS.DEMO_NOTES_PREFIX}${demoId}`
+}
+
+/**
+ * Get a demo's notes, oldest first
+ */
+export async function getDemoNotes(demoId: string): Promise<DemoNote[]> {
+  const notes = await redis.hgetall<Record<string, DemoNote>>(notesKey(demoId))
+  const all = Object.values(notes || {})
+  // Replies whose thread was deleted while they were being written are left out
+  const rootIds = new Set(all.filter(note => !note.parent_id).map(note => note.note_id))
+  return all
+    .filter(note => !note.parent_id || rootIds.has(note.parent_id))
+    .sort((a, b) => a.created_at.localeCompare(b.created_at))
+}
+
+export async function getDemoNote(demoId: string, noteId: string): Promise<DemoNote | null> {
+  return (await redis.hget<DemoNote>(notesKey(demoId), noteId)) || null
+}
+
+export async function addDemoNote(
+  demoId: string,
+  authorId: string,
+  authorName: string | null,
+  body: string,
+  parentId: string | null = null
+): Promise<DemoNote> {
+  const parent = parentId ? await getDemoNote(demoId, parentId) : null
+  if (parentId && !parent) {
+    throw new Error('Parent note not found')
+  }
+
+  const now = new Date().toISOString()
+  const note: DemoNote = {
+    note_id: crypto.randomUUID(),
+    demo_id: demoId,
+    // Replies to replies are attached to the thread's root note
+    parent_id: parent ? parent.parent_id || parent.note_id : null,
+    author_id: authorId,
+    author_name: authorName,
+    body,
+    created_at: now,
+    updated_at: now,
+  }
+
+  await redis.hset(notesKey(demoId), { [note.note_id]: note })
+  return note
+}
+
+/**
+ * Update a note's text, returns null if the note does not exist
+ */
+export async function updateDemoNote(
+  demoId: string,
+  noteId: string,
+  body: string
+): Promise<DemoNote | null> {
+  const note = await getDemoNote(demoId, noteId)
+  if (!note) return null
+
+  const updatedNote: DemoNote = { ...note, body, updated_at: new Date().toISOString() }
+  await redis.hset(notesKey(demoId), { [noteId]: updatedNote })
+  return updatedNote
+}
+
+/**
+ * Delete a note and its replies, returns false if the note does not exist
+ */
+export async function deleteDemoNote(demoId: string, noteId: string): Promise<boolean> {
+  const notes = await getDemoNotes(demoId)
+  if (!notes.some(n => n.note_id === noteId)) return false
+
+  const replyIds = notes.filter(n => n.parent_id === noteId).map(n => n.note_id)
+  await redis.hdel(notesKey(demoId), noteId, ...replyIds)
+  return true
+}
@@ -0,0 +1,59 @@
+import { CACHE_KEYS, redis } from '@/lib/redis'
+import { summarizeScores, type DemoScore, type DemoScoreSummary, type ScoreCriterion } from '@/lib/demo-scoring'
+
+/**
+ * Reviewer scores live in a hash per demo keyed by reviewer_id, so reviewers scoring
+ * the same demo at the same time never overwrite each other
+ */
+
+function scoresKey(demoId: string): string {
+  return `${CACHE_KEYS.DEMO_SCORES_PREFIX}${demoId}`
+}
+
+/**
+ * Get every reviewer's scores for a demo
+ */
+export async function getDemoScores(demoId: string): Promise<DemoScore[]> {
+  const reviewerScores = await redis.hgetall<Record<string, DemoScore>>(scoresKey(demoId))
+  return Object.values(reviewerScores || {})
+}
+
+/**
+ * Save (or replace) a reviewer's scores for a demo
+ */
+export async function setDemoScore(
+  demoId: string,
+  reviewerId: string,
+  reviewerName: string | null,
+  scores: Record<ScoreCriterion, number>
+): Promise<DemoScore> {
+  const score: DemoScore = {
+    demo_id: demoId,
+    reviewer_id: reviewerId,
+    reviewer_name: reviewerName,
+    scores,
+    updated_at: new Date().toISOString(),
+  }
+
+  await redis.hset(scoresKey(demoId), { [reviewerId]: score })
+  await redis.sadd(CACHE_KEYS.DEMO_SCORED, demoId)
+  return score
+}
+
+/**
+ * Get score summaries for all scored demos in a single call (used by GET /api/demos)
+ */
+export async function getAllScoreSummaries(): Promise<Record<string, DemoScoreSummary>> {
+  const demoIds = await redis.smembers(CACHE_KEYS.DEMO_SCORED)
+  const all = await redis.hgetallMany<Record<string, DemoScore>>(demoIds.map(scoresKey))
+  const summaries: Record<string, DemoScoreSummary> = {}
+
+  demoIds.forEach((demoId, index) => {
+    const reviewerScores = Object.values(all[index] || {})
+    if (reviewerScores.length > 0) {
+      summaries[demoId] = summarizeScores(reviewerScores)
+    }
+  })
+
+  return summaries
+}
@@ -1,5 +1,8 @@
 import { apiClient } from './api-client'
-import { ApiResponse, PaginatedResponse, QueryParams } from './types'
+import { ApiResponse, BatchResponse, QueryParams } from './types'
+import type { DemoAction, DemoState, NotificationType, WorkflowRole } from '@/lib/demo-workflow'
+import type { DemoScore, DemoScoreSummary, ScoreCriterion } from '@/lib/demo-scoring'
+import type { ApprovalDetails, EmailLocale } from './email-templates'
 
 /**
  * Demo-related types (updated to match actual API response)
@@ -12,6 +15,11 @@ export interface Demo {
   submitted_at: string
   status: DemoStatus
   email: string
+  locale?: string | null  // artist's locale from the submission form, e.g. "de-DE"
+  email_locale?: EmailLocale  // language the artist's emails are sent in
+  score?: DemoScoreSummary | null
+  // Most recent notification email to the artist (dashboard only)
+  last_email?: DemoEmail | null
 }
 
 export type DemoStatus = 
@@ -24,6 +32,128 @@ export type DemoStatus =
   | "approved" 
   | "rejected_by_admin"
 
+/**
+ * Full demo record returned by GET /demos/[id], including the submitter's details
+ */
+export interface DemoDetail extends Omit<Demo, 'status'> {
+  status: DemoState
+  full_name: string
+  instagram_username: string | null
+  beatport: string | null
+  facebook: string | null
+  x_twitter: string | null
+  email_locale_override: EmailLocale | null  // language set on the demo page, wins over the submitted locale
+  file: {
+    name: string
+    size: number | null  // bytes
+    format: string | null  // file extension, e.g. "mp3"
+    modified_at: string | null
+  }
+}
+
+/**
+ * A single entry in a demo's review history
+ */
+export interface DemoHistoryEntry {
+  demo_id: string
+  actor_id: string
+  actor_name: string | null
+  role: WorkflowRole
+  action: DemoAction
+  from_status: DemoState
+  to_status: DemoState
+  timestamp: string
+  email_status: {
+    notification_sent: boolean
+    error: string | null
+    email_id?: string | null  // outbox entry, see the demo's delivery log
+    scheduled_for?: string | null  // held back until then, undoing the action cancels it
+    cancelled?: boolean  // set on undo actions that cancelled a pending email
+    duplicate?: boolean  // the demo already had this email, nothing was sent again
+    message_id?: string | null  // Message-ID header, once the email went out
+    gmail_message_id?: string | null
+    gmail_thread_id?: string | null  // the demo's conversation with the artist in Gmail
+  } | null
+  note_id?: string | null
+}
+
+export type DemoEmailStatus = 'pending' | 'sending' | 'sent' | 'failed' | 'cancelled'
+
+/**
+ * Notification email to an artist, as tracked by the email outbox
+ * There is one per demo and notification type, so undo/redo never emails twice
+ */
+export interface DemoEmail {
+  email_id: string
+  demo_id: string
+  notification: NotificationType
+  to: string
+  artist_name: string
+  track_title: string
+  status: DemoEmailStatus  // failed: gave up after the last retry, cancelled: action undone before sending
+  attempts: number
+  next_attempt_at: string | null  // scheduled send time before the first attempt, then the next retry
+  last_error: string | null
+  message_id: string | null  // Message-ID header once sent
+  gmail_message_id?: string | null  // when sent through the Gmail API
+  gmail_thread_id?: string | null
+  resend_count: number
+  created_at: string
+  updated_at: string
+  sent_at: string | null
+  approval?: ApprovalDetails | null  // owner's personal message and next steps (approved emails)
+  reply_to?: string | null
+  locale?: string | null  // artist's locale from the submission; a language set on the demo page wins
+  rendered?: RenderedEmail | null  // exactly what was last sent, kept for reference
+}
+
+/**
+ * An artist email as it was sent
+ */
+export interface RenderedEmail {
+  subject: string
+  html_body: string
+  text_body: string
+  locale?: EmailLocale  // language it was sent in
+}
+
+/**
+ * Compose step when the owner approves a demo, every field is optional
+ */
+export interface ApprovalCompose extends ApprovalDetails {
+  reply_to?: string | null  // where the artist's replies go instead of the demos inbox
+}
+
+/**
+ * Entry in a demo's email delivery log, oldest first
+ */
+export interface EmailDeliveryLogEntry {
+  email_id: string
+  demo_id: string
+  notification: NotificationType
+  event: 'queued' | 'duplicate' | 'sent' | 'failed' | 'resend' | 'cancelled'
+  attempt: number
+  timestamp: string
+  error: string | null
+  next_attempt_at: string | null  // when queued, the scheduled time; on failures, the next retry
+  actor_name: string | null
+}
+
+/**
+ * Internal reviewer note on a demo
+ * Replies reference their parent note via parent_id (one level of threading)
+ */
+export interface DemoNote {
+  note_id: string
+  demo_id: string
+  parent_id: string | null
+  author_id: string
+  author_name: string | null
+  body: string
+  created_at: string
+  updated_at: string
+}
+
 export interface DemoCreateRequest {
   track_title: string
   artist_name: string
@@ -39,24 +169,52 @@ export interface DemoUpdateRequest {
 
 export interface DemoFilterParams {
   status?: DemoStatus | DemoStatus[]
+  q?: string  // Matches artist name, track title or email
   artist_name?: string
   track_title?: string
+  from?: string  // YYYY-MM-DD
+  to?: string  // YYYY-MM-DD
   dateFrom?: string
   dateTo?: string
+  min_score?: number
   role?: 'admin' | 'assistant'
 }
 
-export interface DemoCounts {
-  submitted: number
-  liked: number
-  rejected_by_assistant: number
-  approved: number
-  rejected_by_admin: number
+/**
+ * Number of demos per workflow state
+ * actionable is the number of demos the requested role can act on
+ */
+export type DemoCounts = Record<DemoState, number> & {
+  total: number
+  actionable?: number
+  cached?: boolean
 }
 
 export interface DashboardData {
   demos: Demo[]
   counts: DemoCounts
+  cached?: boolean
+  pagination?: DemosApiResponse['pagination']
+}
+
+/**
+ * Result of applying one action to many demos, one entry per demo in request order
+ */
+export interface DemoBatchActionResponse {
+  action: DemoAction
+  results: Array<BatchResponse<{
+    previous_status: DemoState
+    status: DemoState
+    allowed_actions: DemoAction[]
+    email_status: {
+      notification_sent: boolean
+      error: string | null
+      email_id: string | null
+      scheduled_for: string | null
+    }
+  }>['results'][number] & { demo_id: string }>
+  succeeded: number
+  failed: number
 }
 
 /**
@@ -66,6 +224,15 @@ export interface DemosApiResponse {
   count: number
   demos: Demo[]
   status: string
+  cached?: boolean
+  pagination?: {
+    page: number
+    per_page: number
+    total: number
+    total_pages: number
+    has_next: boolean
+    has_prev: boolean
+  }
 }
 
 /**
@@ -78,7 +245,7 @@ export class DemoService {
   /**
    * Get all demos with optional filtering and pagination
    */
-  async getDemos(params?: DemoFilterParams & QueryParams): Promise<ApiResponse<PaginatedResponse<Demo>>> {
+  async getDemos(params?: DemoFilterParams & QueryParams): Promise<ApiResponse<DemosApiResponse>> {
     const queryParams = new URLSearchParams()
     
     if (params) {
@@ -97,27 +264,116 @@ export class DemoService {
       ? `${this.endpoint}?${queryParams.toString()}`
       : this.endpoint
 
-    return apiClient.get<PaginatedResponse<Demo>>(endpoint)
+    return apiClient.get<DemosApiResponse>(endpoint)
   }
 
   /**
-   * Get dashboard data (demos + counts) for a specific role
+   * Get dashboard data (filtered demos + counts for every status) for a specific role
+   * Accepts the same filters as getDemos
    */
-  async getDashboardData(role: 'admin' | 'assistant', status?: string): Promise<ApiResponse<DashboardData>> {
+  async getDashboardData(
+    role: 'admin' | 'assistant' | 'viewer',
+    filters?: DemoFilterParams & QueryParams
+  ): Promise<ApiResponse<DashboardData>> {
     const params = new URLSearchParams()
-    params.append('role', role)
-    if (status && status !== 'all') {
-      params.append('status', status)
+    // Viewers cannot act on demos, so there is no actionable count to ask for
+    if (role !== 'viewer') {
+      params.append('role', role)
     }
 
+    Object.entries(filters || {}).forEach(([key, value]) => {
+      if (value === undefined || value === null || key === 'role') return
+      if (Array.isArray(value)) {
+        value.forEach(v => params.append(key, v.toString()))
+      } else {
+        params.append(key, value.toString())
+      }
+    })
+
     return apiClient.get<DashboardData>(`${this.endpoint}/dashboard?${params.toString()}`)
   }
 
   /**
-   * Get a specific demo by ID
+   * Get a specific demo by ID with full submitter metadata and review history
+   */
+  async getDemo(id: string): Promise<ApiResponse<{ demo: DemoDetail; history: DemoHistoryEntry[] }>> {
+    return apiClient.get<{ demo: DemoDetail; history: DemoHistoryEntry[] }>(`${this.endpoint}/${id}`)
+  }
+
+  /**
+   * Get the review history (audit trail) of a demo, oldest first
+   */
+  async getDemoHistory(id: string): Promise<ApiResponse<{ demo_id: string; history: DemoHistoryEntry[] }>> {
+    return apiClient.get<{ demo_id: string; history: DemoHistoryEntry[] }>(`${this.endpoint}/${id}/history`)
+  }
+
+  /**
+   * Get the emails sent to the artist of a demo and their delivery log
+   */
+  async getDemoEmails(id: string): Promise<ApiResponse<{ demo_id: string; emails: DemoEmail[]; log: EmailDeliveryLogEntry[] }>> {
+    return apiClient.get<{ demo_id: string; emails: DemoEmail[]; log: EmailDeliveryLogEntry[] }>(`${this.endpoint}/${id}/emails`)
+  }
+
+  /**
+   * Send an artist email again
+   */
+  async resendDemoEmail(id: string, emailId: string): Promise<ApiResponse<{ email: DemoEmail }>> {
+    return apiClient.post<{ email: DemoEmail }>(`${this.endpoint}/${id}/emails/${emailId}/resend`, {})
+  }
+
+  /**
+   * Set the language of the artist's emails, null to follow the submitted locale
+   */
+  async setDemoEmailLocale(id: string, locale: EmailLocale | null): Promise<ApiResponse<{ demo_id: string; email_locale_override: EmailLocale | null }>> {
+    return apiClient.put<{ demo_id: string; email_locale_override: EmailLocale | null }>(`${this.endpoint}/${id}/locale`, { locale })
+  }
+
+  /**
+   * Get internal reviewer notes of a demo, oldest first
+   */
+  async getDemoNotes(id: string): Promise<ApiResponse<{ demo_id: string; notes: DemoNote[] }>> {
+    return apiClient.get<{ demo_id: string; notes: DemoNote[] }>(`${this.endpoint}/${id}/notes`)
+  }
+
+  /**
+   * Add a note (or a reply to a note) to a demo
+   */
+  async addDemoNote(id: string, body: string, parentId?: string): Promise<ApiResponse<{ note: DemoNote }>> {
+    return apiClient.post<{ note: DemoNote }>(`${this.endpoint}/${id}/notes`, {
+      body,
+      parent_id: parentId || null,
+    })
+  }
+
+  /**
+   * Edit the text of a note
+   */
+  async updateDemoNote(id: string, noteId: string, body: string): Promise<ApiResponse<{ note: DemoNote }>> {
+    return apiClient.patch<{ note: DemoNote }>(`${this.endpoint}/${id}/notes/${noteId}`, { body })
+  }
+
+  /**
+   * Delete a note together with its replies
+   */
+  async deleteDemoNote(id: string, noteId: string): Promise<ApiResponse<{ success: boolean }>> {
+    return apiClient.delete<{ success: boolean }>(`${this.endpoint}/${id}/notes/${noteId}`)
+  }
+
+  /**
+   * Get every reviewer's scores for a demo plus the aggregate
+   */
+  async getDemoScores(id: string): Promise<ApiResponse<{ demo_id: string; scores: DemoScore[]; summary: DemoScoreSummary }>> {
+    return apiClient.get<{ demo_id: string; scores: DemoScore[]; summary: DemoScoreSummary }>(`${this.endpoint}/${id}/scores`)
+  }
+
+  /**
+   * Save the current reviewer's scores for a demo
    */
-  async getDemo(id: string): Promise<ApiResponse<Demo>> {
-    return apiClient.get<Demo>(`${this.endpoint}/${id}`)
+  async saveDemoScore(
+    id: string,
+    scores: Record<ScoreCriterion, number>
+  ): Promise<ApiResponse<{ score: DemoScore; summary: DemoScoreSummary }>> {
+    return apiClient.post<{ score: DemoScore; summary: DemoScoreSummary }>(`${this.endpoint}/${id}/scores`, { scores })
   }
 
   /**
@@ -162,8 +418,8 @@ export class DemoService {
   /**
    * Get demo statistics/counts
    */
-  async getDemoCounts(role?: 'admin' | 'assistant'): Promise<ApiResponse<DemoCounts>> {
-    const endpoint = role 
+  async getDemoCounts(role?: 'admin' | 'assistant' | 'viewer'): Promise<ApiResponse<DemoCounts>> {
+    const endpoint = role && role !== 'viewer'
       ? `${this.endpoint}/counts?role=${role}`
       : `${this.endpoint}/counts`
     
@@ -171,12 +427,18 @@ export class DemoService {
   }
 
   /**
-   * Batch update demo statuses
+   * Apply one workflow action to many demos at once
    */
-  async batchUpdateStatus(
-    updates: Array<{ id: string; status: DemoStatus }>
-  ): Promise<ApiResponse<Demo[]>> {
-    return apiClient.post<Demo[]>(`${this.endpoint}/batch-update`, { updates })
+  async batchAction(
+    role: WorkflowRole,
+    action: DemoAction,
+    demoIds: string[]
+  ): Promise<ApiResponse<DemoBatchActionResponse>> {
+    return apiClient.post<DemoBatchActionResponse>(`${this.endpoint}/batch-update`, {
+      role,
+      action,
+      demo_ids: demoIds,
+    })
   }
 
   /**
@@ -186,7 +448,7 @@ export class DemoService {
     query: string,
     filters?: DemoFilterParams,
     pagination?: QueryParams
-  ): Promise<ApiResponse<PaginatedResponse<Demo>>> {
+  ): Promise<ApiResponse<DemosApiResponse>> {
     const params = {
       search: query,
       ...filters,
@@ -197,13 +459,14 @@ export class DemoService {
   }
 
   /**
-   * Assistant action on demo (like, reject, undo_reject)
+   * Assistant action on demo (allowed actions are defined in lib/demo-workflow.ts)
    */
   async assistantAction(
     demoId: string, 
-    action: 'like' | 'reject' | 'undo_reject'
+    action: DemoAction,
+    note?: string
   ): Promise<ApiResponse<Demo>> {
-    const payload = { action }
+    const payload = note ? { action, note } : { action }
     const endpoint = `${this.endpoint}/${demoId}/assistant-action`
     
     console.log('🔥 ASSISTANT ACTION REQUEST:')
@@ -224,13 +487,14 @@ export class DemoService {
   }
 
   /**
-   * Owner action on demo (approve, reject, undo_reject, like)
+   * Owner action on demo (allowed actions are defined in lib/demo-workflow.ts)
    */
   async ownerAction(
     demoId: string, 
-    action: 'approve' | 'reject' | 'undo_reject' | 'like'
+    action: DemoAction,
+    compose?: ApprovalCompose
   ): Promise<ApiResponse<Demo>> {
-    return apiClient.post<Demo>(`${this.endpoint}/${demoId}/owner-action`, { action })
+    return apiClient.post<Demo>(`${this.endpoint}/${demoId}/owner-action`, compose ? { action, compose } : { action })
   }
 
   /**
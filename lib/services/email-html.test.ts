@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { copyToText, escapeHtml, html, sanitizeCopy, SafeHtml, trusted } from './email-html';
+
+describe('sanitizeCopy', () => {
+  it('keeps the allowed tags, lowercased', () => {
+    expect(sanitizeCopy('<strong>Hi</strong> <EM>there</EM><br/><b>b</b><i>i</i>').toString())
+      .toBe('<strong>Hi</strong> <em>there</em><br><b>b</b><i>i</i>');
+  });
+
+  it('escapes allowed tags that carry attributes', () => {
+    expect(sanitizeCopy('<b onclick="alert(1)">Hi</b>').toString())
+      .toBe('&lt;b onclick=&quot;alert(1)&quot;&gt;Hi');
+    expect(sanitizeCopy('<strong style="color:red">Hi</strong>').toString())
+      .toBe('&lt;strong style=&quot;color:red&quot;&gt;Hi');
+  });
+
+  it('escapes tags that are not allowed, links included', () => {
+    expect(sanitizeCopy('<script>alert(1)</script>').toString())
+      .toBe('&lt;script&gt;alert(1)&lt;/script&gt;');
+    expect(sanitizeCopy('<a href="https://example.com">link</a>').toString())
+      .toBe('&lt;a href=&quot;https://example.com&quot;&gt;link&lt;/a&gt;');
+    expect(sanitizeCopy('<img src=x onerror=alert(1)>').toString())
+      .toBe('&lt;img src=x onerror=alert(1)&gt;');
+  });
+
+  it('closes tags left open at the end', () => {
+    expect(sanitizeCopy('<strong>bold <em>both').toString()).toBe('<strong>bold <em>both</em></strong>');
+  });
+
+  it('drops closing tags that were never opened', () => {
+    expect(sanitizeCopy('plain</strong> text</i>').toString()).toBe('plain text');
+  });
+
+  it('closes inner tags first when an outer tag is closed', () => {
+    expect(sanitizeCopy('<b>bold <i>both</b> plain</i>').toString()).toBe('<b>bold <i>both</i></b> plain');
+  });
+
+  it('keeps correctly nested tags as they are', () => {
+    expect(sanitizeCopy('<strong>a <em>b <b>c</b></em></strong>').toString())
+      .toBe('<strong>a <em>b <b>c</b></em></strong>');
+  });
+
+  it('escapes text around the tags', () => {
+    expect(sanitizeCopy('A & B <strong>"C"</strong> > D').toString())
+      .toBe('A &amp; B <strong>&quot;C&quot;</strong> &gt; D');
+  });
+});
+
+describe('html', () => {
+  it('escapes interpolated values', () => {
+    const name = '<img src=x onerror="alert(1)">';
+    expect(html`<p>${name}</p>`.toString()).toBe('<p>&lt;img src=x onerror=&quot;alert(1)&quot;&gt;</p>');
+    expect(html`<a title="${`" onmouseover='x'`}">`.toString()).toBe('<a title="&quot; onmouseover=&#39;x&#39;">');
+  });
+
+  it('inserts SafeHtml as it is', () => {
+    expect(html`<p>${trusted('<br>')}${html`<b>${'<i>'}</b>`}</p>`.toString()).toBe('<p><br><b>&lt;i&gt;</b></p>');
+    expect(html`${sanitizeCopy('<em>x</em>')}`).toBeInstanceOf(SafeHtml);
+  });
+
+  it('joins arrays and leaves out null, undefined and false', () => {
+    expect(html`${['<a>', trusted('<b>')]}|${null}|${undefined}|${false}|${0}`.toString())
+      .toBe('&lt;a&gt;<b>||||0');
+  });
+});
+
+describe('escapeHtml', () => {
+  it('escapes every character that is special in content or quoted attributes', () => {
+    expect(escapeHtml(`&<>"'`)).toBe('&amp;&lt;&gt;&quot;&#39;');
+  });
+});
+
+describe('copyToText', () => {
+  it('drops the allowed tags, turns <br> into line breaks and leaves other text as typed', () => {
+    expect(copyToText('<strong>Hi</strong><br>A & <a href="x">B</a>')).toBe('Hi\nA & <a href="x">B</a>');
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * HTML building blocks for the email templates
+ * Artist and track names come from public submissions, so nothing is trusted by default:
+ * values interpolated with html`` are escaped unless they are SafeHtml, and the copy from
+ * EMAIL_CONFIG (or the owner's edits of it) may only use the few tags in EMAIL_ALLOWED_TAGS.
+ * Everything else, links and attributes included, ends up as visible text
+ */
+
+/**
+ * Markup that is already safe to put in an email, produced by html``, sanitizeCopy() or trusted()
+ */
+export class SafeHtml {
+  constructor(private readonly value: string) {}
+
+  toString(): string {
+    return this.value;
+  }
+}
+
+// Formatting the email copy may use; <br> stands alone, the others need a closing tag
+export const EMAIL_ALLOWED_TAGS = ['strong', 'em', 'b', 'i', 'br'] as const;
+
+// Only bare tags match: with attributes (e.g. <b onclick=...>) they stay text
+const ALLOWED_TAG_PATTERN = /<(\/?)(strong|em|b|i)>|<br\s*\/?>/gi;
+
+/**
+ * Escape text for use in HTML content or a quoted attribute
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function toHtml(value: unknown): string {
+  if (value instanceof SafeHtml) return value.toString();
+  if (Array.isArray(value)) return value.map(toHtml).join('');
+  if (value === null || value === undefined || value === false) return '';
+  return escapeHtml(String(value));
+}
+
+/**
+ * Template tag that escapes every interpolated value unless it is SafeHtml
+ * Arrays are joined, null, undefined and false are left out
+ */
+export function html(strings: TemplateStringsArray, ...values: unknown[]): SafeHtml {
+  return new SafeHtml(strings.reduce((result, part, index) => result + toHtml(values[index - 1]) + part));
+}
+
+/**
+ * Markup known to be safe: written in this codebase (e.g. the shared styles) or already
+ * sanitized and escaped; never raw input from a user
+ */
+export function trusted(markup: string): SafeHtml {
+  return new SafeHtml(markup);
+}
+
+/**
+ * Keep the allowed tags of a piece of copy and escape everything else
+ * Unclosed tags are closed at the end and stray closing tags dropped, so one field
+ * cannot change the formatting of the rest of the email
+ */
+export function sanitizeCopy(markup: string): SafeHtml {
+  const open: string[] = [];
+  let output = '';
+  let lastIndex = 0;
+  const pattern = new RegExp(ALLOWED_TAG_PATTERN.source, 'gi');
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(markup))) {
+    output += escapeHtml(markup.slice(lastIndex, match.index));
+    lastIndex = match.index + match[0].length;
+
+    const [, closing, name] = match;
+    if (!name) {
+      output += '<br>';
+      continue;
+    }
+    const tag = name.toLowerCase();
+    if (!closing) {
+      open.push(tag);
+      output += `<${tag}>`;
+    } else if (open.includes(tag)) {
+      // Tags opened inside it are closed first so the markup stays well formed
+      let last: string | undefined;
+      while ((last = open.pop())) {
+        output += `</${last}>`;
+        if (last === tag) break;
+      }
+    }
+  }
+
+  output += escapeHtml(markup.slice(lastIndex));
+  output += open.reverse().map(tag => `</${tag}>`).join('');
+  return new SafeHtml(output);
+}
+
+/**
+ * Plain text version of a piece of copy: <br> becomes a line break, the allowed tags go
+ * Other text is left exactly as typed
+ */
+export function copyToText(markup: string): string {
+  return markup.replace(ALLOWED_TAG_PATTERN, tag => (/^<br/i.test(tag) ? '\n' : ''));
+}
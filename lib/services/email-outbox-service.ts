@@ -0,0 +1,520 @@
+import { CACHE_KEYS, redis } from '@/lib/redis'
+import { MimeHeaderError, PermanentDeliveryError } from '@/lib/email-transport'
+import { getEmailService } from './email'
+import { updateHistoryEmailStatus } from './demo-history-service'
+import { getDemoLocaleOverride, resolveDemoEmailLocale } from './demo-locale-service'
+import type { EmailDeliverySettings } from './settings-service'
+import { isNotificationCurrent, type DemoState, type NotificationType } from '@/lib/demo-workflow'
+import type { ApprovalCompose, DemoEmail, EmailDeliveryLogEntry } from './demo-service'
+
+/**
+ * Outbox for artist notification emails
+ * Actions queue the email here, scheduled according to the email delivery settings;
+ * /api/cron/email-outbox sends it when it is due and retries failed attempts with
+ * exponential backoff (errors a retry cannot fix, such as a rejected recipient, fail right away). Until it is sent, undoing the action cancels it. Each demo gets
+ * at most one email per notification type (demo_id:notification), so undoing and redoing
+ * an action does not email the artist twice; only an explicit resend sends again
+ * All emails of a demo are sent as one conversation (In-Reply-To/References and the Gmail thread)
+ */
+
+// Delivery attempts before giving up (1 + 5 retries)
+const MAX_ATTEMPTS = 6
+
+// Delay before the first retry, doubled after every failure (1, 2, 4, 8, 16 minutes)
+const RETRY_BASE_DELAY_MS = 60 * 1000
+
+// A delivery attempt holds the lock at most this long, in case the process dies mid-send
+const DELIVERY_LOCK_SECONDS = 120
+
+function idempotencyKey(demoId: string, notification: NotificationType): string {
+  return `${demoId}:${notification}`
+}
+
+function logKey(demoId: string): string {
+  return `${CACHE_KEYS.EMAIL_LOG_PREFIX}${demoId}`
+}
+
+function demoEmailsKey(demoId: string): string {
+  return `${CACHE_KEYS.EMAIL_OUTBOX_DEMO_PREFIX}${demoId}`
+}
+
+function lockKey(emailId: string): string {
+  return `${CACHE_KEYS.EMAIL_OUTBOX_LOCK_PREFIX}${emailId}`
+}
+
+/**
+ * Take the delivery lock of an email, returns the token to release it with (null if it is held)
+ */
+async function acquireLock(emailId: string): Promise<string | null> {
+  const token = crypto.randomUUID()
+  const locked = await redis.set(lockKey(emailId), token, { nx: true, ex: DELIVERY_LOCK_SECONDS })
+  return locked ? token : null
+}
+
+// The lock may have expired and been taken by another attempt meanwhile, leave that one alone
+async function releaseLock(emailId: string, token: string): Promise<void> {
+  await redis.delIfEquals(lockKey(emailId), token)
+}
+
+/**
+ * When the cron should next pick the email up: its scheduled time or next retry, or, for an
+ * attempt that never finished, once its lock has expired; null when nothing is left to do
+ */
+function dueTime(email: DemoEmail): number | null {
+  if (email.status === 'pending' && email.next_attempt_at) {
+    return Date.parse(email.next_attempt_at)
+  }
+  if (email.status === 'sending') {
+    return Date.parse(email.updated_at) + DELIVERY_LOCK_SECONDS * 1000
+  }
+  return null
+}
+
+async function saveEmail(email: DemoEmail): Promise<void> {
+  await redis.hset(CACHE_KEYS.EMAIL_OUTBOX, { [email.email_id]: email })
+  // Every save bumps updated_at, so the email saved last is the demo's latest
+  await redis.hset(CACHE_KEYS.EMAIL_OUTBOX_LATEST, { [email.demo_id]: email.email_id })
+  const due = dueTime(email)
+  if (due === null) {
+    await redis.zrem(CACHE_KEYS.EMAIL_OUTBOX_DUE, email.email_id)
+  } else {
+    await redis.zadd(CACHE_KEYS.EMAIL_OUTBOX_DUE, due, email.email_id)
+  }
+}
+
+// Retrying cannot help: an address that is not safe to send to, or a recipient the provider rejected
+function isPermanentFailure(error: unknown): boolean {
+  return error instanceof MimeHeaderError || error instanceof PermanentDeliveryError
+}
+
+async function appendLog(
+  email: DemoEmail,
+  event: EmailDeliveryLogEntry['event'],
+  details: { error?: string | null; actorName?: string | null } = {}
+): Promise<void> {
+  const entry: EmailDeliveryLogEntry = {
+    email_id: email.email_id,
+    demo_id: email.demo_id,
+    notification: email.notification,
+    event,
+    attempt: email.attempts,
+    timestamp: new Date().toISOString(),
+    error: details.error ?? null,
+    next_attempt_at: event === 'failed' || event === 'queued' ? email.next_attempt_at : null,
+    actor_name: details.actorName ?? null,
+  }
+  await redis.rpush(logKey(email.demo_id), entry)
+}
+
+export async function getOutboxEmail(emailId: string): Promise<DemoEmail | null> {
+  return (await redis.hget<DemoEmail>(CACHE_KEYS.EMAIL_OUTBOX, emailId)) || null
+}
+
+async function getOutboxEmails(emailIds: string[]): Promise<DemoEmail[]> {
+  const emails = await redis.hmget<DemoEmail>(CACHE_KEYS.EMAIL_OUTBOX, emailIds)
+  return Object.values(emails).filter((email): email is DemoEmail => email !== null)
+}
+
+/**
+ * Every email sent (or queued) for a demo, oldest first
+ */
+export async function getDemoEmails(demoId: string): Promise<DemoEmail[]> {
+  const emailIds = await redis.smembers(demoEmailsKey(demoId))
+  return (await getOutboxEmails(emailIds || []))
+    .sort((a, b) => a.created_at.localeCompare(b.created_at))
+}
+
+/**
+ * Threading for the next email of a demo: the Message-IDs of its emails sent so far,
+ * after the demo's thread id, and the Gmail thread they are in
+ */
+async function getDemoThread(demoId: string, emailId: string): Promise<{ references: string[]; threadId: string | null }> {
+  const emailService = getEmailService()
+  const sent = (await getDemoEmails(demoId))
+    .filter(email => email.email_id !== emailId && email.status === 'sent')
+    .sort((a, b) => (a.sent_at || '').localeCompare(b.sent_at || ''))
+
+  return {
+    references: [emailService.getDemoThreadId(demoId), ...sent.map(email => email.message_id!)],
+    threadId: [...sent].reverse().find(email => email.gmail_thread_id)?.gmail_thread_id || null,
+  }
+}
+
+/**
+ * Most recently updated email of each of these demos (the one the demo card shows), keyed by demo_id
+ */
+export async function getLatestEmailsByDemo(demoIds: string[]): Promise<Map<string, DemoEmail>> {
+  const latestIds = await redis.hmget<string>(CACHE_KEYS.EMAIL_OUTBOX_LATEST, demoIds)
+  const emailIds = Object.values(latestIds).filter((emailId): emailId is string => !!emailId)
+  const emails = await getOutboxEmails(emailIds)
+  return new Map(emails.map(email => [email.demo_id, email]))
+}
+
+// Offset of a time zone from UTC at the given moment, in milliseconds
+function timeZoneOffset(date: Date, timeZone: string): number {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    }).formatToParts(date).map(part => [part.type, part.value])
+  )
+  const wallClock = Date.UTC(+parts.year, +parts.month - 1, +parts.day, +parts.hour, +parts.minute, +parts.second)
+  return wallClock - Math.floor(date.getTime() / 1000) * 1000
+}
+
+/**
+ * When an email queued now should be sent
+ */
+export function getScheduledSendTime(settings: EmailDeliverySettings, now = new Date()): Date {
+  if (settings.mode === 'delay') {
+    return new Date(now.getTime() + settings.delay_minutes * 60 * 1000)
+  }
+
+  if (settings.mode === 'daily') {
+    // Today's daily_time in the configured zone, or tomorrow's if it has passed
+    const [hours, minutes] = settings.daily_time.split(':').map(Number)
+    const localNow = new Date(now.getTime() + timeZoneOffset(now, settings.timezone))
+    for (let days = 0; days <= 1; days++) {
+      const wallClock = Date.UTC(localNow.getUTCFullYear(), localNow.getUTCMonth(), localNow.getUTCDate() + days, hours, minutes)
+      const sendAt = wallClock - timeZoneOffset(new Date(wallClock), settings.timezone)
+      if (sendAt > now.getTime()) {
+        return new Date(sendAt)
+      }
+    }
+  }
+
+  return now
+}
+
+/**
+ * Delivery log of a demo's emails, oldest first
+ */
+export async function getEmailDeliveryLog(demoId: string): Promise<EmailDeliveryLogEntry[]> {
+  const entries = await redis.lrange<EmailDeliveryLogEntry>(logKey(demoId), 0, -1)
+  return entries || []
+}
+
+/**
+ * Queue a notification email, to be sent at sendAt, unless this demo already got one of this type
+ * duplicate is true when the existing email was returned instead; a cancelled email is
+ * scheduled again rather than duplicated
+ */
+export async function queueDemoEmail({
+  demoId,
+  notification,
+  to,
+  artistName,
+  trackTitle,
+  sendAt = new Date(),
+  compose,
+  locale,
+}: {
+  demoId: string
+  notification: NotificationType
+  to: string
+  artistName: string
+  trackTitle: string
+  sendAt?: Date
+  compose?: ApprovalCompose | null
+  locale?: string | null
+}): Promise<{ email: DemoEmail; duplicate: boolean }> {
+  const approval = compose
+    ? {
+        personal_message: compose.personal_message || null,
+        release_window: compose.release_window || null,
+        contact_person: compose.contact_person || null,
+      }
+    : null
+  const key = idempotencyKey(demoId, notification)
+  const emailId = crypto.randomUUID()
+  // Claim the key before anything else, so concurrent requests cannot both queue an email
+  const claimed = await redis.hsetnx(CACHE_KEYS.EMAIL_OUTBOX_KEYS, key, emailId)
+  if (!claimed) {
+    const existingId = await redis.hget<string>(CACHE_KEYS.EMAIL_OUTBOX_KEYS, key)
+    const existing = existingId ? await getOutboxEmail(existingId) : null
+    if (!existingId || !existing) {
+      throw new Error(`The ${notification} email of ${demoId} is being queued by another request`)
+    }
+
+    // Hold the delivery lock so the email cannot be cancelled or sent while it is rescheduled
+    const token = existing.status === 'cancelled' ? await acquireLock(existingId) : null
+    if (token) {
+      try {
+        const current = await getOutboxEmail(existingId)
+        if (current && current.status === 'cancelled') {
+          const rescheduled: DemoEmail = {
+            ...current,
+            status: 'pending',
+            attempts: 0,
+            next_attempt_at: sendAt.toISOString(),
+            last_error: null,
+            approval,
+            reply_to: compose?.reply_to || null,
+            locale: locale || null,
+            updated_at: new Date().toISOString(),
+          }
+          await saveEmail(rescheduled)
+          await appendLog(rescheduled, 'queued')
+          return { email: rescheduled, duplicate: false }
+        }
+      } finally {
+        await releaseLock(existingId, token)
+      }
+    }
+
+    // Another request may have rescheduled it in the meantime
+    const current = token ? (await getOutboxEmail(existingId)) || existing : existing
+    await appendLog(current, 'duplicate')
+    return { email: current, duplicate: true }
+  }
+
+  const now = new Date().toISOString()
+  const email: DemoEmail = {
+    email_id: emailId,
+    demo_id: demoId,
+    notification,
+    to,
+    artist_name: artistName,
+    track_title: trackTitle,
+    status: 'pending',
+    attempts: 0,
+    next_attempt_at: sendAt.toISOString(),
+    last_error: null,
+    message_id: null,
+    resend_count: 0,
+    created_at: now,
+    updated_at: now,
+    sent_at: null,
+    approval,
+    reply_to: compose?.reply_to || null,
+    locale: locale || null,
+    rendered: null,
+  }
+
+  try {
+    await saveEmail(email)
+    await redis.sadd(demoEmailsKey(demoId), email.email_id)
+  } catch (error) {
+    // Drop what was saved and give up the claim, otherwise the key points at an email that
+    // was never queued and this notification could not be queued for the demo again
+    await Promise.all([
+      redis.zrem(CACHE_KEYS.EMAIL_OUTBOX_DUE, emailId),
+      redis.hdel(CACHE_KEYS.EMAIL_OUTBOX, emailId),
+    ])
+      .then(() => redis.hdelIfEquals(CACHE_KEYS.EMAIL_OUTBOX_KEYS, key, emailId))
+      .catch(cleanupError => console.error(`Failed to release the ${notification} email claim of ${demoId}:`, cleanupError))
+    throw error
+  }
+  await appendLog(email, 'queued')
+  return { email, duplicate: false }
+}
+
+/**
+ * Make one delivery attempt, scheduling a retry (or giving up) when it fails
+ * Returns the email as it is afterwards; emails already sent or being sent are left alone
+ */
+export async function deliverEmail(emailId: string): Promise<DemoEmail | null> {
+  const token = await acquireLock(emailId)
+  if (!token) {
+    return getOutboxEmail(emailId)
+  }
+
+  try {
+    const email = await getOutboxEmail(emailId)
+    if (!email || email.status === 'sent' || email.status === 'cancelled') {
+      return email
+    }
+
+    const attempt: DemoEmail = {
+      ...email,
+      status: 'sending',
+      attempts: email.attempts + 1,
+      updated_at: new Date().toISOString(),
+    }
+    await saveEmail(attempt)
+
+    let result: DemoEmail
+    try {
+      const emailService = getEmailService()
+      // The language may have been changed on the demo page since the email was queued
+      const locale = resolveDemoEmailLocale(await getDemoLocaleOverride(email.demo_id), email.locale)
+      const { subject, htmlBody, textBody } = await emailService.renderDemoNotification(
+        email.notification,
+        email.artist_name,
+        email.track_title,
+        email.demo_id,
+        email.approval,
+        locale
+      )
+      const { references, threadId } = await getDemoThread(email.demo_id, email.email_id)
+      const sent = await emailService.sendEmail(email.to, subject, htmlBody, textBody, {
+        replyTo: email.reply_to || emailService.getReplyTo(email.demo_id),
+        messageId: emailService.getDemoMessageId(email.demo_id, email.notification, email.resend_count),
+        references,
+        threadId,
+      })
+      const now = new Date().toISOString()
+      result = {
+        ...attempt,
+        status: 'sent',
+        message_id: sent.messageId,
+        gmail_message_id: sent.transport === 'gmail' ? sent.providerMessageId : null,
+        gmail_thread_id: sent.transport === 'gmail' ? sent.providerThreadId : null,
+        rendered: { subject, html_body: htmlBody, text_body: textBody, locale },
+        next_attempt_at: null,
+        last_error: null,
+        sent_at: now,
+        updated_at: now,
+      }
+      await saveEmail(result)
+      await appendLog(result, 'sent')
+      await updateHistoryEmailStatus(email.demo_id, email.email_id, {
+        notification_sent: true,
+        error: null,
+        message_id: result.message_id,
+        gmail_message_id: result.gmail_message_id,
+        gmail_thread_id: result.gmail_thread_id,
+      }).catch(error => console.error(`Failed to record delivery of email ${emailId} in the demo history:`, error))
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      const gaveUp = isPermanentFailure(error) || attempt.attempts >= MAX_ATTEMPTS
+      result = {
+        ...attempt,
+        status: gaveUp ? 'failed' : 'pending',
+        next_attempt_at: gaveUp
+          ? null
+          : new Date(Date.now() + RETRY_BASE_DELAY_MS * 2 ** (attempt.attempts - 1)).toISOString(),
+        last_error: message,
+        updated_at: new Date().toISOString(),
+      }
+      await saveEmail(result)
+      await appendLog(result, 'failed', { error: message })
+      console.error(`Email ${emailId} attempt ${attempt.attempts} failed${gaveUp ? ', giving up' : ''}:`, message)
+    }
+
+    return result
+  } finally {
+    await releaseLock(emailId, token)
+  }
+}
+
+/**
+ * Cancel a demo's notification email of this type if it has not been sent yet
+ * Returns the cancelled email, or null when there was nothing left to cancel
+ */
+export async function cancelDemoEmail(
+  demoId: string,
+  notification: NotificationType,
+  actorName: string | null
+): Promise<DemoEmail | null> {
+  const emailId = await redis.hget<string>(CACHE_KEYS.EMAIL_OUTBOX_KEYS, idempotencyKey(demoId, notification))
+  if (!emailId) return null
+
+  // Hold the delivery lock so the email cannot go out while it is being cancelled
+  const token = await acquireLock(emailId)
+  if (!token) return null
+
+  try {
+    const email = await getOutboxEmail(emailId)
+    if (!email || email.status !== 'pending') return null
+
+    const cancelled: DemoEmail = {
+      ...email,
+      status: 'cancelled',
+      next_attempt_at: null,
+      updated_at: new Date().toISOString(),
+    }
+    await saveEmail(cancelled)
+    await appendLog(cancelled, 'cancelled', { actorName })
+    return cancelled
+  } finally {
+    await releaseLock(emailId, token)
+  }
+}
+
+/**
+ * Another delivery attempt, cancellation or resend of the email holds its lock right now
+ */
+export class EmailLockedError extends Error {
+  constructor(public readonly emailId: string) {
+    super('The email is being sent or changed right now, try again in a moment')
+    this.name = 'EmailLockedError'
+  }
+}
+
+/**
+ * A cancelled email whose action was undone, the demo is no longer in the state it tells the artist about
+ */
+export class OutdatedEmailError extends Error {
+  constructor(public readonly emailId: string) {
+    super('The action of this email was undone, it no longer matches the demo')
+    this.name = 'OutdatedEmailError'
+  }
+}
+
+/**
+ * Send an email again on request, even if it was delivered before
+ * Also sends a scheduled email right away, or a cancelled one if the demo is back in the
+ * state it was sent for (demoState is where the demo is now)
+ * Throws EmailLockedError while another attempt holds the delivery lock, OutdatedEmailError
+ * for a cancelled email that no longer matches the demo
+ */
+export async function resendEmail(
+  emailId: string,
+  demoState: DemoState | null,
+  actorName: string | null
+): Promise<DemoEmail | null> {
+  // Hold the delivery lock so an attempt in flight cannot overwrite the requeue
+  const token = await acquireLock(emailId)
+  if (!token) {
+    throw new EmailLockedError(emailId)
+  }
+
+  try {
+    const email = await getOutboxEmail(emailId)
+    if (!email) return null
+    if (email.status === 'cancelled' && !isNotificationCurrent(email.notification, demoState)) {
+      throw new OutdatedEmailError(emailId)
+    }
+
+    const requeued: DemoEmail = {
+      ...email,
+      status: 'pending',
+      attempts: 0,
+      next_attempt_at: new Date().toISOString(),
+      last_error: null,
+      resend_count: email.resend_count + 1,
+      updated_at: new Date().toISOString(),
+    }
+    await saveEmail(requeued)
+    await appendLog(requeued, 'resend', { actorName })
+  } finally {
+    await releaseLock(emailId, token)
+  }
+
+  return deliverEmail(emailId)
+}
+
+/**
+ * Send every pending email whose scheduled time or next retry is due, oldest first
+ * Attempts that never finished (the lock has expired) are picked up again as well
+ */
+export async function processDueEmails(limit: number): Promise<{ processed: number; sent: number; failed: number }> {
+  const due = await redis.zrangeByScore(CACHE_KEYS.EMAIL_OUTBOX_DUE, 0, Date.now(), limit)
+
+  let sent = 0
+  let failed = 0
+  for (const emailId of due) {
+    const result = await deliverEmail(emailId)
+    if (result?.status === 'sent') sent++
+    else failed++
+  }
+
+  return { processed: due.length, sent, failed }
+}
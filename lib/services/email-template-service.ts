@@ -0,0 +1,145 @@
+import { CACHE_KEYS, redis } from '@/lib/redis'
+import {
+  DEFAULT_EMAIL_LOCALE,
+  EMAIL_LOCALES,
+  getBaseEmailCopy,
+  isEmailLocale,
+  type EmailCopyOverrides,
+  type EmailLocale,
+  type EmailTemplateType,
+} from './email-templates'
+
+export const EMAIL_TEMPLATE_TYPES: readonly EmailTemplateType[] = ['liked', 'rejected', 'approved']
+
+/**
+ * Owner's changes to the copy of one email type in one language, on top of its default copy
+ */
+export interface EmailTemplateOverride {
+  type: EmailTemplateType
+  locale: EmailLocale
+  fields: EmailCopyOverrides
+  updated_at: string
+  updated_by: string | null
+}
+
+export type EmailTemplateOverrides = Partial<Record<EmailLocale, Partial<Record<EmailTemplateType, EmailTemplateOverride>>>>
+
+export function isEmailTemplateType(value: unknown): value is EmailTemplateType {
+  return typeof value === 'string' && (EMAIL_TEMPLATE_TYPES as readonly string[]).includes(value)
+}
+
+/**
+ * Hash field of an override, e.g. "liked:en"
+ */
+function overrideField(type: EmailTemplateType, locale: EmailLocale): string {
+  return `${type}:${locale}`
+}
+
+/**
+ * Keep the fields an email type has, dropping blank values and values equal to what the
+ * language shows without edits of its own (the default, or the owner's English edit)
+ * Returns an error message when the payload is not an object of strings
+ */
+export function parseEmailCopyOverrides(
+  type: EmailTemplateType,
+  value: unknown,
+  locale: EmailLocale = DEFAULT_EMAIL_LOCALE,
+  englishOverrides?: EmailCopyOverrides
+): { fields: EmailCopyOverrides } | { error: string } {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { error: '"fields" must be an object' }
+  }
+
+  const defaults = getBaseEmailCopy(type, locale, englishOverrides) as Record<string, string>
+  const fields: Record<string, string> = {}
+  for (const [key, fieldValue] of Object.entries(value)) {
+    if (!(key in defaults)) {
+      return { error: `Unknown field "${key}" for the ${type} email` }
+    }
+    if (typeof fieldValue !== 'string') {
+      return { error: `"${key}" must be a string` }
+    }
+    if (fieldValue.trim() && fieldValue !== defaults[key]) {
+      fields[key] = fieldValue
+    }
+  }
+
+  return { fields: fields as EmailCopyOverrides }
+}
+
+/**
+ * Language of the ?locale= query parameter; English when there is none
+ * Returns an error message for a language emails cannot be sent in
+ */
+export function parseEmailLocaleParam(value: string | null): { locale: EmailLocale } | { error: string } {
+  if (!value) {
+    return { locale: DEFAULT_EMAIL_LOCALE }
+  }
+  if (!isEmailLocale(value)) {
+    return { error: `Invalid locale. Must be one of: ${EMAIL_LOCALES.join(', ')}` }
+  }
+  return { locale: value }
+}
+
+/**
+ * All of the owner's changes, by language and email type
+ */
+export async function getEmailTemplateOverrides(): Promise<EmailTemplateOverrides> {
+  const stored = await redis.hgetall<Record<string, EmailTemplateOverride>>(CACHE_KEYS.EMAIL_TEMPLATES)
+  const overrides: EmailTemplateOverrides = {}
+  for (const override of Object.values(stored || {})) {
+    overrides[override.locale] = { ...overrides[override.locale], [override.type]: override }
+  }
+  return overrides
+}
+
+export async function getEmailTemplateOverride(
+  type: EmailTemplateType,
+  locale: EmailLocale = DEFAULT_EMAIL_LOCALE
+): Promise<EmailTemplateOverride | null> {
+  return (await redis.hget<EmailTemplateOverride>(CACHE_KEYS.EMAIL_TEMPLATES, overrideField(type, locale))) || null
+}
+
+/**
+ * The owner's edits to the English email, which other languages fall back to for the
+ * fields they have no edits of their own for; none for English itself
+ */
+export async function getEnglishOverrideFields(
+  type: EmailTemplateType,
+  locale: EmailLocale
+): Promise<EmailCopyOverrides | undefined> {
+  if (locale === DEFAULT_EMAIL_LOCALE) return undefined
+  return (await getEmailTemplateOverride(type, DEFAULT_EMAIL_LOCALE))?.fields
+}
+
+/**
+ * Store the owner's copy for an email type in a language; saving no changes goes back to the defaults
+ */
+export async function saveEmailTemplateOverride(
+  type: EmailTemplateType,
+  fields: EmailCopyOverrides,
+  updatedBy: string | null,
+  locale: EmailLocale = DEFAULT_EMAIL_LOCALE
+): Promise<EmailTemplateOverride | null> {
+  if (Object.keys(fields).length === 0) {
+    await resetEmailTemplateOverride(type, locale)
+    return null
+  }
+
+  const override: EmailTemplateOverride = {
+    type,
+    locale,
+    fields,
+    updated_at: new Date().toISOString(),
+    updated_by: updatedBy,
+  }
+  await redis.hset(CACHE_KEYS.EMAIL_TEMPLATES, { [overrideField(type, locale)]: override })
+  return override
+}
+
+export async function resetEmailTemplateOverride(
+  type: EmailTemplateType,
+  locale: EmailLocale = DEFAULT_EMAIL_LOCALE
+): Promise<void> {
+  await redis.hdel(CACHE_KEYS.EMAIL_TEMPLATES, overrideField(type, locale))
+}
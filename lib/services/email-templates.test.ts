@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { EMAIL_CONFIG, fillPlaceholders, getBaseEmailCopy, getDefaultEmailCopy, renderEmailTemplate, withEnglishOverrides } from './email-templates';
+
+const ARTIST = '<script>alert("artist")</script>';
+const TRACK = 'Night <b onmouseover="x">Drive</b> & Co';
+
+describe('fillPlaceholders', () => {
+  it('fills known placeholders and leaves unknown ones', () => {
+    expect(fillPlaceholders('{{artist_name}} - {{ track_title }} {{label}}', { artist_name: 'A', track_title: 'T' }))
+      .toBe('A - T {{label}}');
+  });
+
+  it('does not fill placeholders that appear in a value', () => {
+    expect(fillPlaceholders('{{artist_name}}', { artist_name: '{{track_title}}', track_title: 'T' })).toBe('{{track_title}}');
+  });
+});
+
+describe('placeholder values containing markup', () => {
+  for (const type of ['liked', 'rejected', 'approved'] as const) {
+    it(`are escaped in the HTML of the ${type} email`, () => {
+      const email = renderEmailTemplate(type, ARTIST, TRACK, 'demo-1');
+
+      expect(email.htmlBody).not.toContain('<script>');
+      expect(email.htmlBody).not.toContain('<b onmouseover');
+      expect(email.htmlBody).toContain('&lt;script&gt;alert(&quot;artist&quot;)&lt;/script&gt;');
+      expect(email.htmlBody).toContain('Night &lt;b onmouseover=&quot;x&quot;&gt;Drive&lt;/b&gt; &amp; Co');
+    });
+
+    it(`are kept as typed in the text and subject of the ${type} email`, () => {
+      const email = renderEmailTemplate(type, ARTIST, TRACK, 'demo-1');
+
+      expect(email.textBody).toContain(ARTIST);
+      expect(email.textBody).toContain(TRACK);
+      expect(email.subject).not.toContain('&lt;');
+    });
+  }
+
+  it('cannot close or open tags of the copy around them', () => {
+    const email = renderEmailTemplate('liked', 'A', '</strong><em>', 'demo-1');
+
+    // The default intro puts the track title in <strong>
+    expect(email.htmlBody).toContain('<strong>&lt;/strong&gt;&lt;em&gt;</strong>');
+    expect(email.htmlBody).not.toContain('<em>');
+  });
+
+  it('are escaped in the owner\'s overrides as well', () => {
+    const email = renderEmailTemplate('liked', ARTIST, TRACK, 'demo-1', {
+      heading: '<em>{{artist_name}}</em> <a href="https://example.com">{{track_title}}</a>',
+    });
+
+    expect(email.htmlBody).toContain(
+      '<h2><em>&lt;script&gt;alert(&quot;artist&quot;)&lt;/script&gt;</em> &lt;a href=&quot;https://example.com&quot;&gt;Night &lt;b onmouseover=&quot;x&quot;&gt;Drive&lt;/b&gt; &amp; Co&lt;/a&gt;</h2>'
+    );
+  });
+
+  it('are escaped in the approval details', () => {
+    const email = renderEmailTemplate('approved', 'A', 'T', 'demo-1', undefined, {
+      personal_message: '<img src=x onerror="alert(1)">',
+      contact_person: '<b>Sam</b>',
+    });
+
+    expect(email.htmlBody).not.toContain('<img');
+    expect(email.htmlBody).not.toContain('<b>Sam</b>');
+    expect(email.textBody).toContain('<img src=x onerror="alert(1)">');
+  });
+});
+
+describe('overrides', () => {
+  it('replace the default copy, blank ones are ignored', () => {
+    const email = renderEmailTemplate('rejected', 'A', 'T', 'demo-1', { subject: 'News about {{track_title}}', closing: '  ' });
+
+    expect(email.subject).toBe('News about T');
+    expect(email.textBody).toContain(EMAIL_CONFIG.rejected.closing);
+  });
+});
+
+describe('English fallback', () => {
+  it('uses the English edit for fields a language has no edit of its own for', () => {
+    const overrides = withEnglishOverrides('de', { subject: 'Neu: {{track_title}}' }, { subject: 'New: {{track_title}}', closing: 'Cheers' });
+    expect(overrides).toEqual({ subject: 'Neu: {{track_title}}', closing: 'Cheers' });
+  });
+
+  it('does not apply to English itself', () => {
+    expect(withEnglishOverrides('en', { subject: 'A' }, { closing: 'B' })).toEqual({ subject: 'A' });
+  });
+
+  it('falls back to the default translation for fields without any edit', () => {
+    const base = getBaseEmailCopy('liked', 'de', { closing: 'Cheers' });
+    const defaults = getDefaultEmailCopy('liked', 'de');
+
+    expect(base.closing).toBe('Cheers');
+    expect(base.intro).toBe(defaults.intro);
+  });
+});
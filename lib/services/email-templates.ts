@@ -1,3 +1,22 @@
+import { copyToText, escapeHtml, html, sanitizeCopy, trusted, type SafeHtml } from './email-html';
+import {
+  DEFAULT_EMAIL_LOCALE,
+  EMAIL_LABELS,
+  EMAIL_TRANSLATIONS,
+  type EmailLabels,
+  type EmailLocale,
+} from './email-translations';
+
+export { EMAIL_ALLOWED_TAGS } from './email-html';
+export {
+  DEFAULT_EMAIL_LOCALE,
+  EMAIL_LOCALES,
+  EMAIL_LOCALE_NAMES,
+  isEmailLocale,
+  resolveEmailLocale,
+  type EmailLocale,
+} from './email-translations';
+
 /**
  * Common email styles shared across all templates
  * These styles ensure consistent branding and appearance
@@ -18,16 +37,19 @@ const commonStyles = `
 
 /**
  * Email template configuration - makes content easily editable
+ * The English copy; other languages are in email-translations.ts and fall back to this
+ * {{artist_name}} and {{track_title}} are filled in when an email is rendered; the owner
+ * can override any of these fields, per language, from /dashboard/settings/emails
+ * Only the tags in EMAIL_ALLOWED_TAGS are kept in the HTML, anything else shows as text
  */
-const EMAIL_CONFIG = {
+export const EMAIL_CONFIG = {
   labelName: 'Collecting Dots Records',
   
   // Liked email content
   liked: {
-    subject: (trackTitle: string) => `Hold! Your Demo Has Caught Our Attention - ${trackTitle}`,
+    subject: 'Hold! Your Demo Has Caught Our Attention - {{track_title}}',
     heading: '🎵 Hold! Your Demo Has Caught Our Attention!',
-    intro: (artistName: string, trackTitle: string) => 
-      `Dear ${artistName}, we wanted to reach out and let you know that your demo "<strong>${trackTitle}</strong>" has caught the attention of our A&R team.`,
+    intro: 'Dear {{artist_name}}, we wanted to reach out and let you know that your demo "<strong>{{track_title}}</strong>" has caught the attention of our A&R team.',
     body: `Your track has been forwarded for further review, which means it stood out among the many submissions we receive. This is an exciting step in our review process!`,
     nextSteps: `Our team is currently evaluating your submission more closely. If your track aligns with our upcoming release schedule and vision, we'll be in touch with next steps. `,
     closing: 'WHILE YOU AWAIT OUR RESPONSE, PLEASE KEEP THE TRACK ON HOLD<br><br>Keep creating amazing music!',
@@ -35,10 +57,9 @@ const EMAIL_CONFIG = {
   
   // Rejected email content
   rejected: {
-    subject: (trackTitle: string) => `Demo Review Update - ${trackTitle}`,
+    subject: 'Demo Review Update - {{track_title}}',
     heading: 'Thank You for Your Submission',
-    intro: (artistName: string, trackTitle: string) => 
-      `Dear ${artistName}, thank you for sharing your demo "<strong>${trackTitle}</strong>" with us.`,
+    intro: 'Dear {{artist_name}}, thank you for sharing your demo "<strong>{{track_title}}</strong>" with us.',
     body: `After careful consideration, we've decided that this particular track doesn't quite fit our current release plans. This decision reflects our specific focus right now and is not a judgment on your talent or the quality of your music.`,
     encouragement: `We genuinely appreciate artists who take the time to share their work with us. The music industry is full of success stories that began with persistence and continued growth.`,
     invitation: `We encourage you to continue developing your sound and to submit again in the future. Our taste and needs evolve, and what doesn't fit today might be perfect tomorrow.`,
@@ -47,91 +68,254 @@ const EMAIL_CONFIG = {
   
   // Final approval email content
   approved: {
-    subject: (artistName: string) => `${artistName} x Collecting Dots`,
-    heading: (trackTitle: string) => `Your demo ${trackTitle} has been selected!`,
-    intro: (artistName: string, trackTitle: string) => 
-      `Dear ${artistName}, we are thrilled to inform you that your demo "<strong>${trackTitle}</strong>" has been officially selected by our label!`,
+    subject: '{{artist_name}} x Collecting Dots',
+    heading: 'Your demo {{track_title}} has been selected!',
+    intro: 'Dear {{artist_name}}, we are thrilled to inform you that your demo "<strong>{{track_title}}</strong>" has been officially selected by our label!',
     body: `This is a significant milestone, and we're excited about the possibility of working together. Your track resonated with our team and we believe it could be a great addition to our catalog.`,
+    // One step per line
     nextSteps: [
       'A member of our team will reach out to you shortly via email',
       'We\'ll discuss potential release plans and partnership details',
       'Please keep an eye on your inbox for our follow-up message',
-    ],
+    ].join('\n'),
     closing: 'Welcome to the Collecting Dots family!',
   },
 };
 
-interface EmailTemplate {
+export type EmailTemplateType = 'liked' | 'rejected' | 'approved';
+
+export type EmailCopy<T extends EmailTemplateType = EmailTemplateType> = (typeof EMAIL_CONFIG)[T];
+
+// Fields changed from the defaults; missing or blank fields use EMAIL_CONFIG
+export type EmailCopyOverrides<T extends EmailTemplateType = EmailTemplateType> = Partial<EmailCopy<T>>;
+
+export const EMAIL_PLACEHOLDERS = ['artist_name', 'track_title'] as const;
+
+/**
+ * Owner's additions to the approval email, entered in the compose step when approving
+ * Plain text; merged into the approved template
+ */
+export interface ApprovalDetails {
+  personal_message?: string | null;
+  release_window?: string | null;
+  contact_person?: string | null;
+}
+
+/**
+ * Editable fields of each email, in the order they appear in it
+ */
+export const EMAIL_TEMPLATE_FIELDS: {
+  [T in EmailTemplateType]: Array<{ key: keyof EmailCopy<T> & string; label: string; multiline: boolean }>;
+} = {
+  liked: [
+    { key: 'subject', label: 'Subject', multiline: false },
+    { key: 'heading', label: 'Heading', multiline: false },
+    { key: 'intro', label: 'Introduction', multiline: true },
+    { key: 'body', label: 'Body', multiline: true },
+    { key: 'nextSteps', label: 'What happens next', multiline: true },
+    { key: 'closing', label: 'Closing', multiline: true },
+  ],
+  rejected: [
+    { key: 'subject', label: 'Subject', multiline: false },
+    { key: 'heading', label: 'Heading', multiline: false },
+    { key: 'intro', label: 'Introduction', multiline: true },
+    { key: 'body', label: 'Body', multiline: true },
+    { key: 'encouragement', label: 'Keep going', multiline: true },
+    { key: 'invitation', label: 'Invitation to submit again', multiline: true },
+    { key: 'closing', label: 'Closing', multiline: true },
+  ],
+  approved: [
+    { key: 'subject', label: 'Subject', multiline: false },
+    { key: 'heading', label: 'Heading', multiline: false },
+    { key: 'intro', label: 'Introduction', multiline: true },
+    { key: 'body', label: 'Body', multiline: true },
+    { key: 'nextSteps', label: 'Next steps (one per line)', multiline: true },
+    { key: 'closing', label: 'Closing', multiline: true },
+  ],
+};
+
+// Stand-ins for the placeholders in previews and test emails
+export const EMAIL_PREVIEW_VALUES = {
+  artist_name: 'Jane Doe',
+  track_title: 'Midnight Signal',
+};
+
+/**
+ * Built-in copy of an email in a language, English for the fields it has no translation of
+ */
+export function getDefaultEmailCopy<T extends EmailTemplateType>(type: T, locale: EmailLocale): EmailCopy<T> {
+  const translation = locale === 'en' ? undefined : EMAIL_TRANSLATIONS[locale][type];
+  return { ...EMAIL_CONFIG[type], ...translation } as EmailCopy<T>;
+}
+
+/**
+ * The owner's edits that apply to an email in a language: the edits for that language and,
+ * for the fields it has none for, the edits to the English email
+ */
+export function withEnglishOverrides<T extends EmailTemplateType>(
+  locale: EmailLocale,
+  overrides: EmailCopyOverrides<T> | undefined,
+  englishOverrides: EmailCopyOverrides<T> | undefined
+): EmailCopyOverrides<T> | undefined {
+  return locale === DEFAULT_EMAIL_LOCALE ? overrides : ({ ...englishOverrides, ...overrides } as EmailCopyOverrides<T>);
+}
+
+/**
+ * Copy of an email in a language before the owner's edits for that language: the built-in
+ * copy with the owner's edits to the English email on top
+ */
+export function getBaseEmailCopy<T extends EmailTemplateType>(
+  type: T,
+  locale: EmailLocale,
+  englishOverrides: EmailCopyOverrides<T> | undefined
+): EmailCopy<T> {
+  return { ...getDefaultEmailCopy(type, locale), ...withEnglishOverrides(locale, undefined, englishOverrides) } as EmailCopy<T>;
+}
+
+/**
+ * Replace {{placeholder}} with its value; unknown placeholders are left as they are
+ */
+export function fillPlaceholders(text: string, values: Record<string, string>): string {
+  return text.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) =>
+    Object.prototype.hasOwnProperty.call(values, name) ? values[name] : match
+  );
+}
+
+type ResolvedCopy<T extends EmailTemplateType> = {
+  html: Record<keyof EmailCopy<T>, SafeHtml>;
+  text: Record<keyof EmailCopy<T>, string>;
+};
+
+/**
+ * Copy of an email in a language with the overrides (the owner's edits for that language)
+ * applied, as HTML and as plain text
+ * The markup is sanitized before the placeholders are filled in, and in the HTML the
+ * artist and track names are escaped, so submitted names can never add markup
+ */
+function resolveCopy<T extends EmailTemplateType>(
+  type: T,
+  overrides: EmailCopyOverrides<T> | undefined,
+  artistName: string,
+  trackTitle: string,
+  locale: EmailLocale
+): ResolvedCopy<T> {
+  const values = { artist_name: artistName, track_title: trackTitle };
+  const escapedValues = { artist_name: escapeHtml(artistName), track_title: escapeHtml(trackTitle) };
+  const copy = { ...getDefaultEmailCopy(type, locale) } as Record<string, string>;
+  for (const [key, value] of Object.entries(overrides || {})) {
+    if (key in copy && typeof value === 'string' && value.trim()) {
+      copy[key] = value;
+    }
+  }
+
+  const resolved = { html: {}, text: {} } as { html: Record<string, SafeHtml>; text: Record<string, string> };
+  for (const key of Object.keys(copy)) {
+    // Line by line, so lines can be split apart (the approved next steps) without breaking tags
+    const sanitized = copy[key].split('\n').map(line => sanitizeCopy(line).toString()).join('\n');
+    resolved.html[key] = trusted(fillPlaceholders(sanitized, escapedValues));
+    resolved.text[key] = fillPlaceholders(copyToText(copy[key]), values);
+  }
+  return resolved as ResolvedCopy<T>;
+}
+
+export interface EmailTemplate {
   subject: string;
   htmlBody: string;
   textBody: string;
 }
 
 /**
- * Generate email for when a demo is liked/forwarded for review
+ * Fixed wording of the emails in a language, with the label's name filled in
  */
-export function getDemoLikedEmail(
-  artistName: string,
-  trackTitle: string,
-  demoId: string
-): EmailTemplate {
-  const config = EMAIL_CONFIG.liked;
+function getLabels(locale: EmailLocale): EmailLabels {
+  const labels = { ...EMAIL_LABELS[locale] };
+  labels.team = fillPlaceholders(labels.team, { label_name: EMAIL_CONFIG.labelName });
+  return labels;
+}
+
+/**
+ * Layout shared by all emails around the content
+ */
+function renderLayout(content: SafeHtml, locale: EmailLocale): string {
   const labelName = EMAIL_CONFIG.labelName;
-  
-  const subject = config.subject(trackTitle);
-  
-  const htmlBody = `
-    <html>
-    <head><style>${commonStyles}</style></head>
+  return html`
+    <html lang="${locale}">
+    <head><style>${trusted(commonStyles)}</style></head>
     <body>
       <div class="header">
         <h1>${labelName}</h1>
       </div>
       <div class="content">
-        <h2>${config.heading}</h2>
-        <p>${config.intro(artistName, trackTitle)}</p>
-        <div class="track-info">
-          <h3>📀 Track Details</h3>
-          <p><strong>Artist:</strong> ${artistName}</p>
-          <p><strong>Track:</strong> ${trackTitle}</p>
-        </div>
-        <p>${config.body}</p>
-        <div class="highlight highlight-info">
-          <h3>📋 What Happens Next?</h3>
-          <p>${config.nextSteps}</p>
-        </div>
-        <p>${config.closing}</p>
-        <p>Best regards,<br><strong>${labelName} Team</strong></p>
+        ${content}
       </div>
       <div class="footer">
-        <p>&copy; ${new Date().getFullYear()} ${labelName}. All rights reserved.</p>
+        <p>&copy; ${new Date().getFullYear()} ${labelName}. ${EMAIL_LABELS[locale].allRightsReserved}</p>
       </div>
     </body>
     </html>
-  `;
+  `.toString();
+}
+
+function trackDetails(artistName: string, trackTitle: string, labels: EmailLabels): SafeHtml {
+  return html`
+        <div class="track-info">
+          <h3>📀 ${labels.trackDetails}</h3>
+          <p><strong>${labels.artist}:</strong> ${artistName}</p>
+          <p><strong>${labels.track}:</strong> ${trackTitle}</p>
+        </div>`;
+}
+
+/**
+ * Generate email for when a demo is liked/forwarded for review
+ */
+export function getDemoLikedEmail(
+  artistName: string,
+  trackTitle: string,
+  demoId: string,
+  overrides?: EmailCopyOverrides<'liked'>,
+  locale: EmailLocale = DEFAULT_EMAIL_LOCALE
+): EmailTemplate {
+  const config = resolveCopy('liked', overrides, artistName, trackTitle, locale);
+  const labels = getLabels(locale);
+  const labelName = EMAIL_CONFIG.labelName;
+  
+  const subject = config.text.subject;
+  
+  const htmlBody = renderLayout(html`
+        <h2>${config.html.heading}</h2>
+        <p>${config.html.intro}</p>
+        ${trackDetails(artistName, trackTitle, labels)}
+        <p>${config.html.body}</p>
+        <div class="highlight highlight-info">
+          <h3>📋 ${labels.whatHappensNext}</h3>
+          <p>${config.html.nextSteps}</p>
+        </div>
+        <p>${config.html.closing}</p>
+        <p>${labels.bestRegards}<br><strong>${labels.team}</strong></p>
+  `, locale);
 
   const textBody = `
 ${labelName}
 
-${config.heading}
+${config.text.heading}
 
-${config.intro(artistName, trackTitle).replace(/<[^>]*>/g, '')}
+${config.text.intro}
 
-Track Details:
-• Artist: ${artistName}
-• Track: ${trackTitle}
+${labels.trackDetails}:
+• ${labels.artist}: ${artistName}
+• ${labels.track}: ${trackTitle}
 
-${config.body}
+${config.text.body}
 
-What Happens Next?
-${config.nextSteps}
+${labels.whatHappensNext}
+${config.text.nextSteps}
 
-${config.closing.replace(/<[^>]*>/g, '').replace(/<br\s*\/?>/gi, '\n')}
+${config.text.closing}
 
-Best regards,
-${labelName} Team
+${labels.bestRegards}
+${labels.team}
 
-© ${new Date().getFullYear()} ${labelName}. All rights reserved.
+© ${new Date().getFullYear()} ${labelName}. ${labels.allRightsReserved}
   `.trim();
 
   return { subject, htmlBody, textBody };
@@ -143,68 +327,54 @@ ${labelName} Team
 export function getDemoRejectedEmail(
   artistName: string,
   trackTitle: string,
-  demoId: string
+  demoId: string,
+  overrides?: EmailCopyOverrides<'rejected'>,
+  locale: EmailLocale = DEFAULT_EMAIL_LOCALE
 ): EmailTemplate {
-  const config = EMAIL_CONFIG.rejected;
+  const config = resolveCopy('rejected', overrides, artistName, trackTitle, locale);
+  const labels = getLabels(locale);
   const labelName = EMAIL_CONFIG.labelName;
   
-  const subject = config.subject(trackTitle);
+  const subject = config.text.subject;
   
-  const htmlBody = `
-    <html>
-    <head><style>${commonStyles}</style></head>
-    <body>
-      <div class="header">
-        <h1>${labelName}</h1>
-      </div>
-      <div class="content">
-        <h2>${config.heading}</h2>
-        <p>${config.intro(artistName, trackTitle)}</p>
-        <div class="track-info">
-          <h3>📀 Track Details</h3>
-          <p><strong>Artist:</strong> ${artistName}</p>
-          <p><strong>Track:</strong> ${trackTitle}</p>
-        </div>
-        <p>${config.body}</p>
+  const htmlBody = renderLayout(html`
+        <h2>${config.html.heading}</h2>
+        <p>${config.html.intro}</p>
+        ${trackDetails(artistName, trackTitle, labels)}
+        <p>${config.html.body}</p>
         <div class="highlight highlight-warning">
-          <h3>💪 Keep Going!</h3>
-          <p>${config.encouragement}</p>
+          <h3>💪 ${labels.keepGoing}</h3>
+          <p>${config.html.encouragement}</p>
         </div>
-        <p>${config.invitation}</p>
-        <p>${config.closing}</p>
-        <p>Warm regards,<br><strong>${labelName} Team</strong></p>
-      </div>
-      <div class="footer">
-        <p>&copy; ${new Date().getFullYear()} ${labelName}. All rights reserved.</p>
-      </div>
-    </body>
-    </html>
-  `;
+        <p>${config.html.invitation}</p>
+        <p>${config.html.closing}</p>
+        <p>${labels.warmRegards}<br><strong>${labels.team}</strong></p>
+  `, locale);
 
   const textBody = `
 ${labelName}
 
-${config.heading}
+${config.text.heading}
 
-${config.intro(artistName, trackTitle).replace(/<[^>]*>/g, '')}
+${config.text.intro}
 
-Track Details:
-• Artist: ${artistName}
-• Track: ${trackTitle}
+${labels.trackDetails}:
+• ${labels.artist}: ${artistName}
+• ${labels.track}: ${trackTitle}
 
-${config.body}
+${config.text.body}
 
-Keep Going!
-${config.encouragement}
+${labels.keepGoing}
+${config.text.encouragement}
 
-${config.invitation}
+${config.text.invitation}
 
-${config.closing}
+${config.text.closing}
 
-Warm regards,
-${labelName} Team
+${labels.warmRegards}
+${labels.team}
 
-© ${new Date().getFullYear()} ${labelName}. All rights reserved.
+© ${new Date().getFullYear()} ${labelName}. ${labels.allRightsReserved}
   `.trim();
 
   return { subject, htmlBody, textBody };
@@ -216,72 +386,94 @@ ${labelName} Team
 export function getDemoApprovedEmail(
   artistName: string,
   trackTitle: string,
-  demoId: string
+  demoId: string,
+  overrides?: EmailCopyOverrides<'approved'>,
+  details?: ApprovalDetails,
+  locale: EmailLocale = DEFAULT_EMAIL_LOCALE
 ): EmailTemplate {
-  const config = EMAIL_CONFIG.approved;
+  const config = resolveCopy('approved', overrides, artistName, trackTitle, locale);
+  const labels = getLabels(locale);
   const labelName = EMAIL_CONFIG.labelName;
   
-  const subject = config.subject(artistName);
+  const subject = config.text.subject;
   
-  const nextStepsHtml = config.nextSteps.map(step => `<li>${step}</li>`).join('\n');
-  const nextStepsText = config.nextSteps.map(step => `• ${step}`).join('\n');
+  const personalMessage = details?.personal_message?.trim() || '';
+  // Release window and contact person come first, before the standard next steps
+  const detailSteps = [
+    details?.release_window?.trim() ? `${labels.releaseWindow}: ${details.release_window.trim()}` : '',
+    details?.contact_person?.trim() ? `${labels.contactPerson}: ${details.contact_person.trim()}` : '',
+  ].filter(Boolean);
+  const stepsHtml = config.html.nextSteps.toString().split('\n').map(step => step.trim()).filter(Boolean).map(trusted);
+  const stepsText = config.text.nextSteps.split('\n').map(step => step.trim()).filter(Boolean);
+  const nextStepsHtml = [...detailSteps, ...stepsHtml].map(step => html`<li>${step}</li>`);
+  const nextStepsText = [...detailSteps, ...stepsText].map(step => `• ${step}`).join('\n');
+  const personalMessageHtml = personalMessage
+    ? html`<div class="highlight highlight-info"><p>${personalMessage.split('\n').map((line, index) => index > 0 ? html`<br>${line}` : line)}</p></div>`
+    : '';
+  const personalMessageText = personalMessage ? `${personalMessage}\n\n` : '';
   
-  const htmlBody = `
-    <html>
-    <head><style>${commonStyles}</style></head>
-    <body>
-      <div class="header">
-        <h1>${labelName}</h1>
-      </div>
-      <div class="content">
-        <h2>${config.heading(trackTitle)}</h2>
-        <p>${config.intro(artistName, trackTitle)}</p>
-        <div class="track-info">
-          <h3>📀 Track Details</h3>
-          <p><strong>Artist:</strong> ${artistName}</p>
-          <p><strong>Track:</strong> ${trackTitle}</p>
-        </div>
-        <p>${config.body}</p>
+  const htmlBody = renderLayout(html`
+        <h2>${config.html.heading}</h2>
+        <p>${config.html.intro}</p>
+        ${personalMessageHtml}
+        ${trackDetails(artistName, trackTitle, labels)}
+        <p>${config.html.body}</p>
         <div class="highlight highlight-success">
-          <h3>📋 Next Steps</h3>
+          <h3>📋 ${labels.nextSteps}</h3>
           <ul>
             ${nextStepsHtml}
           </ul>
         </div>
-        <p>${config.closing}</p>
-        <p>Best regards,<br><strong>${labelName} Team</strong></p>
-      </div>
-      <div class="footer">
-        <p>&copy; ${new Date().getFullYear()} ${labelName}. All rights reserved.</p>
-      </div>
-    </body>
-    </html>
-  `;
+        <p>${config.html.closing}</p>
+        <p>${labels.bestRegards}<br><strong>${labels.team}</strong></p>
+  `, locale);
 
   const textBody = `
 ${labelName}
 
-${config.heading(trackTitle)}
+${config.text.heading}
 
-${config.intro(artistName, trackTitle).replace(/<[^>]*>/g, '')}
+${config.text.intro}
 
-Track Details:
-• Artist: ${artistName}
-• Track: ${trackTitle}
+${personalMessageText}${labels.trackDetails}:
+• ${labels.artist}: ${artistName}
+• ${labels.track}: ${trackTitle}
 
-${config.body}
+${config.text.body}
 
-Next Steps:
+${labels.nextSteps}:
 ${nextStepsText}
 
-${config.closing}
+${config.text.closing}
 
-Best regards,
-${labelName} Team
+${labels.bestRegards}
+${labels.team}
 
-© ${new Date().getFullYear()} ${labelName}. All rights reserved.
+© ${new Date().getFullYear()} ${labelName}. ${labels.allRightsReserved}
   `.trim();
 
   return { subject, htmlBody, textBody };
 }
 
+/**
+ * Generate the email of any type, e.g. for the notification of a workflow transition
+ * overrides are the owner's edits for that locale; details only apply to the approved email
+ */
+export function renderEmailTemplate(
+  type: EmailTemplateType,
+  artistName: string,
+  trackTitle: string,
+  demoId: string,
+  overrides?: EmailCopyOverrides,
+  details?: ApprovalDetails,
+  locale: EmailLocale = DEFAULT_EMAIL_LOCALE
+): EmailTemplate {
+  switch (type) {
+    case 'liked':
+      return getDemoLikedEmail(artistName, trackTitle, demoId, overrides as EmailCopyOverrides<'liked'>, locale);
+    case 'rejected':
+      return getDemoRejectedEmail(artistName, trackTitle, demoId, overrides as EmailCopyOverrides<'rejected'>, locale);
+    case 'approved':
+      return getDemoApprovedEmail(artistName, trackTitle, demoId, overrides as EmailCopyOverrides<'approved'>, details, locale);
+  }
+}
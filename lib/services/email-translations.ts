@@ -0,0 +1,209 @@
+import type { EmailCopy, EmailTemplateType } from './email-templates';
+
+/**
+ * Languages artist emails can be sent in
+ * English is the default and the fallback: EMAIL_CONFIG holds its copy, and any field a
+ * translation leaves out is taken from there
+ */
+export const EMAIL_LOCALES = ['en', 'de', 'fr', 'es'] as const;
+
+export type EmailLocale = (typeof EMAIL_LOCALES)[number];
+
+export const DEFAULT_EMAIL_LOCALE: EmailLocale = 'en';
+
+// Names of the languages in themselves, for the dashboard
+export const EMAIL_LOCALE_NAMES: Record<EmailLocale, string> = {
+  en: 'English',
+  de: 'Deutsch',
+  fr: 'Français',
+  es: 'Español',
+};
+
+export function isEmailLocale(value: unknown): value is EmailLocale {
+  return typeof value === 'string' && (EMAIL_LOCALES as readonly string[]).includes(value);
+}
+
+/**
+ * Email language for a locale as submitted, e.g. "de-AT" or "FR" ("de" and "fr")
+ * Anything not supported falls back to English
+ */
+export function resolveEmailLocale(value: string | null | undefined): EmailLocale {
+  const language = (value || '').trim().toLowerCase().split(/[-_]/)[0];
+  return isEmailLocale(language) ? language : DEFAULT_EMAIL_LOCALE;
+}
+
+/**
+ * Fixed wording around the editable copy: section headings, sign-offs and the footer
+ * {{label_name}} is replaced with the label's name
+ */
+export interface EmailLabels {
+  trackDetails: string;
+  artist: string;
+  track: string;
+  whatHappensNext: string;
+  keepGoing: string;
+  nextSteps: string;
+  bestRegards: string;
+  warmRegards: string;
+  team: string;
+  allRightsReserved: string;
+  releaseWindow: string;
+  contactPerson: string;
+}
+
+export const EMAIL_LABELS: Record<EmailLocale, EmailLabels> = {
+  en: {
+    trackDetails: 'Track Details',
+    artist: 'Artist',
+    track: 'Track',
+    whatHappensNext: 'What Happens Next?',
+    keepGoing: 'Keep Going!',
+    nextSteps: 'Next Steps',
+    bestRegards: 'Best regards,',
+    warmRegards: 'Warm regards,',
+    team: '{{label_name}} Team',
+    allRightsReserved: 'All rights reserved.',
+    releaseWindow: 'Planned release window',
+    contactPerson: 'Your contact at the label',
+  },
+  de: {
+    trackDetails: 'Track-Details',
+    artist: 'Artist',
+    track: 'Track',
+    whatHappensNext: 'Wie geht es weiter?',
+    keepGoing: 'Bleib dran!',
+    nextSteps: 'Nächste Schritte',
+    bestRegards: 'Viele Grüße,',
+    warmRegards: 'Herzliche Grüße,',
+    team: 'Dein {{label_name}} Team',
+    allRightsReserved: 'Alle Rechte vorbehalten.',
+    releaseWindow: 'Geplanter Release-Zeitraum',
+    contactPerson: 'Deine Ansprechperson beim Label',
+  },
+  fr: {
+    trackDetails: 'Détails du morceau',
+    artist: 'Artiste',
+    track: 'Morceau',
+    whatHappensNext: 'Et maintenant ?',
+    keepGoing: 'Continuez !',
+    nextSteps: 'Prochaines étapes',
+    bestRegards: 'Bien cordialement,',
+    warmRegards: 'Chaleureusement,',
+    team: "L'équipe {{label_name}}",
+    allRightsReserved: 'Tous droits réservés.',
+    releaseWindow: 'Période de sortie prévue',
+    contactPerson: 'Votre contact au label',
+  },
+  es: {
+    trackDetails: 'Detalles del tema',
+    artist: 'Artista',
+    track: 'Tema',
+    whatHappensNext: '¿Qué pasa ahora?',
+    keepGoing: '¡Sigue adelante!',
+    nextSteps: 'Próximos pasos',
+    bestRegards: 'Saludos,',
+    warmRegards: 'Un cordial saludo,',
+    team: 'El equipo de {{label_name}}',
+    allRightsReserved: 'Todos los derechos reservados.',
+    releaseWindow: 'Periodo de lanzamiento previsto',
+    contactPerson: 'Tu contacto en el sello',
+  },
+};
+
+type EmailTranslation = { [T in EmailTemplateType]?: Partial<EmailCopy<T>> };
+
+/**
+ * Built-in copy of each email in the other languages, same fields and placeholders as EMAIL_CONFIG
+ */
+export const EMAIL_TRANSLATIONS: Record<Exclude<EmailLocale, 'en'>, EmailTranslation> = {
+  de: {
+    liked: {
+      subject: 'Hold! Dein Demo hat unsere Aufmerksamkeit geweckt - {{track_title}}',
+      heading: '🎵 Hold! Dein Demo hat unsere Aufmerksamkeit geweckt!',
+      intro: 'Hallo {{artist_name}}, wir möchten dich wissen lassen, dass dein Demo „<strong>{{track_title}}</strong>“ die Aufmerksamkeit unseres A&R-Teams geweckt hat.',
+      body: 'Dein Track wurde zur weiteren Prüfung weitergeleitet. Er ist also unter den vielen Einsendungen, die wir bekommen, positiv aufgefallen. Ein spannender Schritt in unserem Auswahlprozess!',
+      nextSteps: 'Unser Team sieht sich deine Einsendung gerade genauer an. Wenn dein Track zu unserem kommenden Release-Plan und unserer Ausrichtung passt, melden wir uns mit den nächsten Schritten bei dir.',
+      closing: 'BITTE HALTE DEN TRACK ZURÜCK, BIS DU VON UNS HÖRST<br><br>Mach weiter so großartige Musik!',
+    },
+    rejected: {
+      subject: 'Update zu deinem Demo - {{track_title}}',
+      heading: 'Danke für deine Einsendung',
+      intro: 'Hallo {{artist_name}}, vielen Dank, dass du dein Demo „<strong>{{track_title}}</strong>“ mit uns geteilt hast.',
+      body: 'Nach sorgfältiger Überlegung haben wir entschieden, dass dieser Track nicht ganz zu unseren aktuellen Release-Plänen passt. Die Entscheidung spiegelt unseren momentanen Fokus wider und ist kein Urteil über dein Talent oder die Qualität deiner Musik.',
+      encouragement: 'Wir schätzen es sehr, wenn Artists sich die Zeit nehmen, ihre Musik mit uns zu teilen. Die Musikbranche ist voller Erfolgsgeschichten, die mit Ausdauer und stetiger Weiterentwicklung begonnen haben.',
+      invitation: 'Wir möchten dich ermutigen, deinen Sound weiterzuentwickeln und uns in Zukunft wieder Musik zu schicken. Unser Geschmack und unsere Pläne ändern sich, und was heute nicht passt, kann morgen genau richtig sein.',
+      closing: 'Wir wünschen dir alles Gute auf deinem musikalischen Weg.',
+    },
+    approved: {
+      heading: 'Dein Demo {{track_title}} wurde ausgewählt!',
+      intro: 'Hallo {{artist_name}}, wir freuen uns sehr, dir mitteilen zu können, dass dein Demo „<strong>{{track_title}}</strong>“ offiziell von unserem Label ausgewählt wurde!',
+      body: 'Das ist ein wichtiger Meilenstein, und wir freuen uns auf die Möglichkeit einer Zusammenarbeit. Dein Track hat unser Team überzeugt, und wir glauben, dass er eine großartige Ergänzung für unseren Katalog sein kann.',
+      nextSteps: [
+        'Jemand aus unserem Team meldet sich in Kürze per E-Mail bei dir',
+        'Wir besprechen mögliche Release-Pläne und die Details der Zusammenarbeit',
+        'Bitte behalte dein Postfach für unsere nächste Nachricht im Auge',
+      ].join('\n'),
+      closing: 'Willkommen in der Collecting Dots Familie!',
+    },
+  },
+  fr: {
+    liked: {
+      subject: 'Hold ! Votre démo a retenu notre attention - {{track_title}}',
+      heading: '🎵 Hold ! Votre démo a retenu notre attention !',
+      intro: 'Bonjour {{artist_name}}, nous tenions à vous informer que votre démo « <strong>{{track_title}}</strong> » a retenu l\'attention de notre équipe A&R.',
+      body: 'Votre morceau a été transmis pour un examen approfondi, ce qui signifie qu\'il s\'est démarqué parmi les nombreuses propositions que nous recevons. C\'est une étape importante de notre processus de sélection !',
+      nextSteps: 'Notre équipe étudie actuellement votre proposition plus en détail. Si votre morceau correspond à notre calendrier de sorties et à notre vision, nous reviendrons vers vous avec les prochaines étapes.',
+      closing: 'EN ATTENDANT NOTRE RÉPONSE, MERCI DE GARDER CE MORCEAU EN RÉSERVE<br><br>Continuez à créer de la musique incroyable !',
+    },
+    rejected: {
+      subject: 'Retour sur votre démo - {{track_title}}',
+      heading: 'Merci pour votre envoi',
+      intro: 'Bonjour {{artist_name}}, merci de nous avoir fait découvrir votre démo « <strong>{{track_title}}</strong> ».',
+      body: 'Après mûre réflexion, nous avons décidé que ce morceau ne correspond pas tout à fait à nos projets de sorties actuels. Cette décision reflète nos priorités du moment et ne constitue en aucun cas un jugement sur votre talent ou la qualité de votre musique.',
+      encouragement: 'Nous apprécions sincèrement que des artistes prennent le temps de partager leur travail avec nous. L\'industrie musicale regorge de réussites qui ont commencé par de la persévérance et une progression constante.',
+      invitation: 'Nous vous encourageons à continuer à développer votre son et à nous proposer de nouveaux morceaux à l\'avenir. Nos goûts et nos besoins évoluent, et ce qui ne convient pas aujourd\'hui pourrait être parfait demain.',
+      closing: 'Nous vous souhaitons le meilleur pour la suite de votre parcours musical.',
+    },
+    approved: {
+      heading: 'Votre démo {{track_title}} a été sélectionnée !',
+      intro: 'Bonjour {{artist_name}}, nous sommes ravis de vous annoncer que votre démo « <strong>{{track_title}}</strong> » a été officiellement sélectionnée par notre label !',
+      body: 'C\'est une étape importante, et nous sommes impatients à l\'idée de travailler ensemble. Votre morceau a séduit notre équipe et nous pensons qu\'il pourrait enrichir notre catalogue.',
+      nextSteps: [
+        'Un membre de notre équipe vous contactera prochainement par e-mail',
+        'Nous discuterons des projets de sortie et des modalités de notre collaboration',
+        'Surveillez votre boîte de réception pour notre prochain message',
+      ].join('\n'),
+      closing: 'Bienvenue dans la famille Collecting Dots !',
+    },
+  },
+  es: {
+    liked: {
+      subject: '¡Hold! Tu demo ha llamado nuestra atención - {{track_title}}',
+      heading: '🎵 ¡Hold! ¡Tu demo ha llamado nuestra atención!',
+      intro: 'Hola {{artist_name}}, queríamos contarte que tu demo «<strong>{{track_title}}</strong>» ha llamado la atención de nuestro equipo de A&R.',
+      body: 'Tu tema ha pasado a una revisión más detallada, lo que significa que ha destacado entre las muchas propuestas que recibimos. ¡Es un paso emocionante en nuestro proceso de selección!',
+      nextSteps: 'Nuestro equipo está evaluando tu propuesta con más detalle. Si tu tema encaja con nuestro próximo calendario de lanzamientos y con nuestra visión, nos pondremos en contacto contigo con los siguientes pasos.',
+      closing: 'MIENTRAS ESPERAS NUESTRA RESPUESTA, POR FAVOR MANTÉN EL TEMA EN RESERVA<br><br>¡Sigue creando música increíble!',
+    },
+    rejected: {
+      subject: 'Novedades sobre tu demo - {{track_title}}',
+      heading: 'Gracias por tu envío',
+      intro: 'Hola {{artist_name}}, gracias por compartir con nosotros tu demo «<strong>{{track_title}}</strong>».',
+      body: 'Después de considerarlo con calma, hemos decidido que este tema no encaja del todo en nuestros planes de lanzamiento actuales. Esta decisión refleja nuestro enfoque en este momento y no es un juicio sobre tu talento ni sobre la calidad de tu música.',
+      encouragement: 'Valoramos de verdad que los artistas se tomen el tiempo de compartir su trabajo con nosotros. La industria musical está llena de historias de éxito que empezaron con constancia y crecimiento continuo.',
+      invitation: 'Te animamos a seguir desarrollando tu sonido y a enviarnos nuevas propuestas en el futuro. Nuestros gustos y necesidades cambian, y lo que hoy no encaja podría ser perfecto mañana.',
+      closing: 'Te deseamos lo mejor en tu camino musical.',
+    },
+    approved: {
+      heading: '¡Tu demo {{track_title}} ha sido seleccionada!',
+      intro: 'Hola {{artist_name}}, nos alegra muchísimo comunicarte que tu demo «<strong>{{track_title}}</strong>» ha sido seleccionada oficialmente por nuestro sello.',
+      body: 'Es un hito importante y nos entusiasma la posibilidad de trabajar juntos. Tu tema ha conectado con nuestro equipo y creemos que puede ser una gran incorporación a nuestro catálogo.',
+      nextSteps: [
+        'Un miembro de nuestro equipo se pondrá en contacto contigo por correo electrónico en breve',
+        'Hablaremos de los posibles planes de lanzamiento y de los detalles de la colaboración',
+        'Revisa tu bandeja de entrada para no perderte nuestro próximo mensaje',
+      ].join('\n'),
+      closing: '¡Te damos la bienvenida a la familia Collecting Dots!',
+    },
+  },
+};
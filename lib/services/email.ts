@@ -1,250 +1,193 @@
 import {
-  getDemoLikedEmail,
-  getDemoRejectedEmail,
-  getDemoApprovedEmail,
+  DEFAULT_EMAIL_LOCALE,
+  EMAIL_PREVIEW_VALUES,
+  renderEmailTemplate,
+  withEnglishOverrides,
+  type ApprovalDetails,
+  type EmailCopyOverrides,
+  type EmailLocale,
+  type EmailTemplate,
+  type EmailTemplateType,
 } from './email-templates';
+import { getEmailTemplateOverride, getEnglishOverrideFields } from './email-template-service';
+import { randomUUID } from 'crypto';
+import { buildMimeMessage, getEmailTransport, type EmailTransport } from '@/lib/email-transport';
+import type { NotificationType } from '@/lib/demo-workflow';
+
+export interface SendEmailOptions {
+  replyTo?: string | null;
+  // Message-ID to use (without angle brackets), a random one otherwise
+  messageId?: string;
+  // Earlier messages of the conversation, oldest first; the last one is the In-Reply-To
+  references?: string[];
+  // Provider thread to add the message to (Gmail thread id)
+  threadId?: string | null;
+}
+
+export interface DeliveredEmail {
+  transport: EmailTransport['name'];
+  messageId: string;
+  // Provider's ids for the message and its conversation (Gmail message and thread ids)
+  providerMessageId: string;
+  providerThreadId: string | null;
+}
 
 /**
- * Email Service for sending demo review notifications via Gmail API
- * Uses OAuth 2.0 with automatic token refresh
+ * Email Service for sending demo review notifications
+ * Builds the messages; delivery goes through the configured transport (Gmail API, SMTP
+ * or .eml files, see lib/email-transport)
  */
 export class EmailService {
   private senderEmail: string;
   private labelName: string;
-  private clientId: string;
-  private clientSecret: string;
-  private refreshToken: string;
-  private accessToken: string | null;
+  private replyTo: string | null;
+  private transport: EmailTransport;
 
-  constructor() {
+  constructor(transport: EmailTransport = getEmailTransport()) {
     this.senderEmail = 'demos@collectingdots.com';
     this.labelName = 'Collecting Dots Records';
-    this.clientId = process.env.GMAIL_CLIENT_ID || '';
-    this.clientSecret = process.env.GMAIL_CLIENT_SECRET || '';
-    this.refreshToken = process.env.GMAIL_REFRESH_TOKEN || '';
-    this.accessToken = process.env.GMAIL_ACCESS_TOKEN || null;
+    this.replyTo = process.env.EMAIL_REPLY_TO || null;
+    this.transport = transport;
+  }
 
-    if (!this.clientId || !this.clientSecret || !this.refreshToken) {
-      console.warn('Gmail API credentials not fully configured in environment variables');
-    }
+  private get domain(): string {
+    return this.senderEmail.split('@')[1];
   }
 
   /**
    * Check if email service is properly configured
    */
   public isConfigured(): boolean {
-    return !!(this.clientId && this.clientSecret && this.refreshToken);
+    return this.transport.isConfigured();
   }
 
   /**
-   * Get a valid access token, refreshing if necessary
+   * Reply-To for a demo's notifications, from EMAIL_REPLY_TO; {demo_id} in it is replaced,
+   * e.g. demos+{demo_id}@collectingdots.com to tell replies apart per demo
+   * Null when not set, replies then go to the sender address
    */
-  private async getAccessToken(): Promise<string> {
-    // If we have an access token, try to use it first
-    if (this.accessToken) {
-      return this.accessToken;
-    }
-
-    // Refresh the token
-    try {
-      const response = await fetch('https://oauth2.googleapis.com/token', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          client_id: this.clientId,
-          client_secret: this.clientSecret,
-          refresh_token: this.refreshToken,
-          grant_type: 'refresh_token',
-        }),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(`Token refresh failed: ${JSON.stringify(errorData)}`);
-      }
-
-      const data = await response.json();
-      this.accessToken = data.access_token;
+  public getReplyTo(demoId: string): string | null {
+    return this.replyTo ? this.replyTo.replace('{demo_id}', messageIdPart(demoId)) : null;
+  }
 
-      if (!this.accessToken) {
-        throw new Error('Failed to obtain access token');
-      }
+  /**
+   * Message-ID every notification of a demo refers to, so mail clients show them as one conversation
+   * No message is sent with it; it only appears in the References header
+   */
+  public getDemoThreadId(demoId: string): string {
+    return `demo-${messageIdPart(demoId)}@${this.domain}`;
+  }
 
-      return this.accessToken;
-    } catch (error) {
-      console.error('Failed to refresh access token:', error);
-      throw error;
-    }
+  /**
+   * Stable Message-ID of a demo's notification, so a retry of a message that did arrive
+   * is recognised as the same message; every resend gets its own
+   */
+  public getDemoMessageId(demoId: string, notification: NotificationType, resendCount = 0): string {
+    const resend = resendCount > 0 ? `.resend-${resendCount}` : '';
+    return `demo-${messageIdPart(demoId)}.${notification}${resend}@${this.domain}`;
   }
 
   /**
-   * Send email via Gmail API
+   * Send an email through the configured transport
+   * Returns the message's ids; throws with the reason when the email could not be sent
    */
-  private async sendEmailViaGmailAPI(
+  public async sendEmail(
     to: string,
     subject: string,
     htmlBody: string,
-    textBody?: string
-  ): Promise<boolean> {
+    textBody?: string,
+    options: SendEmailOptions = {}
+  ): Promise<DeliveredEmail> {
     if (!this.isConfigured()) {
-      console.error('Email service is not configured');
-      return false;
+      throw new Error('Email service not configured');
     }
 
-    try {
-      // Get valid access token
-      let accessToken = await this.getAccessToken();
-
-      // Build MIME message
-      const message = [
-        'Content-Type: multipart/alternative; boundary="boundary"',
-        'MIME-Version: 1.0',
-        `To: ${to}`,
-        `From: ${this.labelName} <${this.senderEmail}>`,
-        `Subject: ${subject}`,
-        '',
-        '--boundary',
-        'Content-Type: text/plain; charset="UTF-8"',
-        '',
-        textBody || 'Please view this email in HTML format',
-        '',
-        '--boundary',
-        'Content-Type: text/html; charset="UTF-8"',
-        '',
-        htmlBody,
-        '',
-        '--boundary--',
-      ].join('\r\n');
-
-      // Base64 encode the message (URL-safe)
-      const encodedMessage = Buffer.from(message)
-        .toString('base64')
-        .replace(/\+/g, '-')
-        .replace(/\//g, '_')
-        .replace(/=+$/, '');
-
-      // Send via Gmail API
-      const sendEmail = async (token: string): Promise<Response> => {
-        return await fetch('https://gmail.googleapis.com/gmail/v1/users/me/messages/send', {
-          method: 'POST',
-          headers: {
-            Authorization: `Bearer ${token}`,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            raw: encodedMessage,
-          }),
-        });
-      };
-
-      let response = await sendEmail(accessToken);
-
-      // If token expired, refresh and retry once
-      if (response.status === 401) {
-        console.log('Access token expired, refreshing...');
-        this.accessToken = null; // Clear expired token
-        accessToken = await this.getAccessToken();
-        response = await sendEmail(accessToken);
-      }
-
-      if (response.ok) {
-        const result = await response.json();
-        console.log('Email sent successfully:', result.id);
-        return true;
-      } else {
-        const errorData = await response.json();
-        console.error('Failed to send email:', errorData);
-        return false;
-      }
-    } catch (error) {
-      console.error('Error sending email:', error);
-      return false;
-    }
+    const messageId = options.messageId || `${randomUUID()}@${this.domain}`;
+
+    // Throws before anything is sent when an address is not safe to put in a header
+    const message = buildMimeMessage({
+      from: { name: this.labelName, address: this.senderEmail },
+      to: [{ address: to }],
+      replyTo: options.replyTo ? { address: options.replyTo } : null,
+      subject,
+      messageId,
+      references: options.references,
+      text: textBody || 'Please view this email in HTML format',
+      html: htmlBody,
+    });
+
+    const sent = await this.transport.send({
+      from: this.senderEmail,
+      to: [to],
+      messageId,
+      raw: message,
+      threadId: options.threadId,
+    });
+    console.log(`Email sent successfully via ${this.transport.name}:`, sent.id);
+    return {
+      transport: this.transport.name,
+      messageId,
+      providerMessageId: sent.id,
+      providerThreadId: sent.threadId,
+    };
   }
 
   /**
-   * Send notification when a demo is liked/forwarded for review
+   * Render the artist notification for a workflow transition (liked, rejected or approved)
+   * in the artist's language, with the owner's template edits for that language and, for
+   * approvals, the details from the compose step
    */
-  public async sendDemoLikedNotification(
-    artistEmail: string,
+  public async renderDemoNotification(
+    notification: NotificationType,
     artistName: string,
     trackTitle: string,
-    demoId: string
-  ): Promise<boolean> {
-    try {
-      const { subject, htmlBody, textBody } = getDemoLikedEmail(
-        artistName,
-        trackTitle,
-        demoId
-      );
-
-      return await this.sendEmailViaGmailAPI(
-        artistEmail,
-        subject,
-        htmlBody,
-        textBody
-      );
-    } catch (error) {
-      console.error('Failed to send demo liked notification:', error);
-      return false;
-    }
+    demoId: string,
+    approval?: ApprovalDetails | null,
+    locale: EmailLocale = DEFAULT_EMAIL_LOCALE
+  ): Promise<EmailTemplate> {
+    // The owner's edits from /dashboard/settings/emails, if any
+    const [override, englishOverrides] = await Promise.all([
+      getEmailTemplateOverride(notification, locale),
+      getEnglishOverrideFields(notification, locale),
+    ]);
+    return renderEmailTemplate(
+      notification,
+      artistName,
+      trackTitle,
+      demoId,
+      withEnglishOverrides(locale, override?.fields, englishOverrides),
+      approval || undefined,
+      locale
+    );
   }
 
   /**
-   * Send notification when a demo is rejected
+   * Send an email type with sample artist and track names, e.g. to try out template changes
+   * Returns the message's ids; throws when the email could not be sent
    */
-  public async sendDemoRejectedNotification(
-    artistEmail: string,
-    artistName: string,
-    trackTitle: string,
-    demoId: string
-  ): Promise<boolean> {
-    try {
-      const { subject, htmlBody, textBody } = getDemoRejectedEmail(
-        artistName,
-        trackTitle,
-        demoId
-      );
-
-      return await this.sendEmailViaGmailAPI(
-        artistEmail,
-        subject,
-        htmlBody,
-        textBody
-      );
-    } catch (error) {
-      console.error('Failed to send demo rejected notification:', error);
-      return false;
-    }
+  public async sendTemplateTest(
+    type: EmailTemplateType,
+    to: string,
+    overrides?: EmailCopyOverrides,
+    locale: EmailLocale = DEFAULT_EMAIL_LOCALE
+  ): Promise<DeliveredEmail> {
+    const { subject, htmlBody, textBody } = renderEmailTemplate(
+      type,
+      EMAIL_PREVIEW_VALUES.artist_name,
+      EMAIL_PREVIEW_VALUES.track_title,
+      'test',
+      overrides,
+      undefined,
+      locale
+    );
+
+    return this.sendEmail(to, `[Test] ${subject}`, htmlBody, textBody);
   }
+}
 
-  /**
-   * Send notification when a demo is finally approved/selected
-   */
-  public async sendDemoApprovedNotification(
-    artistEmail: string,
-    artistName: string,
-    trackTitle: string,
-    demoId: string
-  ): Promise<boolean> {
-    try {
-      const { subject, htmlBody, textBody } = getDemoApprovedEmail(
-        artistName,
-        trackTitle,
-        demoId
-      );
-
-      return await this.sendEmailViaGmailAPI(
-        artistEmail,
-        subject,
-        htmlBody,
-        textBody
-      );
-    } catch (error) {
-      console.error('Failed to send demo approved notification:', error);
-      return false;
-    }
-  }
+// Demo ids in Message-IDs and addresses: anything outside letters, digits and dashes becomes a dash
+function messageIdPart(value: string): string {
+  return value.replace(/[^A-Za-z0-9-]+/g, '-');
 }
 
 // Singleton instance for convenience
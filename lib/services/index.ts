@@ -9,7 +9,7 @@ export type * from './types'
 // Export services
 export { demoService, DemoService } from './demo-service'
 export { authService, AuthService } from './auth-service'
-export { EmailService, getEmailService } from './email'
+// EmailService is server-only (its transports use Node sockets and files), import it from './email'
 
 // Export email templates for customization
 export {
@@ -21,12 +21,19 @@ export {
 // Export demo-specific types for convenience
 export type {
   Demo,
+  DemoDetail,
   DemoStatus,
+  DemoHistoryEntry,
+  DemoEmail,
+  ApprovalCompose,
+  EmailDeliveryLogEntry,
+  DemoNote,
   DemoCreateRequest,
   DemoUpdateRequest,
   DemoFilterParams,
   DemoCounts,
   DashboardData,
+  DemoBatchActionResponse,
   DemosApiResponse
 } from './demo-service'
 
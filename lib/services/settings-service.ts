@@ -16,3 +16,80 @@ export async function setDemoSubmissionEnabled(enabled: boolean): Promise<boolea
   await redis.set(CACHE_KEYS.SETTINGS_DEMO_SUBMISSION_ENABLED, enabled)
   return enabled
 }
+
+export type EmailDeliveryMode = 'immediate' | 'delay' | 'daily'
+
+/**
+ * When artist notifications go out after an action
+ * immediate: right away; delay: delay_minutes later; daily: at daily_time in timezone
+ * Until then the email is pending and undoing the action cancels it
+ */
+export interface EmailDeliverySettings {
+  mode: EmailDeliveryMode
+  delay_minutes: number
+  daily_time: string // HH:MM
+  timezone: string // IANA time zone, e.g. Europe/Amsterdam
+}
+
+const DEFAULT_EMAIL_DELIVERY: EmailDeliverySettings = {
+  mode: 'delay',
+  delay_minutes: 10,
+  daily_time: '18:00',
+  timezone: 'UTC',
+}
+
+const MAX_DELAY_MINUTES = 24 * 60
+
+function isTimeZone(value: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value })
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Validate an email delivery settings payload, returns an error message when it is invalid
+ */
+export function parseEmailDeliverySettings(
+  value: unknown
+): { settings: EmailDeliverySettings } | { error: string } {
+  const body = value as Partial<EmailDeliverySettings> | null
+  if (!body || typeof body !== 'object') {
+    return { error: 'Invalid payload' }
+  }
+
+  if (!['immediate', 'delay', 'daily'].includes(body.mode as string)) {
+    return { error: '"mode" must be one of: immediate, delay, daily' }
+  }
+
+  const delayMinutes = body.delay_minutes ?? DEFAULT_EMAIL_DELIVERY.delay_minutes
+  if (!Number.isInteger(delayMinutes) || delayMinutes < 1 || delayMinutes > MAX_DELAY_MINUTES) {
+    return { error: `"delay_minutes" must be a whole number between 1 and ${MAX_DELAY_MINUTES}` }
+  }
+
+  const dailyTime = body.daily_time ?? DEFAULT_EMAIL_DELIVERY.daily_time
+  if (typeof dailyTime !== 'string' || !/^([01]\d|2[0-3]):[0-5]\d$/.test(dailyTime)) {
+    return { error: '"daily_time" must be a time like 18:00' }
+  }
+
+  const timezone = body.timezone ?? DEFAULT_EMAIL_DELIVERY.timezone
+  if (typeof timezone !== 'string' || !isTimeZone(timezone)) {
+    return { error: '"timezone" must be a time zone like Europe/Amsterdam' }
+  }
+
+  return {
+    settings: { mode: body.mode as EmailDeliveryMode, delay_minutes: delayMinutes, daily_time: dailyTime, timezone },
+  }
+}
+
+export async function getEmailDeliverySettings(): Promise<EmailDeliverySettings> {
+  const settings = await redis.get<EmailDeliverySettings | null>(CACHE_KEYS.SETTINGS_EMAIL_DELIVERY)
+  return { ...DEFAULT_EMAIL_DELIVERY, ...settings }
+}
+
+export async function setEmailDeliverySettings(settings: EmailDeliverySettings): Promise<EmailDeliverySettings> {
+  await redis.set(CACHE_KEYS.SETTINGS_EMAIL_DELIVERY, settings)
+  return settings
+}
@@ -0,0 +1,106 @@
+import { CACHE_KEYS, redis } from '@/lib/redis'
+import type { TeamRole } from '@/lib/roles'
+
+/**
+ * Team allowlist: the email addresses allowed into the dashboard and their roles
+ * Members are invited by email before they have a Clerk account; they are linked to
+ * their Clerk user when they accept the invitation from a verified address
+ */
+
+export type TeamMemberStatus = 'invited' | 'active'
+
+export interface TeamMember {
+  member_id: string
+  email: string // lowercased
+  roles: TeamRole[]
+  status: TeamMemberStatus
+  user_id: string | null // Clerk user, once linked
+  invitation_id: string | null // Clerk invitation, while pending
+  invited_by: string | null
+  invited_at: string
+  joined_at: string | null
+}
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase()
+}
+
+export async function getTeamMembers(): Promise<TeamMember[]> {
+  const members = await redis.hgetall<Record<string, TeamMember>>(CACHE_KEYS.TEAM_MEMBERS)
+  return Object.values(members || {}).sort((a, b) => a.invited_at.localeCompare(b.invited_at))
+}
+
+export async function getTeamMember(memberId: string): Promise<TeamMember | null> {
+  return (await redis.hget<TeamMember>(CACHE_KEYS.TEAM_MEMBERS, memberId)) || null
+}
+
+/**
+ * First member matching any of the addresses (a Clerk user can have several)
+ * Pass verified addresses only when matching a Clerk user (see getVerifiedEmails)
+ */
+export async function findTeamMemberByEmail(emails: string[]): Promise<TeamMember | null> {
+  const wanted = emails.map(normalizeEmail)
+  const members = await getTeamMembers()
+  return members.find(member => wanted.includes(member.email)) || null
+}
+
+/**
+ * Invitation not accepted yet for any of these (verified) addresses
+ */
+export async function findPendingInvitation(emails: string[]): Promise<TeamMember | null> {
+  const wanted = emails.map(normalizeEmail)
+  const members = await getTeamMembers()
+  return members.find(member => member.status === 'invited' && wanted.includes(member.email)) || null
+}
+
+/**
+ * Member linked to this Clerk user, if any
+ */
+export async function findTeamMemberByUserId(userId: string): Promise<TeamMember | null> {
+  const members = await getTeamMembers()
+  return members.find(member => member.user_id === userId) || null
+}
+
+export async function addTeamMember(
+  member: Omit<TeamMember, 'member_id' | 'invited_at'>
+): Promise<TeamMember> {
+  const created: TeamMember = {
+    ...member,
+    member_id: crypto.randomUUID(),
+    email: normalizeEmail(member.email),
+    invited_at: new Date().toISOString(),
+  }
+  await redis.hset(CACHE_KEYS.TEAM_MEMBERS, { [created.member_id]: created })
+  return created
+}
+
+/**
+ * Update a member, returns null if the member does not exist
+ */
+export async function updateTeamMember(
+  memberId: string,
+  updates: Partial<Omit<TeamMember, 'member_id' | 'email' | 'invited_at'>>
+): Promise<TeamMember | null> {
+  const member = await getTeamMember(memberId)
+  if (!member) return null
+
+  const updated: TeamMember = { ...member, ...updates }
+  await redis.hset(CACHE_KEYS.TEAM_MEMBERS, { [memberId]: updated })
+  return updated
+}
+
+/**
+ * Mark an invited member as joined with their Clerk user
+ */
+export async function linkTeamMember(memberId: string, userId: string): Promise<TeamMember | null> {
+  return updateTeamMember(memberId, {
+    status: 'active',
+    user_id: userId,
+    invitation_id: null,
+    joined_at: new Date().toISOString(),
+  })
+}
+
+export async function removeTeamMember(memberId: string): Promise<boolean> {
+  return (await redis.hdel(CACHE_KEYS.TEAM_MEMBERS, memberId)) > 0
+}
@@ -0,0 +1,200 @@
+import type { Dropbox, files } from 'dropbox'
+import { getDropboxClient, getPlayableLink, getValidAccessToken } from '@/lib/dropbox'
+import {
+  StorageConflictError,
+  type StorageEntry,
+  type StorageListing,
+  type StorageMove,
+  type StorageMoveResult,
+  type StorageProvider,
+  type StoredJson,
+  type WriteJsonOptions,
+} from './types'
+
+// Dropbox batch move polling
+const BATCH_POLL_INTERVAL_MS = 500
+const BATCH_POLL_MAX_ATTEMPTS = 120
+
+function toStorageEntry(entry: files.MetadataReference): StorageEntry {
+  const path = entry.path_display || entry.path_lower || entry.name
+  const file = entry['.tag'] === 'file' ? entry as files.FileMetadataReference : null
+  return {
+    type: entry['.tag'],
+    name: entry.name,
+    path,
+    path_lower: entry.path_lower || path.toLowerCase(),
+    size: file?.size,
+    modified_at: file?.server_modified,
+  }
+}
+
+/**
+ * Read the error_summary of a failed content API call (e.g. "path/not_found/..")
+ */
+async function errorSummary(response: Response): Promise<string> {
+  try {
+    const body = await response.json()
+    return body.error_summary || ''
+  } catch {
+    return ''
+  }
+}
+
+/**
+ * Storage backed by the label's Dropbox (the production setup)
+ */
+export class DropboxStorage implements StorageProvider {
+  readonly name = 'dropbox' as const
+
+  private async collect(dbx: Dropbox, result: files.ListFolderResult): Promise<StorageListing> {
+    const entries = [...result.entries]
+    let cursor = result.cursor
+    let hasMore = result.has_more
+
+    while (hasMore) {
+      const response = await dbx.filesListFolderContinue({ cursor })
+      entries.push(...response.result.entries)
+      cursor = response.result.cursor
+      hasMore = response.result.has_more
+    }
+
+    return { entries: entries.map(toStorageEntry), cursor }
+  }
+
+  async list(folderPath: string): Promise<StorageListing> {
+    const dbx = await getDropboxClient()
+    const response = await dbx.filesListFolder({ path: folderPath })
+    return this.collect(dbx, response.result)
+  }
+
+  async listChanges(cursor: string): Promise<StorageListing> {
+    const dbx = await getDropboxClient()
+    const response = await dbx.filesListFolderContinue({ cursor })
+    return this.collect(dbx, response.result)
+  }
+
+  async readJson<T>(filePath: string): Promise<StoredJson<T> | null> {
+    // Direct content API call, this works better with Next.js fetch than the SDK download
+    const accessToken = await getValidAccessToken()
+    const response = await fetch('https://content.dropboxapi.com/2/files/download', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        'Dropbox-API-Arg': JSON.stringify({ path: filePath }),
+      },
+    })
+
+    if (!response.ok) {
+      if (response.status === 409 && (await errorSummary(response)).startsWith('path/not_found')) {
+        return null
+      }
+      throw new Error(`Failed to download ${filePath}: ${response.status}`)
+    }
+
+    const result = JSON.parse(response.headers.get('Dropbox-API-Result') || '{}')
+    return { data: JSON.parse(await response.text()) as T, rev: result.rev }
+  }
+
+  async writeJson(filePath: string, data: unknown, options: WriteJsonOptions = {}): Promise<{ rev: string }> {
+    // update mode only succeeds while the file is still at the revision that was read
+    const mode = options.rev === undefined
+      ? 'overwrite'
+      : options.rev === null
+        ? 'add'
+        : { '.tag': 'update', update: options.rev }
+
+    const accessToken = await getValidAccessToken()
+    const response = await fetch('https://content.dropboxapi.com/2/files/upload', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        'Content-Type': 'application/octet-stream',
+        'Dropbox-API-Arg': JSON.stringify({ path: filePath, mode, autorename: false }),
+      },
+      body: JSON.stringify(data, null, 2),
+    })
+
+    if (!response.ok) {
+      if (response.status === 409 && (await errorSummary(response)).startsWith('path/conflict')) {
+        throw new StorageConflictError(filePath)
+      }
+      throw new Error(`Failed to upload ${filePath}: ${response.status}`)
+    }
+
+    const result = await response.json()
+    return { rev: result.rev }
+  }
+
+  async move(fromPath: string, toPath: string): Promise<void> {
+    const dbx = await getDropboxClient()
+    await dbx.filesMoveV2({ from_path: fromPath, to_path: toPath, autorename: false })
+  }
+
+  async moveBatch(moves: StorageMove[]): Promise<StorageMoveResult[]> {
+    if (moves.length === 0) {
+      return []
+    }
+
+    const dbx = await getDropboxClient()
+    const launch = await dbx.filesMoveBatchV2({
+      entries: moves.map(move => ({ from_path: move.from, to_path: move.to })),
+      autorename: false,
+    })
+    let status: files.RelocationBatchV2Launch | files.RelocationBatchV2JobStatus = launch.result
+
+    // Large batches run asynchronously - poll the job until it completes
+    if (launch.result['.tag'] === 'async_job_id') {
+      const asyncJobId = launch.result.async_job_id
+      let attempts = 0
+
+      do {
+        if (attempts >= BATCH_POLL_MAX_ATTEMPTS) {
+          // Dropbox keeps moving in the background, report what has arrived so far
+          console.warn(`⚠️  Dropbox batch move ${asyncJobId} still running, checking the destinations`)
+          return this.checkMoves(moves, asyncJobId)
+        }
+        await new Promise(resolve => setTimeout(resolve, BATCH_POLL_INTERVAL_MS))
+        status = (await dbx.filesMoveBatchCheckV2({ async_job_id: asyncJobId })).result
+        attempts++
+      } while (status['.tag'] === 'in_progress')
+    }
+
+    if (status['.tag'] !== 'complete') {
+      throw new Error(`Unexpected Dropbox batch move status: ${status['.tag']}`)
+    }
+
+    return status.entries.map((entry: files.RelocationBatchResultEntry) =>
+      entry['.tag'] === 'success'
+        ? { success: true }
+        : { success: false, error: entry['.tag'] === 'failure' ? entry.failure['.tag'] : entry['.tag'] }
+    )
+  }
+
+  /**
+   * Results of a batch move that is still running: moves whose file is at the
+   * destination are done, the rest are pending
+   */
+  private async checkMoves(moves: StorageMove[], asyncJobId: string): Promise<StorageMoveResult[]> {
+    const folders = Array.from(new Set(moves.map(move => move.to.slice(0, move.to.lastIndexOf('/')))))
+    const arrived = new Set<string>()
+    for (const folder of folders) {
+      const { entries } = await this.list(folder)
+      entries.forEach(entry => arrived.add(entry.path_lower))
+    }
+
+    return moves.map(move =>
+      arrived.has(move.to.toLowerCase())
+        ? { success: true }
+        : { success: false, pending: true, error: `Still being moved by Dropbox (job ${asyncJobId})` }
+    )
+  }
+
+  async delete(path: string): Promise<void> {
+    const dbx = await getDropboxClient()
+    await dbx.filesDeleteV2({ path })
+  }
+
+  async getPlayableLink(filePath: string): Promise<string> {
+    return getPlayableLink(await getDropboxClient(), filePath)
+  }
+}
@@ -0,0 +1,23 @@
+import path from 'path'
+import { DropboxStorage } from './dropbox-storage'
+import { LocalStorage } from './local-storage'
+import type { StorageProvider } from './types'
+
+export * from './types'
+export { DropboxStorage, LocalStorage }
+
+let storageInstance: StorageProvider | null = null
+
+/**
+ * Get the configured storage provider
+ * STORAGE_PROVIDER=local serves everything from LOCAL_STORAGE_ROOT (default ./storage),
+ * anything else uses Dropbox
+ */
+export function getStorage(): StorageProvider {
+  if (!storageInstance) {
+    storageInstance = process.env.STORAGE_PROVIDER === 'local'
+      ? new LocalStorage(path.resolve(process.env.LOCAL_STORAGE_ROOT || 'storage'))
+      : new DropboxStorage()
+  }
+  return storageInstance
+}
@@ -0,0 +1,191 @@
+import { createHash } from 'crypto'
+import { promises as fs } from 'fs'
+import path from 'path'
+import {
+  StorageConflictError,
+  type StorageEntry,
+  type StorageListing,
+  type StorageMove,
+  type StorageMoveResult,
+  type StorageProvider,
+  type StoredJson,
+  type WriteJsonOptions,
+} from './types'
+
+// Route that streams local files to the browser (see app/api/storage/file)
+const LOCAL_FILE_ROUTE = '/api/storage/file'
+
+// Listing cursor: the folder and a fingerprint (mtime + size) of every file in it
+interface LocalCursor {
+  folder: string
+  files: Record<string, string>
+}
+
+function contentRev(content: Buffer | string): string {
+  return createHash('sha1').update(content).digest('hex').slice(0, 16)
+}
+
+function encodeCursor(cursor: LocalCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url')
+}
+
+function decodeCursor(cursor: string): LocalCursor {
+  const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'))
+  if (typeof decoded?.folder !== 'string' || typeof decoded?.files !== 'object') {
+    throw new Error('Invalid local storage cursor')
+  }
+  return decoded
+}
+
+function isNotFound(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException)?.code === 'ENOENT'
+}
+
+/**
+ * Storage in a folder on this machine, mirroring the Dropbox layout
+ * Lets the dashboard run offline against a copy of the Dropbox folder tree
+ */
+export class LocalStorage implements StorageProvider {
+  readonly name = 'local' as const
+
+  constructor(private readonly root: string) {}
+
+  /**
+   * Absolute location of a storage path, refusing paths that escape the root
+   */
+  resolvePath(storagePath: string): string {
+    const resolved = path.resolve(this.root, `.${path.posix.normalize(`/${storagePath}`)}`)
+    if (resolved !== this.root && !resolved.startsWith(`${this.root}${path.sep}`)) {
+      throw new Error(`Path outside local storage root: ${storagePath}`)
+    }
+    return resolved
+  }
+
+  private async scan(folderPath: string): Promise<{ entries: StorageEntry[]; cursor: LocalCursor }> {
+    const folder = path.posix.normalize(`/${folderPath}`).replace(/\/$/, '')
+    const cursor: LocalCursor = { folder, files: {} }
+    const entries: StorageEntry[] = []
+
+    let dirents
+    try {
+      dirents = await fs.readdir(this.resolvePath(folder), { withFileTypes: true })
+    } catch (error) {
+      // A missing folder lists as empty, like a fresh Dropbox workflow folder
+      if (isNotFound(error)) return { entries, cursor }
+      throw error
+    }
+
+    for (const dirent of dirents) {
+      const entryPath = `${folder}/${dirent.name}`
+      if (dirent.isDirectory()) {
+        entries.push({ type: 'folder', name: dirent.name, path: entryPath, path_lower: entryPath.toLowerCase() })
+        continue
+      }
+      if (!dirent.isFile() || dirent.name.endsWith('.tmp')) continue
+
+      const stats = await fs.stat(this.resolvePath(entryPath))
+      cursor.files[dirent.name] = `${stats.mtimeMs}-${stats.size}`
+      entries.push({
+        type: 'file',
+        name: dirent.name,
+        path: entryPath,
+        path_lower: entryPath.toLowerCase(),
+        size: stats.size,
+        modified_at: stats.mtime.toISOString(),
+      })
+    }
+
+    return { entries, cursor }
+  }
+
+  async list(folderPath: string): Promise<StorageListing> {
+    const { entries, cursor } = await this.scan(folderPath)
+    return { entries, cursor: encodeCursor(cursor) }
+  }
+
+  async listChanges(cursor: string): Promise<StorageListing> {
+    const previous = decodeCursor(cursor)
+    const { entries, cursor: current } = await this.scan(previous.folder)
+
+    // Files that are new or whose fingerprint changed, then files that disappeared
+    const changes = entries.filter(entry =>
+      entry.type === 'file' && previous.files[entry.name] !== current.files[entry.name]
+    )
+    for (const name of Object.keys(previous.files)) {
+      if (!(name in current.files)) {
+        const entryPath = `${previous.folder}/${name}`
+        changes.push({ type: 'deleted', name, path: entryPath, path_lower: entryPath.toLowerCase() })
+      }
+    }
+
+    return { entries: changes, cursor: encodeCursor(current) }
+  }
+
+  async readJson<T>(filePath: string): Promise<StoredJson<T> | null> {
+    try {
+      const content = await fs.readFile(this.resolvePath(filePath))
+      return { data: JSON.parse(content.toString('utf8')) as T, rev: contentRev(content) }
+    } catch (error) {
+      if (isNotFound(error)) return null
+      throw error
+    }
+  }
+
+  async writeJson(filePath: string, data: unknown, options: WriteJsonOptions = {}): Promise<{ rev: string }> {
+    const target = this.resolvePath(filePath)
+
+    if (options.rev !== undefined) {
+      const current = await fs.readFile(target).catch(error => {
+        if (isNotFound(error)) return null
+        throw error
+      })
+      const currentRev = current ? contentRev(current) : null
+      if (currentRev !== options.rev) {
+        throw new StorageConflictError(filePath)
+      }
+    }
+
+    // Write to a temporary file first so readers never see a half written file
+    const content = JSON.stringify(data, null, 2)
+    const temporary = `${target}.${process.pid}.tmp`
+    await fs.mkdir(path.dirname(target), { recursive: true })
+    await fs.writeFile(temporary, content)
+    await fs.rename(temporary, target)
+
+    return { rev: contentRev(content) }
+  }
+
+  async move(fromPath: string, toPath: string): Promise<void> {
+    const source = this.resolvePath(fromPath)
+    const destination = this.resolvePath(toPath)
+
+    const exists = await fs.stat(destination).then(() => true, () => false)
+    if (exists) {
+      throw new Error(`Destination already exists: ${toPath}`)
+    }
+
+    await fs.mkdir(path.dirname(destination), { recursive: true })
+    await fs.rename(source, destination)
+  }
+
+  async moveBatch(moves: StorageMove[]): Promise<StorageMoveResult[]> {
+    const results: StorageMoveResult[] = []
+    for (const move of moves) {
+      try {
+        await this.move(move.from, move.to)
+        results.push({ success: true })
+      } catch (error) {
+        results.push({ success: false, error: error instanceof Error ? error.message : 'Unknown move error' })
+      }
+    }
+    return results
+  }
+
+  async delete(targetPath: string): Promise<void> {
+    await fs.rm(this.resolvePath(targetPath), { recursive: true })
+  }
+
+  async getPlayableLink(filePath: string): Promise<string> {
+    return `${LOCAL_FILE_ROUTE}?path=${encodeURIComponent(filePath)}`
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * Storage provider contract
+ * Everything the dashboard keeps in files (demo audio + metadata, artists, events)
+ * goes through a StorageProvider, so Dropbox can be swapped for a local folder tree
+ * laid out the same way (/demos/*, /artists/artist_urls.json, /events/events.json)
+ */
+
+export interface StorageEntry {
+  type: 'file' | 'folder' | 'deleted'
+  name: string
+  path: string
+  path_lower: string
+  size?: number
+  modified_at?: string // ISO timestamp of the last server-side change
+}
+
+export interface StorageListing {
+  entries: StorageEntry[]
+  // Pass to listChanges() to receive only what changed after this listing
+  cursor: string
+}
+
+export interface StoredJson<T> {
+  data: T
+  // Revision of the file as read, pass to writeJson() to only write if it is unchanged
+  rev: string
+}
+
+export interface WriteJsonOptions {
+  // Expected current revision; null means the file must not exist yet,
+  // undefined overwrites whatever is there
+  rev?: string | null
+}
+
+export interface StorageMove {
+  from: string
+  to: string
+}
+
+export interface StorageMoveResult {
+  success: boolean
+  error?: string
+  // Still running when the provider stopped waiting, the file may arrive later
+  pending?: boolean
+}
+
+export interface StorageProvider {
+  readonly name: 'dropbox' | 'local'
+
+  /** List every entry of a folder (not recursive) */
+  list(folderPath: string): Promise<StorageListing>
+
+  /** Entries added, changed or deleted since a listing cursor; throws when the cursor is no longer valid */
+  listChanges(cursor: string): Promise<StorageListing>
+
+  /** Read and parse a JSON file, null when it does not exist */
+  readJson<T>(filePath: string): Promise<StoredJson<T> | null>
+
+  /** Write a JSON file, throws StorageConflictError when options.rev no longer matches */
+  writeJson(filePath: string, data: unknown, options?: WriteJsonOptions): Promise<{ rev: string }>
+
+  /** Move a file, failing if the destination already exists */
+  move(fromPath: string, toPath: string): Promise<void>
+
+  /** Move many files at once, returns one result per move in the same order */
+  moveBatch(moves: StorageMove[]): Promise<StorageMoveResult[]>
+
+  /** Delete a file or folder */
+  delete(path: string): Promise<void>
+
+  /** URL an audio element can play the file from, empty string if none can be made */
+  getPlayableLink(filePath: string): Promise<string>
+}
+
+/**
+ * The file changed since it was read (its revision no longer matches)
+ */
+export class StorageConflictError extends Error {
+  constructor(public readonly path: string) {
+    super(`${path} was modified by someone else`)
+    this.name = 'StorageConflictError'
+  }
+}
@@ -0,0 +1,160 @@
+import { clerkClient, type User } from '@clerk/nextjs/server'
+import { getVerifiedEmails, isTeamRole, normalizeRoles, type TeamRole } from '@/lib/roles'
+import { findTeamMemberByUserId, normalizeEmail, type TeamMember } from '@/lib/services/team-service'
+
+/**
+ * Shared by /api/team and /api/team/[member_id]
+ */
+
+export interface TeamMemberView extends TeamMember {
+  name: string | null
+  last_active_at: string | null
+  is_current_user: boolean
+  // Roles set in Clerk metadata only (e.g. in the Clerk dashboard), not on the allowlist
+  from_clerk: boolean
+}
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+// member_id of a Clerk user listed for their metadata roles, see getClerkOnlyMembers
+const CLERK_MEMBER_PREFIX = 'clerk:'
+
+// Clerk users fetched per request when looking for metadata roles
+const CLERK_PAGE_SIZE = 100
+
+/**
+ * Validate the roles of a request body; at least one role is required
+ */
+export function parseTeamRoles(value: unknown): { roles: TeamRole[] } | { error: string } {
+  if (!Array.isArray(value) || value.length === 0 || !value.every(isTeamRole)) {
+    return { error: 'roles must be a non-empty array of: owner, assistant, viewer' }
+  }
+  return { roles: normalizeRoles(value) }
+}
+
+export function parseTeamEmail(value: unknown): { email: string } | { error: string } {
+  if (typeof value !== 'string' || !EMAIL_REGEX.test(value.trim())) {
+    return { error: 'Please enter a valid email address' }
+  }
+  return { email: normalizeEmail(value) }
+}
+
+/**
+ * Existing Clerk user who verified this address, if any
+ */
+export async function findClerkUserId(email: string): Promise<string | null> {
+  const client = await clerkClient()
+  const { data } = await client.users.getUserList({ emailAddress: [email], limit: 1 })
+  const user = data[0]
+  return user && getVerifiedEmails(user).includes(email) ? user.id : null
+}
+
+function toClerkOnlyMember(user: User): TeamMember {
+  const joinedAt = new Date(user.createdAt).toISOString()
+  return {
+    member_id: `${CLERK_MEMBER_PREFIX}${user.id}`,
+    email: getVerifiedEmails(user)[0] || normalizeEmail(user.primaryEmailAddress?.emailAddress || ''),
+    roles: normalizeRoles(user.publicMetadata?.roles),
+    status: 'active',
+    user_id: user.id,
+    invitation_id: null,
+    invited_by: null,
+    invited_at: joinedAt,
+    joined_at: joinedAt,
+  }
+}
+
+/**
+ * Clerk users who hold roles through their Clerk metadata without being on the allowlist
+ * (getUserRoles honours those), so the team page can show and revoke them too
+ */
+export async function getClerkOnlyMembers(members: TeamMember[]): Promise<TeamMember[]> {
+  const linked = new Set(members.map(member => member.user_id))
+  const client = await clerkClient()
+  const found: TeamMember[] = []
+
+  for (let offset = 0; ; offset += CLERK_PAGE_SIZE) {
+    const { data } = await client.users.getUserList({ limit: CLERK_PAGE_SIZE, offset, orderBy: 'created_at' })
+    data
+      .filter(user => !linked.has(user.id) && normalizeRoles(user.publicMetadata?.roles).length > 0)
+      .forEach(user => found.push(toClerkOnlyMember(user)))
+    if (data.length < CLERK_PAGE_SIZE) {
+      return found
+    }
+  }
+}
+
+/**
+ * The Clerk-only member behind a member_id from getClerkOnlyMembers, null for allowlist
+ * ids, unknown users and users who no longer hold metadata roles or have joined the allowlist
+ */
+export async function getClerkOnlyMember(memberId: string): Promise<TeamMember | null> {
+  if (!memberId.startsWith(CLERK_MEMBER_PREFIX)) return null
+
+  try {
+    const client = await clerkClient()
+    const member = toClerkOnlyMember(await client.users.getUser(memberId.slice(CLERK_MEMBER_PREFIX.length)))
+    if (member.roles.length === 0 || await findTeamMemberByUserId(member.user_id!)) return null
+    return member
+  } catch (error) {
+    console.warn(`Could not load Clerk user for ${memberId}:`, error)
+    return null
+  }
+}
+
+/**
+ * Send a Clerk invitation email pointing at the sign-up page
+ * Returns the invitation id, or null if Clerk refused to send it
+ */
+export async function sendClerkInvitation(email: string, origin: string): Promise<string | null> {
+  try {
+    const client = await clerkClient()
+    const invitation = await client.invitations.createInvitation({
+      emailAddress: email,
+      redirectUrl: `${origin}/sign-up`,
+      ignoreExisting: true,
+    })
+    return invitation.id
+  } catch (error) {
+    console.error(`Failed to send invitation to ${email}:`, error)
+    return null
+  }
+}
+
+export async function revokeClerkInvitation(invitationId: string): Promise<void> {
+  try {
+    const client = await clerkClient()
+    await client.invitations.revokeInvitation(invitationId)
+  } catch (error) {
+    // Already accepted or expired, nothing left to revoke
+    console.warn(`Could not revoke invitation ${invitationId}:`, error)
+  }
+}
+
+/**
+ * Add names and last activity from Clerk to the members who have signed in
+ */
+export async function toTeamMemberViews(members: TeamMember[], currentUserId: string): Promise<TeamMemberView[]> {
+  const userIds = members.map(member => member.user_id).filter((id): id is string => Boolean(id))
+
+  const users = new Map<string, { name: string | null; lastActiveAt: number | null }>()
+  if (userIds.length > 0) {
+    const client = await clerkClient()
+    const { data } = await client.users.getUserList({ userId: userIds, limit: userIds.length })
+    data.forEach(user => users.set(user.id, {
+      name: user.fullName,
+      lastActiveAt: user.lastActiveAt ?? user.lastSignInAt,
+    }))
+  }
+
+  return members.map(member => {
+    const user = member.user_id ? users.get(member.user_id) : undefined
+    return {
+      ...member,
+      name: user?.name || null,
+      last_active_at: user?.lastActiveAt ? new Date(user.lastActiveAt).toISOString() : null,
+      is_current_user: member.user_id === currentUserId,
+      from_clerk: member.member_id.startsWith(CLERK_MEMBER_PREFIX),
+    }
+  })
+}
@@ -1,13 +1,25 @@
 import { clerkMiddleware, createRouteMatcher } from '@clerk/nextjs/server'
 import { NextResponse } from "next/server";
+import { getUserRoles } from '@/lib/roles'
+import { getPermissionsForRoles, type Permission } from '@/lib/permissions'
 
 const isProtectedRoute = createRouteMatcher([
   '/dashboard(.*)',
   '/api/demos(.*)',
   '/api/artists(.*)',
   '/api/events(.*)',
+  '/api/storage(.*)',
+  '/api/settings(.*)',
+  '/api/team(.*)',
 ])
 
+// Routes that need a specific permission; everything else needs any role
+const PERMISSION_ROUTES: { matches: ReturnType<typeof createRouteMatcher>; permission: Permission }[] = [
+  { matches: createRouteMatcher(['/api/demos/(.*)/owner-action']), permission: 'demos:approve' },
+  { matches: createRouteMatcher(['/api/demos/(.*)/assistant-action']), permission: 'demos:review' },
+  { matches: createRouteMatcher(['/dashboard/team(.*)', '/api/team(.*)']), permission: 'team:manage' },
+]
+
 export default clerkMiddleware(async (auth, req) => {
   const { userId } = await auth();
 
@@ -21,8 +33,21 @@ export default clerkMiddleware(async (auth, req) => {
     return NextResponse.redirect(new URL('/sign-in', req.url));
   }
 
-  // User is authenticated - allow access
-  // Role is managed client-side via the role switcher
+  // Signed in is not enough: the user needs a role on the team
+  const isApiRoute = req.nextUrl.pathname.startsWith('/api/');
+  const roles = await getUserRoles(userId);
+  const required = PERMISSION_ROUTES.find(route => route.matches(req))?.permission;
+  const isAllowed = required
+    ? getPermissionsForRoles(roles).includes(required)
+    : roles.length > 0;
+
+  if (!isAllowed) {
+    return isApiRoute
+      ? NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+      : NextResponse.redirect(new URL('/unauthorized', req.url));
+  }
+
+  // Route handlers check the permission each operation needs (see lib/permissions.ts)
   return NextResponse.next();
 });
 
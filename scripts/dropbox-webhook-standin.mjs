@@ -0,0 +1,53 @@
+/**
+ * Local stand-in for Dropbox webhooks
+ * Runs the challenge handshake, then posts a notification signed with DROPBOX_APP_SECRET
+ * (and one with a bad signature, which must be rejected) to /api/webhooks/dropbox.
+ *
+ * Usage: DROPBOX_APP_SECRET=... npm run webhook:dropbox -- [base_url]
+ * base_url defaults to http://localhost:3000
+ */
+import { createHmac, randomUUID } from 'crypto'
+
+const baseUrl = process.argv[2] || 'http://localhost:3000'
+const appSecret = process.env.DROPBOX_APP_SECRET
+const webhookUrl = `${baseUrl}/api/webhooks/dropbox`
+
+if (!appSecret) {
+  console.error('DROPBOX_APP_SECRET must be set to the same value the app uses')
+  process.exit(1)
+}
+
+async function main() {
+  // 1. Challenge handshake
+  const challenge = randomUUID()
+  const challengeResponse = await fetch(`${webhookUrl}?challenge=${challenge}`)
+  const echoed = await challengeResponse.text()
+  console.log(`Challenge: ${challengeResponse.status} ${echoed === challenge ? 'echoed correctly' : `unexpected body "${echoed}"`}`)
+
+  // 2. Signed notification, same shape Dropbox sends
+  const body = JSON.stringify({
+    list_folder: { accounts: ['dbid:standin'] },
+    delta: { users: [12345] },
+  })
+  const signature = createHmac('sha256', appSecret).update(body, 'utf8').digest('hex')
+
+  const signedResponse = await fetch(webhookUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'X-Dropbox-Signature': signature },
+    body,
+  })
+  console.log(`Signed notification: ${signedResponse.status} ${await signedResponse.text()}`)
+
+  // 3. Tampered signature must be rejected
+  const forgedResponse = await fetch(webhookUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'X-Dropbox-Signature': '0'.repeat(64) },
+    body,
+  })
+  console.log(`Forged notification: ${forgedResponse.status} (expected 403)`)
+}
+
+main().catch(error => {
+  console.error('Webhook stand-in failed:', error)
+  process.exit(1)
+})
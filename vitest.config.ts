@@ -0,0 +1,18 @@
+import path from 'path'
+import { fileURLToPath } from 'url'
+import { defineConfig } from 'vitest/config'
+
+/**
+ * Unit tests (npm test), placed next to the module they cover as *.test.ts
+ */
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@': path.dirname(fileURLToPath(import.meta.url)),
+    },
+  },
+  test: {
+    environment: 'node',
+    include: ['lib/**/*.test.ts'],
+  },
+})